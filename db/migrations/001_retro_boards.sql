@@ -0,0 +1,77 @@
+-- Retro boards: one board per team retro, with items, votes and comments scoped to it.
+
+create table if not exists retro_boards (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  sprint_label text,
+  starts_on date,
+  ends_on date,
+  created_by uuid not null references users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint retro_boards_dates_check check (ends_on is null or starts_on is null or ends_on >= starts_on)
+);
+
+alter table retro_boards enable row level security;
+
+create policy "Authenticated users can read boards" on retro_boards
+  for select to authenticated using (true);
+
+create policy "Users can create their own boards" on retro_boards
+  for insert to authenticated with check (created_by = auth.uid());
+
+create policy "Owners can update their boards" on retro_boards
+  for update to authenticated using (created_by = auth.uid());
+
+create policy "Owners can delete their boards" on retro_boards
+  for delete to authenticated using (created_by = auth.uid());
+
+-- Scope items, votes and comments to a board.
+alter table retro_items add column if not exists board_id uuid references retro_boards(id) on delete cascade;
+alter table votes add column if not exists board_id uuid references retro_boards(id) on delete cascade;
+alter table comments add column if not exists board_id uuid references retro_boards(id) on delete cascade;
+
+-- Move everything created before boards existed onto a single legacy board.
+do $$
+declare
+  legacy_board_id uuid;
+  legacy_owner uuid;
+begin
+  select created_by into legacy_owner from retro_items where board_id is null order by created_at limit 1;
+  if legacy_owner is not null then
+    insert into retro_boards (name, sprint_label, created_by)
+    values ('Legacy retro', null, legacy_owner)
+    returning id into legacy_board_id;
+
+    update retro_items set board_id = legacy_board_id where board_id is null;
+  end if;
+end $$;
+
+update votes v set board_id = i.board_id from retro_items i where v.retro_item_id = i.id and v.board_id is null;
+update comments c set board_id = i.board_id from retro_items i where c.retro_item_id = i.id and c.board_id is null;
+
+alter table retro_items alter column board_id set not null;
+alter table votes alter column board_id set not null;
+alter table comments alter column board_id set not null;
+
+create index if not exists retro_items_board_id_idx on retro_items (board_id);
+create index if not exists votes_board_id_idx on votes (board_id);
+create index if not exists comments_board_id_idx on comments (board_id);
+
+-- Votes and comments always live on their item's board, whatever the client sent.
+create or replace function set_board_id_from_item() returns trigger as $$
+begin
+  select board_id into new.board_id from retro_items where id = new.retro_item_id;
+  if new.board_id is null then
+    raise exception 'Retro item % does not exist', new.retro_item_id;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists votes_set_board_id on votes;
+create trigger votes_set_board_id before insert or update of retro_item_id on votes
+  for each row execute function set_board_id_from_item();
+
+drop trigger if exists comments_set_board_id on comments;
+create trigger comments_set_board_id before insert or update of retro_item_id on comments
+  for each row execute function set_board_id_from_item();
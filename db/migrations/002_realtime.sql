@@ -0,0 +1,43 @@
+-- Realtime: every insert/delete on a board's items, votes and comments is published to `board:<board_id>`.
+
+insert into realtime.channels (pattern, description, enabled)
+values ('board:%', 'Retro board items, votes and comments', true)
+on conflict (pattern) do nothing;
+
+-- TG_ARGV[0] is the entity name used in the event (`item.created`, `vote.deleted`, ...),
+-- TG_ARGV[1] the column holding the author, whose nickname is embedded like the app's selects do.
+create or replace function publish_board_change() returns trigger as $$
+declare
+  record jsonb;
+  author_nickname text;
+begin
+  if tg_op = 'DELETE' then
+    record := to_jsonb(old);
+  else
+    record := to_jsonb(new);
+  end if;
+
+  select nickname into author_nickname from users where id = (record ->> tg_argv[1])::uuid;
+  record := record || jsonb_build_object('users', jsonb_build_object('nickname', author_nickname));
+
+  perform realtime.publish(
+    'board:' || (record ->> 'board_id'),
+    tg_argv[0] || case when tg_op = 'DELETE' then '.deleted' else '.created' end,
+    record
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists retro_items_publish_change on retro_items;
+create trigger retro_items_publish_change after insert or delete on retro_items
+  for each row execute function publish_board_change('item', 'created_by');
+
+drop trigger if exists votes_publish_change on votes;
+create trigger votes_publish_change after insert or delete on votes
+  for each row execute function publish_board_change('vote', 'user_id');
+
+drop trigger if exists comments_publish_change on comments;
+create trigger comments_publish_change after insert or delete on comments
+  for each row execute function publish_board_change('comment', 'user_id');
@@ -0,0 +1,66 @@
+-- Retro phases: the board owner (facilitator) moves the board through write -> group -> vote -> discuss -> done.
+
+alter table retro_boards add column if not exists phase text not null default 'write'
+  check (phase in ('write', 'group', 'vote', 'discuss', 'done'));
+
+-- Rejects writes the current phase does not allow. TG_ARGV lists the phases in which the
+-- operation is permitted. Rows whose board or item is already gone are let through, so
+-- cascading deletes from a removed board or item still work.
+create or replace function enforce_board_phase() returns trigger as $$
+declare
+  row_data jsonb;
+  current_phase text;
+begin
+  if tg_op = 'DELETE' then
+    row_data := to_jsonb(old);
+  else
+    row_data := to_jsonb(new);
+  end if;
+
+  if tg_table_name = 'retro_items' then
+    select phase into current_phase from retro_boards where id = (row_data ->> 'board_id')::uuid;
+  else
+    select b.phase into current_phase
+    from retro_items i
+    join retro_boards b on b.id = i.board_id
+    where i.id = (row_data ->> 'retro_item_id')::uuid;
+  end if;
+
+  if current_phase is not null and not (current_phase = any (tg_argv)) then
+    raise exception 'This action is not available during the % phase', current_phase;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists retro_items_enforce_phase_insert on retro_items;
+create trigger retro_items_enforce_phase_insert before insert on retro_items
+  for each row execute function enforce_board_phase('write');
+
+drop trigger if exists retro_items_enforce_phase_delete on retro_items;
+create trigger retro_items_enforce_phase_delete before delete on retro_items
+  for each row execute function enforce_board_phase('write', 'group', 'vote', 'discuss');
+
+drop trigger if exists votes_enforce_phase on votes;
+create trigger votes_enforce_phase before insert or delete on votes
+  for each row execute function enforce_board_phase('vote');
+
+drop trigger if exists comments_enforce_phase on comments;
+create trigger comments_enforce_phase before insert or delete on comments
+  for each row execute function enforce_board_phase('write', 'group', 'vote', 'discuss');
+
+-- Phase changes (and any other board edit) are pushed to everyone on the board channel.
+create or replace function publish_board_update() returns trigger as $$
+begin
+  perform realtime.publish('board:' || new.id::text, 'board.updated', to_jsonb(new));
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists retro_boards_publish_update on retro_boards;
+create trigger retro_boards_publish_update after update on retro_boards
+  for each row execute function publish_board_update();
@@ -0,0 +1,43 @@
+-- Dot voting: every participant gets `vote_budget` votes per board and may stack up to
+-- `max_votes_per_item` of them on a single card.
+
+alter table retro_boards add column if not exists vote_budget integer not null default 5
+  check (vote_budget > 0);
+alter table retro_boards add column if not exists max_votes_per_item integer not null default 1
+  check (max_votes_per_item > 0);
+
+-- Several dots on one card mean several rows per (item, user).
+alter table votes drop constraint if exists votes_retro_item_id_user_id_key;
+drop index if exists votes_retro_item_id_user_id_key;
+
+create index if not exists votes_board_id_user_id_idx on votes (board_id, user_id);
+
+create or replace function enforce_vote_budget() returns trigger as $$
+declare
+  board retro_boards%rowtype;
+  used_on_board integer;
+  used_on_item integer;
+begin
+  -- Runs after set_board_id_from_item (triggers fire in name order), so board_id is trusted.
+  select * into board from retro_boards where id = new.board_id;
+
+  -- Serialize concurrent votes by the same user on the same board so the counts below hold.
+  perform pg_advisory_xact_lock(hashtext(new.board_id::text || ':' || new.user_id::text));
+
+  select count(*) into used_on_board from votes where board_id = new.board_id and user_id = new.user_id;
+  if used_on_board >= board.vote_budget then
+    raise exception 'You have used all % of your votes on this board', board.vote_budget;
+  end if;
+
+  select count(*) into used_on_item from votes where retro_item_id = new.retro_item_id and user_id = new.user_id;
+  if used_on_item >= board.max_votes_per_item then
+    raise exception 'You can put at most % vote(s) on one card', board.max_votes_per_item;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists votes_z_enforce_budget on votes;
+create trigger votes_z_enforce_budget before insert on votes
+  for each row execute function enforce_vote_budget();
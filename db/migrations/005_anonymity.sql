@@ -0,0 +1,124 @@
+-- Anonymous mode: a board can hide item/comment authors, voters, or both. Identities are
+-- masked in the database so other participants never receive them.
+
+alter table retro_boards add column if not exists anonymity text not null default 'none'
+  check (anonymity in ('none', 'authors', 'voters', 'both'));
+
+create or replace function board_hides_authors(target_board_id uuid) returns boolean as $$
+  select anonymity in ('authors', 'both') from retro_boards where id = target_board_id;
+$$ language sql stable security definer;
+
+create or replace function board_hides_voters(target_board_id uuid) returns boolean as $$
+  select anonymity in ('voters', 'both') from retro_boards where id = target_board_id;
+$$ language sql stable security definer;
+
+-- Read-side views. The app reads through these; each row keeps the identity only when the
+-- board does not hide it or when it belongs to the current user (so owners can still
+-- delete their own cards and count their own votes).
+create or replace view board_items as
+select
+  i.id,
+  i.board_id,
+  i.category,
+  i.content,
+  i.created_at,
+  case when masked then null else i.created_by end as created_by,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users
+from retro_items i
+left join users u on u.id = i.created_by
+cross join lateral (
+  select board_hides_authors(i.board_id) and i.created_by is distinct from auth.uid() as masked
+) m;
+
+create or replace view board_votes as
+select
+  v.id,
+  v.board_id,
+  v.retro_item_id,
+  case when masked then null else v.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users
+from votes v
+left join users u on u.id = v.user_id
+cross join lateral (
+  select board_hides_voters(v.board_id) and v.user_id is distinct from auth.uid() as masked
+) m;
+
+create or replace view board_comments as
+select
+  c.id,
+  c.board_id,
+  c.retro_item_id,
+  c.content,
+  c.created_at,
+  case when masked then null else c.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users
+from comments c
+left join users u on u.id = c.user_id
+cross join lateral (
+  select board_hides_authors(c.board_id) and c.user_id is distinct from auth.uid() as masked
+) m;
+
+grant select on board_items, board_votes, board_comments to authenticated;
+
+-- Direct table reads are limited to the caller's own rows; everything else goes through the views.
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('retro_items', 'votes', 'comments') and cmd = 'SELECT'
+  loop
+    execute format('drop policy %I on %I', policy.policyname, policy.tablename);
+  end loop;
+end $$;
+
+create policy "Authors can read their own items" on retro_items
+  for select to authenticated using (created_by = auth.uid());
+
+create policy "Voters can read their own votes" on votes
+  for select to authenticated using (user_id = auth.uid());
+
+create policy "Authors can read their own comments" on comments
+  for select to authenticated using (user_id = auth.uid());
+
+-- The write-side triggers look at other users' rows, which callers can no longer select.
+alter function set_board_id_from_item() security definer;
+alter function enforce_board_phase() security definer;
+alter function enforce_vote_budget() security definer;
+
+-- Realtime payloads go to everyone on the board, so mask them the same way the views do.
+create or replace function publish_board_change() returns trigger as $$
+declare
+  record jsonb;
+  author_nickname text;
+  masked boolean;
+begin
+  if tg_op = 'DELETE' then
+    record := to_jsonb(old);
+  else
+    record := to_jsonb(new);
+  end if;
+
+  if tg_argv[0] = 'vote' then
+    masked := board_hides_voters((record ->> 'board_id')::uuid);
+  else
+    masked := board_hides_authors((record ->> 'board_id')::uuid);
+  end if;
+
+  if coalesce(masked, false) then
+    record := record || jsonb_build_object(tg_argv[1], null, 'users', null);
+  else
+    select nickname into author_nickname from users where id = (record ->> tg_argv[1])::uuid;
+    record := record || jsonb_build_object('users', jsonb_build_object('nickname', author_nickname));
+  end if;
+
+  perform realtime.publish(
+    'board:' || (record ->> 'board_id'),
+    tg_argv[0] || case when tg_op = 'DELETE' then '.deleted' else '.created' end,
+    record
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,56 @@
+-- Action items: follow-ups promoted from retro items, tracked until done and carried over
+-- to later retros while still open.
+
+create table if not exists action_items (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  retro_item_id uuid references retro_items(id) on delete set null,
+  title text not null check (length(trim(title)) > 0),
+  assignee_id uuid references users(id) on delete set null,
+  due_on date,
+  status text not null default 'open' check (status in ('open', 'done')),
+  completed_at timestamptz,
+  created_by uuid not null references users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists action_items_board_id_idx on action_items (board_id);
+create index if not exists action_items_open_idx on action_items (status) where status = 'open';
+
+alter table action_items enable row level security;
+
+create policy "Authenticated users can read action items" on action_items
+  for select to authenticated using (true);
+
+create policy "Users can create action items" on action_items
+  for insert to authenticated with check (created_by = auth.uid());
+
+-- Anyone on the team can reassign, reschedule or tick off an action item.
+create policy "Authenticated users can update action items" on action_items
+  for update to authenticated using (true);
+
+create policy "Creators can delete their action items" on action_items
+  for delete to authenticated using (created_by = auth.uid());
+
+create or replace function publish_action_item_change() returns trigger as $$
+declare
+  target_board_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    target_board_id := old.board_id;
+  else
+    target_board_id := new.board_id;
+  end if;
+
+  perform realtime.publish(
+    'board:' || target_board_id::text,
+    'action_item.changed',
+    jsonb_build_object('operation', lower(tg_op))
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists action_items_publish_change on action_items;
+create trigger action_items_publish_change after insert or update or delete on action_items
+  for each row execute function publish_action_item_change();
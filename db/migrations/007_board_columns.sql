@@ -0,0 +1,107 @@
+-- Board columns: each board defines its own ordered columns (picked from a template and
+-- editable by the facilitator) instead of the fixed good / bad / better categories.
+
+create table if not exists board_columns (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  label text not null check (length(trim(label)) > 0),
+  color text not null default 'gray'
+    check (color in ('green', 'red', 'blue', 'yellow', 'purple', 'orange', 'pink', 'gray')),
+  placeholder text,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  constraint board_columns_id_board_id_key unique (id, board_id)
+);
+
+create index if not exists board_columns_board_id_idx on board_columns (board_id, position);
+
+alter table board_columns enable row level security;
+
+create policy "Authenticated users can read board columns" on board_columns
+  for select to authenticated using (true);
+
+create policy "Board owners can create columns" on board_columns
+  for insert to authenticated
+  with check (exists (select 1 from retro_boards b where b.id = board_id and b.created_by = auth.uid()));
+
+create policy "Board owners can update columns" on board_columns
+  for update to authenticated
+  using (exists (select 1 from retro_boards b where b.id = board_id and b.created_by = auth.uid()));
+
+create policy "Board owners can delete columns" on board_columns
+  for delete to authenticated
+  using (exists (select 1 from retro_boards b where b.id = board_id and b.created_by = auth.uid()));
+
+-- Give every existing board the columns it had before, then move items off `category`.
+insert into board_columns (board_id, label, color, placeholder, position)
+select b.id, c.label, c.color, c.placeholder, c.position
+from retro_boards b
+cross join (
+  values
+    ('Good', 'green', 'What went well?', 0),
+    ('Bad', 'red', 'What didn''t go well?', 1),
+    ('Better', 'blue', 'What can be improved?', 2)
+) as c (label, color, placeholder, position)
+where not exists (select 1 from board_columns existing where existing.board_id = b.id);
+
+alter table retro_items add column if not exists column_id uuid;
+
+update retro_items i
+set column_id = c.id
+from board_columns c
+where c.board_id = i.board_id
+  and i.column_id is null
+  and c.label = case i.category when 'good' then 'Good' when 'bad' then 'Bad' else 'Better' end;
+
+alter table retro_items alter column column_id set not null;
+
+-- The composite key keeps an item's column on the item's own board; removing a column removes its items.
+alter table retro_items
+  add constraint retro_items_column_id_fkey foreign key (column_id, board_id)
+  references board_columns (id, board_id) on delete cascade;
+
+create index if not exists retro_items_column_id_idx on retro_items (column_id);
+
+drop view if exists board_items;
+alter table retro_items drop column if exists category;
+
+create view board_items as
+select
+  i.id,
+  i.board_id,
+  i.column_id,
+  i.content,
+  i.created_at,
+  case when masked then null else i.created_by end as created_by,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users
+from retro_items i
+left join users u on u.id = i.created_by
+cross join lateral (
+  select board_hides_authors(i.board_id) and i.created_by is distinct from auth.uid() as masked
+) m;
+
+grant select on board_items to authenticated;
+
+-- Column edits are small and rare, so clients just refetch the list when told.
+create or replace function publish_columns_change() returns trigger as $$
+declare
+  target_board_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    target_board_id := old.board_id;
+  else
+    target_board_id := new.board_id;
+  end if;
+
+  perform realtime.publish(
+    'board:' || target_board_id::text,
+    'board.columns_changed',
+    jsonb_build_object('operation', lower(tg_op))
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists board_columns_publish_change on board_columns;
+create trigger board_columns_publish_change after insert or update or delete on board_columns
+  for each row execute function publish_columns_change();
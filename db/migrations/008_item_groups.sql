@@ -0,0 +1,195 @@
+-- Item groups: near-duplicate cards dragged onto each other during the Group phase become one
+-- named group whose votes are counted together. Groups can be renamed and taken apart again.
+
+create table if not exists item_groups (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid references users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists item_groups_board_id_idx on item_groups (board_id);
+
+alter table retro_items add column if not exists group_id uuid references item_groups(id) on delete set null;
+
+create index if not exists retro_items_group_id_idx on retro_items (group_id) where group_id is not null;
+
+alter table item_groups enable row level security;
+
+-- Everyone on the board may group cards, but only through the functions below, which check
+-- the phase and keep the members in one column.
+create policy "Authenticated users can read item groups" on item_groups
+  for select to authenticated using (true);
+
+create or replace view board_items as
+select
+  i.id,
+  i.board_id,
+  i.column_id,
+  i.content,
+  i.created_at,
+  case when masked then null else i.created_by end as created_by,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  i.group_id
+from retro_items i
+left join users u on u.id = i.created_by
+cross join lateral (
+  select board_hides_authors(i.board_id) and i.created_by is distinct from auth.uid() as masked
+) m;
+
+create or replace function publish_groups_change(target_board_id uuid) returns void as $$
+begin
+  perform realtime.publish(
+    'board:' || target_board_id::text,
+    'board.groups_changed',
+    jsonb_build_object('board_id', target_board_id)
+  );
+end;
+$$ language plpgsql security definer;
+
+create or replace function require_group_phase(target_board_id uuid) returns void as $$
+declare
+  current_phase text;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to group cards';
+  end if;
+
+  select phase into current_phase from retro_boards where id = target_board_id;
+  if current_phase is distinct from 'group' then
+    raise exception 'Cards can only be grouped during the group phase';
+  end if;
+end;
+$$ language plpgsql security definer;
+
+-- Moves `item_ids` into the group of `target_item_id`, creating the group (named after the
+-- target card) if the target isn't grouped yet. Moved cards join the target's column.
+create or replace function group_items(item_ids uuid[], target_item_id uuid) returns uuid as $$
+declare
+  target retro_items%rowtype;
+  target_group_id uuid;
+begin
+  select * into target from retro_items where id = target_item_id;
+  if not found then
+    raise exception 'Card not found';
+  end if;
+
+  perform require_group_phase(target.board_id);
+
+  if exists (select 1 from retro_items where id = any (item_ids) and board_id <> target.board_id) then
+    raise exception 'Cards can only be grouped with cards on the same board';
+  end if;
+
+  target_group_id := target.group_id;
+  if target_group_id is null then
+    insert into item_groups (board_id, name, created_by)
+    values (target.board_id, left(target.content, 80), auth.uid())
+    returning id into target_group_id;
+
+    update retro_items set group_id = target_group_id where id = target.id;
+  end if;
+
+  update retro_items
+  set group_id = target_group_id, column_id = target.column_id
+  where id = any (item_ids) and id <> target.id and group_id is distinct from target_group_id;
+
+  perform publish_groups_change(target.board_id);
+  return target_group_id;
+end;
+$$ language plpgsql security definer;
+
+create or replace function ungroup_items(item_ids uuid[]) returns void as $$
+declare
+  target_board_id uuid;
+begin
+  select board_id into target_board_id from retro_items where id = any (item_ids) limit 1;
+  if target_board_id is null then
+    return;
+  end if;
+
+  perform require_group_phase(target_board_id);
+
+  update retro_items set group_id = null where id = any (item_ids) and board_id = target_board_id;
+
+  perform publish_groups_change(target_board_id);
+end;
+$$ language plpgsql security definer;
+
+create or replace function rename_item_group(group_id uuid, name text) returns void as $$
+declare
+  target_board_id uuid;
+begin
+  select g.board_id into target_board_id from item_groups g where g.id = rename_item_group.group_id;
+  if target_board_id is null then
+    raise exception 'Group not found';
+  end if;
+
+  perform require_group_phase(target_board_id);
+
+  update item_groups g set name = trim(rename_item_group.name) where g.id = rename_item_group.group_id;
+
+  perform publish_groups_change(target_board_id);
+end;
+$$ language plpgsql security definer;
+
+grant execute on function group_items(uuid[], uuid), ungroup_items(uuid[]), rename_item_group(uuid, text)
+  to authenticated;
+
+-- A group needs at least two cards: once ungrouping or a deleted card leaves one behind,
+-- that card is released and the group removed.
+create or replace function dissolve_small_groups() returns trigger as $$
+begin
+  if old.group_id is null then
+    return null;
+  end if;
+
+  if (select count(*) from retro_items where group_id = old.group_id) < 2 then
+    update retro_items set group_id = null where group_id = old.group_id;
+    delete from item_groups where id = old.group_id;
+
+    if tg_op = 'DELETE' then
+      perform publish_groups_change(old.board_id);
+    end if;
+  end if;
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists retro_items_dissolve_groups on retro_items;
+create trigger retro_items_dissolve_groups after update of group_id or delete on retro_items
+  for each row execute function dissolve_small_groups();
+
+-- Votes on grouped cards count towards the group, so the per-card limit applies to the group.
+create or replace function enforce_vote_budget() returns trigger as $$
+declare
+  board retro_boards%rowtype;
+  item_group_id uuid;
+  used_on_board integer;
+  used_on_item integer;
+begin
+  -- Runs after set_board_id_from_item (triggers fire in name order), so board_id is trusted.
+  select * into board from retro_boards where id = new.board_id;
+
+  -- Serialize concurrent votes by the same user on the same board so the counts below hold.
+  perform pg_advisory_xact_lock(hashtext(new.board_id::text || ':' || new.user_id::text));
+
+  select count(*) into used_on_board from votes where board_id = new.board_id and user_id = new.user_id;
+  if used_on_board >= board.vote_budget then
+    raise exception 'You have used all % of your votes on this board', board.vote_budget;
+  end if;
+
+  select group_id into item_group_id from retro_items where id = new.retro_item_id;
+  select count(*) into used_on_item
+  from votes v
+  join retro_items i on i.id = v.retro_item_id
+  where v.user_id = new.user_id
+    and (i.id = new.retro_item_id or (item_group_id is not null and i.group_id = item_group_id));
+  if used_on_item >= board.max_votes_per_item then
+    raise exception 'You can put at most % vote(s) on one card', board.max_votes_per_item;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,118 @@
+-- Board import: recreates a board from the app's JSON export (see src/lib/export.ts) as a new
+-- board owned by the caller. Runs as definer because votes and comments keep their original
+-- authors, which RLS would not let the caller insert.
+
+create or replace function import_board(payload jsonb) returns uuid as $$
+declare
+  source_board jsonb := payload -> 'board';
+  new_board_id uuid;
+  new_id uuid;
+  column_ids jsonb := '{}';
+  group_ids jsonb := '{}';
+  item_ids jsonb := '{}';
+  column_data jsonb;
+  group_data jsonb;
+  item_data jsonb;
+  vote_data jsonb;
+  comment_data jsonb;
+  known_user uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to import a board';
+  end if;
+  if payload ->> 'format' is distinct from 'sprint-retro-board' or payload ->> 'version' is distinct from '1' then
+    raise exception 'Unsupported board export';
+  end if;
+
+  -- Created in the write phase without a vote limit so the phase and budget triggers accept
+  -- the imported rows; the board's real settings are applied at the end.
+  insert into retro_boards (name, sprint_label, starts_on, ends_on, anonymity, vote_budget, max_votes_per_item, created_by)
+  values (
+    source_board ->> 'name',
+    source_board ->> 'sprint_label',
+    (source_board ->> 'starts_on')::date,
+    (source_board ->> 'ends_on')::date,
+    coalesce(source_board ->> 'anonymity', 'none'),
+    2147483647,
+    2147483647,
+    auth.uid()
+  )
+  returning id into new_board_id;
+
+  for column_data in select * from jsonb_array_elements(payload -> 'columns') loop
+    insert into board_columns (board_id, label, color, placeholder, position)
+    values (
+      new_board_id,
+      column_data ->> 'label',
+      coalesce(column_data ->> 'color', 'gray'),
+      column_data ->> 'placeholder',
+      coalesce((column_data ->> 'position')::integer, 0)
+    )
+    returning id into new_id;
+    column_ids := column_ids || jsonb_build_object(column_data ->> 'id', new_id);
+  end loop;
+
+  for group_data in select * from jsonb_array_elements(coalesce(payload -> 'groups', '[]')) loop
+    insert into item_groups (board_id, name, created_by)
+    values (new_board_id, group_data ->> 'name', auth.uid())
+    returning id into new_id;
+    group_ids := group_ids || jsonb_build_object(group_data ->> 'id', new_id);
+  end loop;
+
+  -- Cards, votes and comments keep their author when that user still exists; cards and
+  -- comments by unknown (or anonymized) authors are attributed to the importer, while votes
+  -- by unknown voters can't be recreated and are left out.
+  for item_data in select * from jsonb_array_elements(payload -> 'items') loop
+    select id into known_user from users where id = (item_data ->> 'created_by')::uuid;
+
+    insert into retro_items (board_id, column_id, group_id, content, created_by, created_at)
+    values (
+      new_board_id,
+      (column_ids ->> (item_data ->> 'column_id'))::uuid,
+      (group_ids ->> (item_data ->> 'group_id'))::uuid,
+      item_data ->> 'content',
+      coalesce(known_user, auth.uid()),
+      coalesce((item_data ->> 'created_at')::timestamptz, now())
+    )
+    returning id into new_id;
+    item_ids := item_ids || jsonb_build_object(item_data ->> 'id', new_id);
+  end loop;
+
+  -- Votes are only accepted in the vote phase; comments are too.
+  update retro_boards set phase = 'vote' where id = new_board_id;
+
+  for item_data in select * from jsonb_array_elements(payload -> 'items') loop
+    new_id := (item_ids ->> (item_data ->> 'id'))::uuid;
+
+    for vote_data in select * from jsonb_array_elements(coalesce(item_data -> 'votes', '[]')) loop
+      select id into known_user from users where id = (vote_data ->> 'user_id')::uuid;
+      if known_user is not null then
+        insert into votes (board_id, retro_item_id, user_id) values (new_board_id, new_id, known_user);
+      end if;
+    end loop;
+
+    for comment_data in select * from jsonb_array_elements(coalesce(item_data -> 'comments', '[]')) loop
+      select id into known_user from users where id = (comment_data ->> 'user_id')::uuid;
+      insert into comments (board_id, retro_item_id, user_id, content, created_at)
+      values (
+        new_board_id,
+        new_id,
+        coalesce(known_user, auth.uid()),
+        comment_data ->> 'content',
+        coalesce((comment_data ->> 'created_at')::timestamptz, now())
+      );
+    end loop;
+  end loop;
+
+  update retro_boards
+  set
+    phase = coalesce(source_board ->> 'phase', 'done'),
+    vote_budget = coalesce((source_board ->> 'vote_budget')::integer, 5),
+    max_votes_per_item = coalesce((source_board ->> 'max_votes_per_item')::integer, 1)
+  where id = new_board_id;
+
+  return new_board_id;
+end;
+$$ language plpgsql security definer;
+
+grant execute on function import_board(jsonb) to authenticated;
@@ -0,0 +1,166 @@
+-- Editing: authors can change the text of their items and comments in place. Every edit
+-- keeps the text it replaced as a revision and marks the row with `edited_at`.
+
+alter table retro_items add column if not exists edited_at timestamptz;
+alter table comments add column if not exists edited_at timestamptz;
+
+create table if not exists retro_item_revisions (
+  id uuid primary key default gen_random_uuid(),
+  retro_item_id uuid not null references retro_items(id) on delete cascade,
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  content text not null,
+  -- When this text was written: the item's creation or its previous edit
+  written_at timestamptz not null,
+  replaced_at timestamptz not null default now()
+);
+
+create table if not exists comment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references comments(id) on delete cascade,
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  content text not null,
+  written_at timestamptz not null,
+  replaced_at timestamptz not null default now()
+);
+
+create index if not exists retro_item_revisions_item_idx on retro_item_revisions (retro_item_id, replaced_at);
+create index if not exists comment_revisions_comment_idx on comment_revisions (comment_id, replaced_at);
+
+alter table retro_item_revisions enable row level security;
+alter table comment_revisions enable row level security;
+
+-- Revisions carry no author, so they are as readable as the text itself. They are only
+-- written by the trigger below.
+create policy "Authenticated users can read item revisions" on retro_item_revisions
+  for select to authenticated using (true);
+
+create policy "Authenticated users can read comment revisions" on comment_revisions
+  for select to authenticated using (true);
+
+-- Only the author may edit, and only the text; everything else about a row is changed by
+-- the security definer functions (grouping, columns) or not at all.
+create policy "Authors can update their items" on retro_items
+  for update to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+
+create policy "Authors can update their comments" on comments
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+revoke update on retro_items, comments from authenticated;
+grant update (content) on retro_items, comments to authenticated;
+
+create or replace function record_revision() returns trigger as $$
+begin
+  if new.content is not distinct from old.content then
+    return new;
+  end if;
+
+  if length(trim(new.content)) = 0 then
+    raise exception 'Content cannot be empty';
+  end if;
+
+  if tg_table_name = 'retro_items' then
+    insert into retro_item_revisions (retro_item_id, board_id, content, written_at)
+    values (old.id, old.board_id, old.content, coalesce(old.edited_at, old.created_at));
+  else
+    insert into comment_revisions (comment_id, board_id, content, written_at)
+    values (old.id, old.board_id, old.content, coalesce(old.edited_at, old.created_at));
+  end if;
+
+  new.edited_at := now();
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists retro_items_record_revision on retro_items;
+create trigger retro_items_record_revision before update of content on retro_items
+  for each row execute function record_revision();
+
+drop trigger if exists comments_record_revision on comments;
+create trigger comments_record_revision before update of content on comments
+  for each row execute function record_revision();
+
+-- A finished board stays read-only.
+drop trigger if exists retro_items_enforce_phase_update on retro_items;
+create trigger retro_items_enforce_phase_update before update of content on retro_items
+  for each row execute function enforce_board_phase('write', 'group', 'vote', 'discuss');
+
+drop trigger if exists comments_enforce_phase_update on comments;
+create trigger comments_enforce_phase_update before update of content on comments
+  for each row execute function enforce_board_phase('write', 'group', 'vote', 'discuss');
+
+create or replace view board_items as
+select
+  i.id,
+  i.board_id,
+  i.column_id,
+  i.content,
+  i.created_at,
+  case when masked then null else i.created_by end as created_by,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  i.group_id,
+  i.edited_at
+from retro_items i
+left join users u on u.id = i.created_by
+cross join lateral (
+  select board_hides_authors(i.board_id) and i.created_by is distinct from auth.uid() as masked
+) m;
+
+create or replace view board_comments as
+select
+  c.id,
+  c.board_id,
+  c.retro_item_id,
+  c.content,
+  c.created_at,
+  case when masked then null else c.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  c.edited_at
+from comments c
+left join users u on u.id = c.user_id
+cross join lateral (
+  select board_hides_authors(c.board_id) and c.user_id is distinct from auth.uid() as masked
+) m;
+
+-- Edits are published as `item.updated` / `comment.updated`.
+create or replace function publish_board_change() returns trigger as $$
+declare
+  record jsonb;
+  author_nickname text;
+  masked boolean;
+begin
+  if tg_op = 'DELETE' then
+    record := to_jsonb(old);
+  else
+    record := to_jsonb(new);
+  end if;
+
+  if tg_argv[0] = 'vote' then
+    masked := board_hides_voters((record ->> 'board_id')::uuid);
+  else
+    masked := board_hides_authors((record ->> 'board_id')::uuid);
+  end if;
+
+  if coalesce(masked, false) then
+    record := record || jsonb_build_object(tg_argv[1], null, 'users', null);
+  else
+    select nickname into author_nickname from users where id = (record ->> tg_argv[1])::uuid;
+    record := record || jsonb_build_object('users', jsonb_build_object('nickname', author_nickname));
+  end if;
+
+  perform realtime.publish(
+    'board:' || (record ->> 'board_id'),
+    tg_argv[0] || case tg_op when 'DELETE' then '.deleted' when 'UPDATE' then '.updated' else '.created' end,
+    record
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists retro_items_publish_update on retro_items;
+create trigger retro_items_publish_update after update of content on retro_items
+  for each row execute function publish_board_change('item', 'created_by');
+
+drop trigger if exists comments_publish_update on comments;
+create trigger comments_publish_update after update of content on comments
+  for each row execute function publish_board_change('comment', 'user_id');
@@ -0,0 +1,56 @@
+-- Present mode: the facilitator walks everyone through the top-voted cards one topic at a
+-- time with a shared countdown. The current topic lives on the board, so it reaches every
+-- participant through the existing `board.updated` event; participants vote to extend the
+-- timer or move on.
+
+alter table retro_boards add column if not exists present_item_id uuid references retro_items(id) on delete set null;
+alter table retro_boards add column if not exists present_ends_at timestamptz;
+alter table retro_boards add column if not exists topic_minutes integer not null default 5
+  check (topic_minutes between 1 and 60);
+
+create table if not exists topic_votes (
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  -- The first card of the topic; a group is one topic
+  retro_item_id uuid not null references retro_items(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  choice text not null check (choice in ('extend', 'move_on')),
+  created_at timestamptz not null default now(),
+  primary key (board_id, retro_item_id, user_id)
+);
+
+alter table topic_votes enable row level security;
+
+create policy "Authenticated users can read topic votes" on topic_votes
+  for select to authenticated using (true);
+
+create policy "Users can cast their own topic votes" on topic_votes
+  for insert to authenticated with check (user_id = auth.uid());
+
+create policy "Users can change their own topic votes" on topic_votes
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users can withdraw their own topic votes" on topic_votes
+  for delete to authenticated using (user_id = auth.uid());
+
+create or replace function publish_topic_vote_change() returns trigger as $$
+declare
+  target_board_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    target_board_id := old.board_id;
+  else
+    target_board_id := new.board_id;
+  end if;
+
+  perform realtime.publish(
+    'board:' || target_board_id::text,
+    'topic_vote.changed',
+    jsonb_build_object('operation', lower(tg_op))
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists topic_votes_publish_change on topic_votes;
+create trigger topic_votes_publish_change after insert or update or delete on topic_votes
+  for each row execute function publish_topic_vote_change();
@@ -0,0 +1,32 @@
+-- History and trends: per-board totals for the history view. Counts only, so they can be
+-- shown for every board without revealing who wrote or voted on what.
+
+create or replace view board_stats as
+select
+  b.id as board_id,
+  (select count(*) from retro_items i where i.board_id = b.id) as item_count,
+  (select count(*) from votes v where v.board_id = b.id) as vote_count,
+  (select count(*) from comments c where c.board_id = b.id) as comment_count,
+  (
+    select count(distinct participant)
+    from (
+      select created_by as participant from retro_items where board_id = b.id
+      union
+      select user_id from votes where board_id = b.id
+      union
+      select user_id from comments where board_id = b.id
+    ) participants
+  ) as participant_count
+from retro_boards b;
+
+create or replace view board_column_stats as
+select
+  c.board_id,
+  c.id as column_id,
+  c.label,
+  c.color,
+  c.position,
+  (select count(*) from retro_items i where i.column_id = c.id) as item_count
+from board_columns c;
+
+grant select on board_stats, board_column_stats to authenticated;
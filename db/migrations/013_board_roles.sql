@@ -0,0 +1,472 @@
+-- Board roles: every board has members, each a facilitator, participant or observer.
+-- Facilitators manage the board and can delete or hide any card, participants write and
+-- vote, observers only read. People join through invite links that grant a chosen role.
+-- Non-members can no longer see a board at all.
+
+create table if not exists board_members (
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  role text not null check (role in ('facilitator', 'participant', 'observer')),
+  created_at timestamptz not null default now(),
+  primary key (board_id, user_id)
+);
+
+create index if not exists board_members_user_id_idx on board_members (user_id);
+
+-- Creators run their boards; everyone who already took part keeps access as a participant.
+insert into board_members (board_id, user_id, role)
+select id, created_by, 'facilitator' from retro_boards
+on conflict (board_id, user_id) do nothing;
+
+insert into board_members (board_id, user_id, role)
+select distinct board_id, created_by, 'participant' from retro_items
+union
+select distinct board_id, user_id, 'participant' from votes
+union
+select distinct board_id, user_id, 'participant' from comments
+on conflict (board_id, user_id) do nothing;
+
+-- The caller's role on a board, or null for non-members.
+create or replace function board_role(target_board_id uuid) returns text as $$
+  select role from board_members where board_id = target_board_id and user_id = auth.uid();
+$$ language sql stable security definer;
+
+create or replace function is_board_member(target_board_id uuid) returns boolean as $$
+  select board_role(target_board_id) is not null;
+$$ language sql stable security definer;
+
+create or replace function is_board_facilitator(target_board_id uuid) returns boolean as $$
+  select coalesce(board_role(target_board_id) = 'facilitator', false);
+$$ language sql stable security definer;
+
+create or replace function can_write_board(target_board_id uuid) returns boolean as $$
+  select coalesce(board_role(target_board_id) in ('facilitator', 'participant'), false);
+$$ language sql stable security definer;
+
+alter table board_members enable row level security;
+
+create policy "Members can see who else is on their boards" on board_members
+  for select to authenticated using (is_board_member(board_id));
+
+create policy "Facilitators can add members" on board_members
+  for insert to authenticated with check (is_board_facilitator(board_id));
+
+create policy "Facilitators can change roles" on board_members
+  for update to authenticated using (is_board_facilitator(board_id)) with check (is_board_facilitator(board_id));
+
+create policy "Facilitators can remove members and members can leave" on board_members
+  for delete to authenticated using (is_board_facilitator(board_id) or user_id = auth.uid());
+
+-- Every board keeps at least one facilitator. Rows removed along with their board are let through.
+create or replace function keep_a_facilitator() returns trigger as $$
+begin
+  if old.role = 'facilitator'
+    and (tg_op = 'DELETE' or new.role <> 'facilitator')
+    and exists (select 1 from retro_boards where id = old.board_id)
+    and not exists (
+      select 1 from board_members
+      where board_id = old.board_id and role = 'facilitator' and user_id <> old.user_id
+    )
+  then
+    raise exception 'A board needs at least one facilitator';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists board_members_keep_a_facilitator on board_members;
+create trigger board_members_keep_a_facilitator before update or delete on board_members
+  for each row execute function keep_a_facilitator();
+
+create or replace function add_board_creator() returns trigger as $$
+begin
+  insert into board_members (board_id, user_id, role) values (new.id, new.created_by, 'facilitator')
+  on conflict (board_id, user_id) do nothing;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists retro_boards_add_creator on retro_boards;
+create trigger retro_boards_add_creator after insert on retro_boards
+  for each row execute function add_board_creator();
+
+create or replace function publish_members_change() returns trigger as $$
+declare
+  target_board_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    target_board_id := old.board_id;
+  else
+    target_board_id := new.board_id;
+  end if;
+
+  perform realtime.publish(
+    'board:' || target_board_id::text,
+    'board.members_changed',
+    jsonb_build_object('operation', lower(tg_op))
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists board_members_publish_change on board_members;
+create trigger board_members_publish_change after insert or update or delete on board_members
+  for each row execute function publish_members_change();
+
+-- Invite links. The token is the secret in the link; revoking an invite deletes it.
+create table if not exists board_invites (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  role text not null check (role in ('facilitator', 'participant', 'observer')),
+  token uuid not null unique default gen_random_uuid(),
+  created_by uuid not null references users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists board_invites_board_id_idx on board_invites (board_id);
+
+alter table board_invites enable row level security;
+
+create policy "Facilitators can see invites" on board_invites
+  for select to authenticated using (is_board_facilitator(board_id));
+
+create policy "Facilitators can create invites" on board_invites
+  for insert to authenticated with check (is_board_facilitator(board_id) and created_by = auth.uid());
+
+create policy "Facilitators can revoke invites" on board_invites
+  for delete to authenticated using (is_board_facilitator(board_id));
+
+-- Joins the board behind an invite link. Existing members keep their current role.
+create or replace function accept_invite(invite_token uuid) returns uuid as $$
+declare
+  invite board_invites%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to join a board';
+  end if;
+
+  select * into invite from board_invites where token = invite_token;
+  if not found then
+    raise exception 'This invite link is invalid or has been revoked';
+  end if;
+
+  insert into board_members (board_id, user_id, role) values (invite.board_id, auth.uid(), invite.role)
+  on conflict (board_id, user_id) do nothing;
+
+  return invite.board_id;
+end;
+$$ language plpgsql security definer;
+
+-- Moderation: a hidden card is only shown to its author and the facilitators.
+alter table retro_items add column if not exists hidden_at timestamptz;
+
+create or replace function can_see_item(target_item_id uuid) returns boolean as $$
+  select exists (
+    select 1 from retro_items i
+    where i.id = target_item_id
+      and is_board_member(i.board_id)
+      and (i.hidden_at is null or i.created_by = auth.uid() or is_board_facilitator(i.board_id))
+  );
+$$ language sql stable security definer;
+
+create or replace function set_item_hidden(item_id uuid, hidden boolean) returns void as $$
+declare
+  target_board_id uuid;
+begin
+  select board_id into target_board_id from retro_items where id = item_id;
+  if target_board_id is null then
+    raise exception 'Card not found';
+  end if;
+  if not is_board_facilitator(target_board_id) then
+    raise exception 'Only facilitators can hide cards';
+  end if;
+
+  update retro_items
+  set hidden_at = case when hidden then coalesce(hidden_at, now()) end
+  where id = item_id;
+
+  perform realtime.publish(
+    'board:' || target_board_id::text,
+    'board.items_moderated',
+    jsonb_build_object('item_id', item_id, 'hidden', hidden)
+  );
+end;
+$$ language plpgsql security definer;
+
+-- Boards and their settings.
+drop policy if exists "Authenticated users can read boards" on retro_boards;
+drop policy if exists "Owners can update their boards" on retro_boards;
+drop policy if exists "Owners can delete their boards" on retro_boards;
+
+-- The creator check covers the insert's own returning row, before the membership row exists.
+create policy "Members can read their boards" on retro_boards
+  for select to authenticated using (is_board_member(id) or created_by = auth.uid());
+
+create policy "Facilitators can update their boards" on retro_boards
+  for update to authenticated using (is_board_facilitator(id));
+
+create policy "Facilitators can delete their boards" on retro_boards
+  for delete to authenticated using (is_board_facilitator(id));
+
+drop policy if exists "Authenticated users can read board columns" on board_columns;
+drop policy if exists "Board owners can create columns" on board_columns;
+drop policy if exists "Board owners can update columns" on board_columns;
+drop policy if exists "Board owners can delete columns" on board_columns;
+
+create policy "Members can read board columns" on board_columns
+  for select to authenticated using (is_board_member(board_id));
+
+create policy "Facilitators can create columns" on board_columns
+  for insert to authenticated with check (is_board_facilitator(board_id));
+
+create policy "Facilitators can update columns" on board_columns
+  for update to authenticated using (is_board_facilitator(board_id));
+
+create policy "Facilitators can delete columns" on board_columns
+  for delete to authenticated using (is_board_facilitator(board_id));
+
+-- Items, votes and comments. The insert and delete policies predate the migrations, so they
+-- are dropped by command rather than by name.
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('retro_items', 'votes', 'comments') and cmd in ('INSERT', 'DELETE')
+  loop
+    execute format('drop policy %I on %I', policy.policyname, policy.tablename);
+  end loop;
+end $$;
+
+drop policy if exists "Authors can update their items" on retro_items;
+drop policy if exists "Authors can update their comments" on comments;
+
+create policy "Participants can add items" on retro_items
+  for insert to authenticated with check (created_by = auth.uid() and can_write_board(board_id));
+
+create policy "Authors and facilitators can delete items" on retro_items
+  for delete to authenticated
+  using ((created_by = auth.uid() and can_write_board(board_id)) or is_board_facilitator(board_id));
+
+create policy "Authors can update their items" on retro_items
+  for update to authenticated
+  using (created_by = auth.uid() and can_write_board(board_id))
+  with check (created_by = auth.uid());
+
+create policy "Participants can vote" on votes
+  for insert to authenticated with check (user_id = auth.uid() and can_write_board(board_id));
+
+create policy "Voters can take back their votes" on votes
+  for delete to authenticated using (user_id = auth.uid() and can_write_board(board_id));
+
+create policy "Participants can comment" on comments
+  for insert to authenticated with check (user_id = auth.uid() and can_write_board(board_id));
+
+create policy "Authors and facilitators can delete comments" on comments
+  for delete to authenticated
+  using ((user_id = auth.uid() and can_write_board(board_id)) or is_board_facilitator(board_id));
+
+create policy "Authors can update their comments" on comments
+  for update to authenticated
+  using (user_id = auth.uid() and can_write_board(board_id))
+  with check (user_id = auth.uid());
+
+-- Grouping needs write access as well as the group phase.
+create or replace function require_group_phase(target_board_id uuid) returns void as $$
+declare
+  current_phase text;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to group cards';
+  end if;
+
+  if not can_write_board(target_board_id) then
+    raise exception 'Observers cannot group cards';
+  end if;
+
+  select phase into current_phase from retro_boards where id = target_board_id;
+  if current_phase is distinct from 'group' then
+    raise exception 'Cards can only be grouped during the group phase';
+  end if;
+end;
+$$ language plpgsql security definer;
+
+drop policy if exists "Authenticated users can read item groups" on item_groups;
+create policy "Members can read item groups" on item_groups
+  for select to authenticated using (is_board_member(board_id));
+
+-- Action items.
+drop policy if exists "Authenticated users can read action items" on action_items;
+drop policy if exists "Users can create action items" on action_items;
+drop policy if exists "Authenticated users can update action items" on action_items;
+drop policy if exists "Creators can delete their action items" on action_items;
+
+create policy "Members can read action items" on action_items
+  for select to authenticated using (is_board_member(board_id));
+
+create policy "Participants can create action items" on action_items
+  for insert to authenticated with check (created_by = auth.uid() and can_write_board(board_id));
+
+-- Anyone taking part can reassign, reschedule or tick off an action item.
+create policy "Participants can update action items" on action_items
+  for update to authenticated using (can_write_board(board_id));
+
+create policy "Creators and facilitators can delete action items" on action_items
+  for delete to authenticated
+  using ((created_by = auth.uid() and can_write_board(board_id)) or is_board_facilitator(board_id));
+
+-- Present mode votes.
+drop policy if exists "Authenticated users can read topic votes" on topic_votes;
+drop policy if exists "Users can cast their own topic votes" on topic_votes;
+drop policy if exists "Users can change their own topic votes" on topic_votes;
+drop policy if exists "Users can withdraw their own topic votes" on topic_votes;
+
+create policy "Members can read topic votes" on topic_votes
+  for select to authenticated using (is_board_member(board_id));
+
+create policy "Participants can cast their own topic votes" on topic_votes
+  for insert to authenticated with check (user_id = auth.uid() and can_write_board(board_id));
+
+create policy "Participants can change their own topic votes" on topic_votes
+  for update to authenticated
+  using (user_id = auth.uid() and can_write_board(board_id))
+  with check (user_id = auth.uid());
+
+create policy "Users can withdraw their own topic votes" on topic_votes
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Edit history.
+drop policy if exists "Authenticated users can read item revisions" on retro_item_revisions;
+drop policy if exists "Authenticated users can read comment revisions" on comment_revisions;
+
+create policy "Members can read item revisions" on retro_item_revisions
+  for select to authenticated using (is_board_member(board_id));
+
+create policy "Members can read comment revisions" on comment_revisions
+  for select to authenticated using (is_board_member(board_id));
+
+-- The read views run as their owner, so they check membership and moderation themselves.
+create or replace view board_items as
+select
+  i.id,
+  i.board_id,
+  i.column_id,
+  i.content,
+  i.created_at,
+  case when masked then null else i.created_by end as created_by,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  i.group_id,
+  i.edited_at,
+  i.hidden_at
+from retro_items i
+left join users u on u.id = i.created_by
+cross join lateral (
+  select board_hides_authors(i.board_id) and i.created_by is distinct from auth.uid() as masked
+) m
+where can_see_item(i.id);
+
+create or replace view board_votes as
+select
+  v.id,
+  v.board_id,
+  v.retro_item_id,
+  case when masked then null else v.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users
+from votes v
+left join users u on u.id = v.user_id
+cross join lateral (
+  select board_hides_voters(v.board_id) and v.user_id is distinct from auth.uid() as masked
+) m
+where can_see_item(v.retro_item_id);
+
+create or replace view board_comments as
+select
+  c.id,
+  c.board_id,
+  c.retro_item_id,
+  c.content,
+  c.created_at,
+  case when masked then null else c.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  c.edited_at
+from comments c
+left join users u on u.id = c.user_id
+cross join lateral (
+  select board_hides_authors(c.board_id) and c.user_id is distinct from auth.uid() as masked
+) m
+where can_see_item(c.retro_item_id);
+
+create or replace view board_stats as
+select
+  b.id as board_id,
+  (select count(*) from retro_items i where i.board_id = b.id) as item_count,
+  (select count(*) from votes v where v.board_id = b.id) as vote_count,
+  (select count(*) from comments c where c.board_id = b.id) as comment_count,
+  (
+    select count(distinct participant)
+    from (
+      select created_by as participant from retro_items where board_id = b.id
+      union
+      select user_id from votes where board_id = b.id
+      union
+      select user_id from comments where board_id = b.id
+    ) participants
+  ) as participant_count
+from retro_boards b
+where is_board_member(b.id);
+
+create or replace view board_column_stats as
+select
+  c.board_id,
+  c.id as column_id,
+  c.label,
+  c.color,
+  c.position,
+  (select count(*) from retro_items i where i.column_id = c.id) as item_count
+from board_columns c
+where is_board_member(c.board_id);
+
+-- Hidden cards are not broadcast; clients reload on `board.items_moderated` instead.
+create or replace function publish_board_change() returns trigger as $$
+declare
+  record jsonb;
+  author_nickname text;
+  masked boolean;
+begin
+  if tg_op = 'DELETE' then
+    record := to_jsonb(old);
+  else
+    record := to_jsonb(new);
+  end if;
+
+  if tg_argv[0] = 'item' and record ->> 'hidden_at' is not null then
+    return null;
+  end if;
+
+  if tg_argv[0] = 'vote' then
+    masked := board_hides_voters((record ->> 'board_id')::uuid);
+  else
+    masked := board_hides_authors((record ->> 'board_id')::uuid);
+  end if;
+
+  if coalesce(masked, false) then
+    record := record || jsonb_build_object(tg_argv[1], null, 'users', null);
+  else
+    select nickname into author_nickname from users where id = (record ->> tg_argv[1])::uuid;
+    record := record || jsonb_build_object('users', jsonb_build_object('nickname', author_nickname));
+  end if;
+
+  perform realtime.publish(
+    'board:' || (record ->> 'board_id'),
+    tg_argv[0] || case tg_op when 'DELETE' then '.deleted' when 'UPDATE' then '.updated' else '.created' end,
+    record
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,177 @@
+-- Threads and reactions: comments can reply to another comment on the same card, and
+-- cards and comments can collect emoji reactions. Reactions are kept apart from votes, so
+-- they never affect ranking, and whoever reacted is hidden along with the voters on
+-- anonymous boards.
+
+alter table comments add column if not exists parent_id uuid references comments(id) on delete cascade;
+
+create index if not exists comments_parent_id_idx on comments (parent_id);
+
+-- Threads are one level deep: a reply to a reply joins the thread of the comment it answers.
+create or replace function set_comment_thread() returns trigger as $$
+declare
+  parent comments%rowtype;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select * into parent from comments where id = new.parent_id;
+  if not found or parent.retro_item_id <> new.retro_item_id then
+    raise exception 'Replies must be on the same card as the comment they answer';
+  end if;
+
+  new.parent_id := coalesce(parent.parent_id, parent.id);
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists comments_set_thread on comments;
+create trigger comments_set_thread before insert on comments
+  for each row execute function set_comment_thread();
+
+create table if not exists reactions (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  -- The card reacted to, or the card of the comment reacted to
+  retro_item_id uuid not null references retro_items(id) on delete cascade,
+  comment_id uuid references comments(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  -- Keep in sync with REACTION_EMOJIS in src/lib/reactions.ts
+  emoji text not null check (emoji in ('👍', '❤️', '😂', '🎉', '🤔', '👀')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reactions_board_id_idx on reactions (board_id);
+create unique index if not exists reactions_item_once_idx on reactions (retro_item_id, user_id, emoji)
+  where comment_id is null;
+create unique index if not exists reactions_comment_once_idx on reactions (comment_id, user_id, emoji)
+  where comment_id is not null;
+
+-- A comment reaction must name the comment's own card; the board always comes from the card.
+create or replace function set_reaction_target() returns trigger as $$
+declare
+  comment_item_id uuid;
+begin
+  if new.comment_id is not null then
+    select retro_item_id into comment_item_id from comments where id = new.comment_id;
+    if comment_item_id is distinct from new.retro_item_id then
+      raise exception 'Comment % is not on retro item %', new.comment_id, new.retro_item_id;
+    end if;
+  end if;
+
+  select board_id into new.board_id from retro_items where id = new.retro_item_id;
+  if new.board_id is null then
+    raise exception 'Retro item % does not exist', new.retro_item_id;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists reactions_set_target on reactions;
+create trigger reactions_set_target before insert on reactions
+  for each row execute function set_reaction_target();
+
+drop trigger if exists reactions_enforce_phase on reactions;
+create trigger reactions_enforce_phase before insert or delete on reactions
+  for each row execute function enforce_board_phase('write', 'group', 'vote', 'discuss');
+
+alter table reactions enable row level security;
+
+-- As with votes, other people's reactions are read through the board_reactions view.
+create policy "Users can read their own reactions" on reactions
+  for select to authenticated using (user_id = auth.uid());
+
+create policy "Participants can react" on reactions
+  for insert to authenticated with check (user_id = auth.uid() and can_write_board(board_id));
+
+create policy "Users can take back their reactions" on reactions
+  for delete to authenticated using (user_id = auth.uid() and can_write_board(board_id));
+
+create or replace view board_reactions as
+select
+  r.id,
+  r.board_id,
+  r.retro_item_id,
+  r.comment_id,
+  case when masked then null else r.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  r.emoji,
+  r.created_at
+from reactions r
+left join users u on u.id = r.user_id
+cross join lateral (
+  select board_hides_voters(r.board_id) and r.user_id is distinct from auth.uid() as masked
+) m
+where can_see_item(r.retro_item_id);
+
+grant select on board_reactions to authenticated;
+
+create or replace view board_comments as
+select
+  c.id,
+  c.board_id,
+  c.retro_item_id,
+  c.content,
+  c.created_at,
+  case when masked then null else c.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  c.edited_at,
+  c.parent_id
+from comments c
+left join users u on u.id = c.user_id
+cross join lateral (
+  select board_hides_authors(c.board_id) and c.user_id is distinct from auth.uid() as masked
+) m
+where can_see_item(c.retro_item_id);
+
+-- Reactions are masked like votes. Nothing about a hidden card is broadcast, including the
+-- votes, comments and reactions on it.
+create or replace function publish_board_change() returns trigger as $$
+declare
+  record jsonb;
+  author_nickname text;
+  masked boolean;
+begin
+  if tg_op = 'DELETE' then
+    record := to_jsonb(old);
+  else
+    record := to_jsonb(new);
+  end if;
+
+  if tg_argv[0] = 'item' then
+    if record ->> 'hidden_at' is not null then
+      return null;
+    end if;
+  elsif exists (
+    select 1 from retro_items where id = (record ->> 'retro_item_id')::uuid and hidden_at is not null
+  ) then
+    return null;
+  end if;
+
+  if tg_argv[0] in ('vote', 'reaction') then
+    masked := board_hides_voters((record ->> 'board_id')::uuid);
+  else
+    masked := board_hides_authors((record ->> 'board_id')::uuid);
+  end if;
+
+  if coalesce(masked, false) then
+    record := record || jsonb_build_object(tg_argv[1], null, 'users', null);
+  else
+    select nickname into author_nickname from users where id = (record ->> tg_argv[1])::uuid;
+    record := record || jsonb_build_object('users', jsonb_build_object('nickname', author_nickname));
+  end if;
+
+  perform realtime.publish(
+    'board:' || (record ->> 'board_id'),
+    tg_argv[0] || case tg_op when 'DELETE' then '.deleted' when 'UPDATE' then '.updated' else '.created' end,
+    record
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists reactions_publish_change on reactions;
+create trigger reactions_publish_change after insert or delete on reactions
+  for each row execute function publish_board_change('reaction', 'user_id');
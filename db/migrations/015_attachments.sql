@@ -0,0 +1,84 @@
+-- Image attachments on cards. The files themselves live in the `retro-attachments` storage
+-- bucket, which has to be created as a public bucket in InsForge storage; this table records
+-- which card each file belongs to. Object keys include a random UUID, so a file's URL can't
+-- be guessed, but anyone holding the URL can open it.
+
+create table if not exists attachments (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  retro_item_id uuid not null references retro_items(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  storage_key text not null unique,
+  url text not null,
+  file_name text not null,
+  -- Keep in sync with IMAGE_TYPES and MAX_ATTACHMENT_BYTES in src/lib/attachments.ts
+  mime_type text not null check (mime_type in ('image/png', 'image/jpeg', 'image/gif', 'image/webp')),
+  size integer not null check (size > 0 and size <= 5242880),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attachments_board_id_idx on attachments (board_id);
+create index if not exists attachments_retro_item_id_idx on attachments (retro_item_id);
+
+-- The board always comes from the card, and a card holds at most MAX_ATTACHMENTS_PER_ITEM images.
+create or replace function set_attachment_board() returns trigger as $$
+begin
+  select board_id into new.board_id from retro_items where id = new.retro_item_id;
+  if new.board_id is null then
+    raise exception 'Retro item % does not exist', new.retro_item_id;
+  end if;
+
+  if (select count(*) from attachments where retro_item_id = new.retro_item_id) >= 4 then
+    raise exception 'A card can have at most 4 images';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists attachments_set_board on attachments;
+create trigger attachments_set_board before insert on attachments
+  for each row execute function set_attachment_board();
+
+drop trigger if exists attachments_enforce_phase on attachments;
+create trigger attachments_enforce_phase before insert or delete on attachments
+  for each row execute function enforce_board_phase('write', 'group', 'vote', 'discuss');
+
+alter table attachments enable row level security;
+
+-- Other people's attachments are read through the board_attachments view.
+create policy "Users can read their own attachments" on attachments
+  for select to authenticated using (user_id = auth.uid());
+
+create policy "Participants can attach images" on attachments
+  for insert to authenticated with check (user_id = auth.uid() and can_write_board(board_id));
+
+create policy "Uploaders and facilitators can remove attachments" on attachments
+  for delete to authenticated
+  using ((user_id = auth.uid() and can_write_board(board_id)) or is_board_facilitator(board_id));
+
+-- Who attached an image is masked like the author of a card.
+create or replace view board_attachments as
+select
+  a.id,
+  a.board_id,
+  a.retro_item_id,
+  case when masked then null else a.user_id end as user_id,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  a.storage_key,
+  a.url,
+  a.file_name,
+  a.mime_type,
+  a.size,
+  a.created_at
+from attachments a
+left join users u on u.id = a.user_id
+cross join lateral (
+  select board_hides_authors(a.board_id) and a.user_id is distinct from auth.uid() as masked
+) m
+where can_see_item(a.retro_item_id);
+
+grant select on board_attachments to authenticated;
+
+drop trigger if exists attachments_publish_change on attachments;
+create trigger attachments_publish_change after insert or delete on attachments
+  for each row execute function publish_board_change('attachment', 'user_id');
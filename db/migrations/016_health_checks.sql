@@ -0,0 +1,141 @@
+-- Team health check: a short survey on each board where everyone rates a few metrics (pace,
+-- fun, codebase health, ...) from 1 to 5. Answers are anonymous: people can only read their
+-- own, everyone else gets per-metric totals from board_health_results, and those stay empty
+-- until enough people have answered that no single answer can be picked out.
+
+create table if not exists health_metrics (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  label text not null check (length(trim(label)) > 0),
+  description text,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists health_metrics_board_id_idx on health_metrics (board_id, position);
+
+alter table health_metrics enable row level security;
+
+create policy "Members can read health metrics" on health_metrics
+  for select to authenticated using (is_board_member(board_id));
+
+create policy "Facilitators can create health metrics" on health_metrics
+  for insert to authenticated with check (is_board_facilitator(board_id));
+
+create policy "Facilitators can update health metrics" on health_metrics
+  for update to authenticated using (is_board_facilitator(board_id));
+
+create policy "Facilitators can delete health metrics" on health_metrics
+  for delete to authenticated using (is_board_facilitator(board_id));
+
+create table if not exists health_responses (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references retro_boards(id) on delete cascade,
+  metric_id uuid not null references health_metrics(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  score smallint not null check (score between 1 and 5),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- One answer per person and metric; answering again replaces it
+  constraint health_responses_metric_id_user_id_key unique (metric_id, user_id)
+);
+
+create index if not exists health_responses_board_id_idx on health_responses (board_id);
+
+-- The board always comes from the metric, and the survey closes once the retro is done.
+create or replace function prepare_health_response() returns trigger as $$
+declare
+  current_phase text;
+begin
+  select m.board_id, b.phase into new.board_id, current_phase
+  from health_metrics m
+  join retro_boards b on b.id = m.board_id
+  where m.id = new.metric_id;
+
+  if new.board_id is null then
+    raise exception 'Health metric % does not exist', new.metric_id;
+  end if;
+  if current_phase = 'done' then
+    raise exception 'The health check is closed once the retro is done';
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists health_responses_prepare on health_responses;
+create trigger health_responses_prepare before insert or update on health_responses
+  for each row execute function prepare_health_response();
+
+alter table health_responses enable row level security;
+
+create policy "Users can read their own health answers" on health_responses
+  for select to authenticated using (user_id = auth.uid());
+
+create policy "Participants can answer the health check" on health_responses
+  for insert to authenticated with check (user_id = auth.uid() and can_write_board(board_id));
+
+create policy "Participants can change their health answers" on health_responses
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and can_write_board(board_id));
+
+-- Totals per metric. `counts` holds the number of 1s to 5s. Keep the threshold in sync with
+-- MIN_HEALTH_RESPONSES in src/lib/health.ts.
+create or replace view board_health_results as
+select
+  m.board_id,
+  b.created_at as board_created_at,
+  m.id as metric_id,
+  m.label,
+  m.position,
+  r.response_count,
+  case when r.response_count >= 3 then r.average end as average,
+  case when r.response_count >= 3 then r.counts end as counts
+from health_metrics m
+join retro_boards b on b.id = m.board_id
+cross join lateral (
+  select
+    count(*)::integer as response_count,
+    avg(score)::float8 as average,
+    array[
+      count(*) filter (where score = 1),
+      count(*) filter (where score = 2),
+      count(*) filter (where score = 3),
+      count(*) filter (where score = 4),
+      count(*) filter (where score = 5)
+    ]::integer[] as counts
+  from health_responses where metric_id = m.id
+) r
+where is_board_member(m.board_id);
+
+grant select on board_health_results to authenticated;
+
+-- Only says that something changed, never who answered what; clients refetch the totals.
+create or replace function publish_health_change() returns trigger as $$
+declare
+  target_board_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    target_board_id := old.board_id;
+  else
+    target_board_id := new.board_id;
+  end if;
+
+  perform realtime.publish(
+    'board:' || target_board_id::text,
+    'board.health_changed',
+    jsonb_build_object('operation', lower(tg_op))
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists health_metrics_publish_change on health_metrics;
+create trigger health_metrics_publish_change after insert or update or delete on health_metrics
+  for each row execute function publish_health_change();
+
+drop trigger if exists health_responses_publish_change on health_responses;
+create trigger health_responses_publish_change after insert or update on health_responses
+  for each row execute function publish_health_change();
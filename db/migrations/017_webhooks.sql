@@ -0,0 +1,349 @@
+-- Outgoing webhooks: notify a chat channel (or any HTTP endpoint) when a board is created,
+-- changes phase, is completed, or an action item is assigned. Payloads are Slack-compatible:
+-- `text` is what Slack shows, and the other fields carry the same event for other receivers.
+--
+-- A webhook belongs to the user who added it and fires for every board that user
+-- facilitates. Each event becomes a row in webhook_deliveries, which is sent right away with
+-- pg_net and retried with backoff by process_webhook_deliveries(), run every minute by
+-- pg_cron. The rows double as the delivery log.
+
+create extension if not exists pg_net;
+
+create table if not exists webhooks (
+  id uuid primary key default gen_random_uuid(),
+  created_by uuid not null references users(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  url text not null check (url ~ '^https?://'),
+  -- Keep in sync with WEBHOOK_EVENTS in src/lib/webhooks.ts
+  events text[] not null default '{board.created,board.phase_changed,retro.completed,action_item.assigned}'
+    check (events <@ '{board.created,board.phase_changed,retro.completed,action_item.assigned}'),
+  -- Where the app runs, for links back to boards in the messages
+  app_url text not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_created_by_idx on webhooks (created_by);
+
+alter table webhooks enable row level security;
+
+-- Webhook URLs usually carry a secret token, so nobody else can see them.
+create policy "Users can read their own webhooks" on webhooks
+  for select to authenticated using (created_by = auth.uid());
+
+create policy "Users can add webhooks" on webhooks
+  for insert to authenticated with check (created_by = auth.uid());
+
+create policy "Users can change their own webhooks" on webhooks
+  for update to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+
+create policy "Users can delete their own webhooks" on webhooks
+  for delete to authenticated using (created_by = auth.uid());
+
+create table if not exists webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references webhooks(id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  -- pending: waiting for its next attempt, sending: sent and waiting for the response,
+  -- delivered: answered with a 2xx status, failed: gave up after the last attempt
+  status text not null default 'pending' check (status in ('pending', 'sending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_attempt_at timestamptz,
+  -- The pg_net request of the latest attempt
+  request_id bigint,
+  response_status integer,
+  error text,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index if not exists webhook_deliveries_webhook_id_idx on webhook_deliveries (webhook_id, created_at desc);
+create index if not exists webhook_deliveries_due_idx on webhook_deliveries (next_attempt_at) where status in ('pending', 'sending');
+
+alter table webhook_deliveries enable row level security;
+
+-- Deliveries are written by the functions below; their owners only read them.
+create policy "Users can read their webhooks' deliveries" on webhook_deliveries
+  for select to authenticated
+  using (exists (select 1 from webhooks w where w.id = webhook_id and w.created_by = auth.uid()));
+
+-- Retries wait 1, 5, 15 and 60 minutes; the fifth failed attempt is the last.
+create or replace function webhook_retry_delay(attempts integer) returns interval as $$
+  select (array[1, 5, 15, 60])[attempts] * interval '1 minute';
+$$ language sql immutable;
+
+create or replace function send_webhook_delivery(delivery_id uuid) returns void as $$
+declare
+  delivery record;
+begin
+  select d.id, d.payload, w.url into delivery
+  from webhook_deliveries d
+  join webhooks w on w.id = d.webhook_id
+  where d.id = delivery_id and d.status = 'pending';
+  if not found then
+    return;
+  end if;
+
+  update webhook_deliveries
+  set status = 'sending',
+      attempts = attempts + 1,
+      last_attempt_at = now(),
+      request_id = net.http_post(
+        url := delivery.url,
+        body := delivery.payload,
+        headers := '{"Content-Type": "application/json", "User-Agent": "RetroBoard-Webhooks"}'::jsonb,
+        timeout_milliseconds := 10000
+      )
+  where id = delivery_id;
+exception when others then
+  -- Counts as a failed attempt, which process_webhook_deliveries() retries like any other
+  update webhook_deliveries
+  set attempts = attempts + 1,
+      last_attempt_at = now(),
+      error = sqlerrm,
+      status = case when attempts + 1 >= 5 then 'failed' else 'pending' end,
+      next_attempt_at = now() + coalesce(webhook_retry_delay(attempts + 1), interval '0')
+  where id = delivery_id;
+end;
+$$ language plpgsql security definer;
+
+-- Records the responses pg_net has received and sends whatever is due.
+create or replace function process_webhook_deliveries() returns void as $$
+declare
+  delivery record;
+  response record;
+  failure text;
+begin
+  for delivery in
+    select id, request_id, attempts, last_attempt_at from webhook_deliveries where status = 'sending'
+  loop
+    select status_code, error_msg, timed_out into response from net._http_response where id = delivery.request_id;
+
+    if not found then
+      -- pg_net hasn't answered yet; give up on this attempt after a while
+      continue when delivery.last_attempt_at > now() - interval '10 minutes';
+      failure := 'No response';
+    elsif response.status_code between 200 and 299 then
+      update webhook_deliveries
+      set status = 'delivered', response_status = response.status_code, error = null, delivered_at = now()
+      where id = delivery.id;
+      continue;
+    elsif response.timed_out then
+      failure := 'Timed out';
+    else
+      failure := coalesce(response.error_msg, 'HTTP ' || response.status_code);
+    end if;
+
+    update webhook_deliveries
+    set status = case when delivery.attempts >= 5 then 'failed' else 'pending' end,
+        response_status = response.status_code,
+        error = failure,
+        next_attempt_at = now() + coalesce(webhook_retry_delay(delivery.attempts), interval '0')
+    where id = delivery.id;
+  end loop;
+
+  for delivery in
+    select id from webhook_deliveries where status = 'pending' and next_attempt_at <= now() order by next_attempt_at
+  loop
+    perform send_webhook_delivery(delivery.id);
+  end loop;
+end;
+$$ language plpgsql security definer;
+
+do $$
+begin
+  create extension if not exists pg_cron;
+  perform cron.schedule('process-webhook-deliveries', '* * * * *', 'select process_webhook_deliveries()');
+exception when others then
+  raise notice 'pg_cron is not available (%); run process_webhook_deliveries() every minute some other way', sqlerrm;
+end $$;
+
+-- Slack treats &, < and > as markup, so text from the board has to be escaped.
+create or replace function slack_escape(value text) returns text as $$
+  select replace(replace(replace(value, '&', '&amp;'), '<', '&lt;'), '>', '&gt;');
+$$ language sql immutable;
+
+-- Queues `event_name` for every active webhook subscribed to it whose owner facilitates the board.
+-- `summary` is the message body; the board's name and a link to it are added in front.
+create or replace function queue_webhook_event(
+  target_board_id uuid,
+  event_name text,
+  summary text,
+  details jsonb default '{}'
+) returns void as $$
+declare
+  board retro_boards%rowtype;
+  hook record;
+  delivery_id uuid;
+  board_url text;
+begin
+  select * into board from retro_boards where id = target_board_id;
+  if not found then
+    return;
+  end if;
+
+  for hook in
+    select w.id, w.app_url
+    from webhooks w
+    join board_members m on m.board_id = target_board_id and m.user_id = w.created_by and m.role = 'facilitator'
+    where w.active and event_name = any (w.events)
+  loop
+    board_url := rtrim(hook.app_url, '/') || '/boards/' || board.id;
+    insert into webhook_deliveries (webhook_id, event, payload)
+    values (
+      hook.id,
+      event_name,
+      jsonb_build_object(
+        'text', format(
+          '<%s|%s>%s: %s',
+          board_url,
+          slack_escape(board.name),
+          coalesce(' (' || slack_escape(board.sprint_label) || ')', ''),
+          summary
+        ),
+        'event', event_name,
+        'board', jsonb_build_object(
+          'id', board.id,
+          'name', board.name,
+          'sprint_label', board.sprint_label,
+          'phase', board.phase,
+          'url', board_url
+        )
+      ) || details
+    )
+    returning id into delivery_id;
+
+    perform send_webhook_delivery(delivery_id);
+  end loop;
+end;
+$$ language plpgsql security definer;
+
+-- Only the triggers below queue events and only the database sends them.
+revoke execute on function queue_webhook_event(uuid, text, text, jsonb) from public;
+revoke execute on function send_webhook_delivery(uuid) from public;
+revoke execute on function process_webhook_deliveries() from public;
+
+-- Sends a sample message to one of the caller's webhooks, whatever events it is subscribed to.
+create or replace function test_webhook(target_webhook_id uuid) returns uuid as $$
+declare
+  delivery_id uuid;
+begin
+  if not exists (select 1 from webhooks where id = target_webhook_id and created_by = auth.uid()) then
+    raise exception 'Webhook not found';
+  end if;
+
+  insert into webhook_deliveries (webhook_id, event, payload)
+  values (
+    target_webhook_id,
+    'webhook.test',
+    jsonb_build_object('text', 'Test message from Retro Board. If you can read this, the webhook works.', 'event', 'webhook.test')
+  )
+  returning id into delivery_id;
+
+  perform send_webhook_delivery(delivery_id);
+  return delivery_id;
+end;
+$$ language plpgsql security definer;
+
+-- Sends a failed delivery again, with a fresh set of attempts.
+create or replace function retry_webhook_delivery(delivery_id uuid) returns void as $$
+begin
+  update webhook_deliveries d
+  set status = 'pending', attempts = 0, next_attempt_at = now(), error = null, response_status = null
+  from webhooks w
+  where d.id = delivery_id and w.id = d.webhook_id and w.created_by = auth.uid() and d.status = 'failed';
+  if not found then
+    raise exception 'Only failed deliveries of your own webhooks can be retried';
+  end if;
+
+  perform send_webhook_delivery(delivery_id);
+end;
+$$ language plpgsql security definer;
+
+-- Board created, phase changed and retro completed. Runs after retro_boards_add_creator
+-- (triggers fire in name order), so the creator is already the board's facilitator.
+create or replace function queue_board_webhooks() returns trigger as $$
+declare
+  top_items text;
+begin
+  if tg_op = 'INSERT' then
+    perform queue_webhook_event(
+      new.id,
+      'board.created',
+      'a new retro board is open' || coalesce(' for ' || new.starts_on || ' to ' || new.ends_on, '') || '.'
+    );
+  elsif new.phase = 'done' and old.phase is distinct from 'done' then
+    -- Top three topics by votes; a group counts as one topic under its name. Hidden cards are left out.
+    select coalesce(string_agg(format('• %s (%s votes)', slack_escape(topic), vote_count), E'\n'), 'No votes were cast.')
+    into top_items
+    from (
+      select coalesce(g.name, min(i.content)) as topic, count(v.id) as vote_count, max(i.created_at) as newest
+      from retro_items i
+      left join item_groups g on g.id = i.group_id
+      left join votes v on v.retro_item_id = i.id
+      where i.board_id = new.id and i.hidden_at is null
+      group by coalesce(i.group_id, i.id), g.name
+      order by vote_count desc, newest desc
+      limit 3
+    ) topics;
+
+    perform queue_webhook_event(
+      new.id,
+      'retro.completed',
+      E'the retro is complete. Top items:\n' || top_items,
+      jsonb_build_object(
+        'action_item_count', (select count(*) from action_items where board_id = new.id)
+      )
+    );
+  elsif new.phase is distinct from old.phase then
+    perform queue_webhook_event(
+      new.id,
+      'board.phase_changed',
+      format('moved from the %s phase to the %s phase.', initcap(old.phase), initcap(new.phase)),
+      jsonb_build_object('previous_phase', old.phase)
+    );
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists retro_boards_webhooks on retro_boards;
+create trigger retro_boards_webhooks after insert or update of phase on retro_boards
+  for each row execute function queue_board_webhooks();
+
+create or replace function queue_action_item_webhooks() returns trigger as $$
+declare
+  assignee_nickname text;
+begin
+  if new.assignee_id is null or (tg_op = 'UPDATE' and new.assignee_id is not distinct from old.assignee_id) then
+    return null;
+  end if;
+
+  select nickname into assignee_nickname from users where id = new.assignee_id;
+  perform queue_webhook_event(
+    new.board_id,
+    'action_item.assigned',
+    format(
+      '*%s* was assigned "%s"%s.',
+      slack_escape(coalesce(assignee_nickname, 'Someone')),
+      slack_escape(new.title),
+      coalesce(', due ' || new.due_on, '')
+    ),
+    jsonb_build_object(
+      'action_item', jsonb_build_object(
+        'id', new.id,
+        'title', new.title,
+        'assignee', assignee_nickname,
+        'due_on', new.due_on
+      )
+    )
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists action_items_webhooks on action_items;
+create trigger action_items_webhooks after insert or update of assignee_id on action_items
+  for each row execute function queue_action_item_webhooks();
@@ -0,0 +1,20 @@
+-- Per-person settings that follow someone across browsers, starting with the language the app
+-- is shown in. Only the person themselves can read or change their row.
+
+create table if not exists user_preferences (
+  user_id uuid primary key references users(id) on delete cascade,
+  -- Keep in sync with LOCALES in src/lib/i18n.ts
+  locale text not null check (locale in ('en', 'ja')),
+  updated_at timestamptz not null default now()
+);
+
+alter table user_preferences enable row level security;
+
+create policy "Users can read their own preferences" on user_preferences
+  for select to authenticated using (user_id = auth.uid());
+
+create policy "Users can create their own preferences" on user_preferences
+  for insert to authenticated with check (user_id = auth.uid());
+
+create policy "Users can update their own preferences" on user_preferences
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,17 @@
+-- Board channels are members only: subscribing to `board:<board_id>` needs a role on the
+-- board, like reading it does (see db/migrations/013_board_roles.sql). Events are still
+-- published by the database triggers, which run as definer.
+--
+-- To check by hand: open a board in one browser, then sign in as someone who isn't a member
+-- and open the same `/boards/<board_id>` URL in another. The second browser's console logs
+-- "Error subscribing to board channel" and no changes from the first browser reach it.
+
+alter table realtime.channels enable row level security;
+
+drop policy if exists "Members can subscribe to their boards" on realtime.channels;
+create policy "Members can subscribe to their boards" on realtime.channels
+  for select to authenticated
+  using (
+    pattern = 'board:%'
+    and is_board_member(nullif(split_part(realtime.channel_name(), ':', 2), '')::uuid)
+  );
@@ -0,0 +1,6 @@
+-- Updated action items have to stay on a board the caller can write to; without a check the
+-- update policy let a participant move one onto any other board.
+
+drop policy if exists "Participants can update action items" on action_items;
+create policy "Participants can update action items" on action_items
+  for update to authenticated using (can_write_board(board_id)) with check (can_write_board(board_id));
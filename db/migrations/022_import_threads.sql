@@ -0,0 +1,111 @@
+-- Board import keeps comment threads: version 2 exports carry comment ids and the comment each
+-- reply answers, and replies are linked to their imported parent. Version 1 exports still
+-- import, with flat comments. Reactions in the export are left out like votes, since they
+-- would have to be recreated for other people.
+
+create or replace function import_board(payload jsonb) returns uuid as $$
+declare
+  source_board jsonb := payload -> 'board';
+  new_board_id uuid;
+  new_id uuid;
+  column_ids jsonb := '{}';
+  group_ids jsonb := '{}';
+  item_ids jsonb := '{}';
+  column_data jsonb;
+  group_data jsonb;
+  item_data jsonb;
+  comment_data jsonb;
+  comment_ids jsonb := '{}';
+  new_comment_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to import a board';
+  end if;
+  if payload ->> 'format' is distinct from 'sprint-retro-board' or coalesce(payload ->> 'version', '') not in ('1', '2') then
+    raise exception 'Unsupported board export';
+  end if;
+
+  -- Created in the write phase so the phase triggers accept the imported rows; the board's
+  -- real settings are applied at the end.
+  insert into retro_boards (name, sprint_label, starts_on, ends_on, anonymity, created_by)
+  values (
+    source_board ->> 'name',
+    source_board ->> 'sprint_label',
+    (source_board ->> 'starts_on')::date,
+    (source_board ->> 'ends_on')::date,
+    coalesce(source_board ->> 'anonymity', 'none'),
+    auth.uid()
+  )
+  returning id into new_board_id;
+
+  for column_data in select * from jsonb_array_elements(payload -> 'columns') loop
+    insert into board_columns (board_id, label, color, placeholder, position)
+    values (
+      new_board_id,
+      column_data ->> 'label',
+      coalesce(column_data ->> 'color', 'gray'),
+      column_data ->> 'placeholder',
+      coalesce((column_data ->> 'position')::integer, 0)
+    )
+    returning id into new_id;
+    column_ids := column_ids || jsonb_build_object(column_data ->> 'id', new_id);
+  end loop;
+
+  for group_data in select * from jsonb_array_elements(coalesce(payload -> 'groups', '[]')) loop
+    insert into item_groups (board_id, name, created_by)
+    values (new_board_id, group_data ->> 'name', auth.uid())
+    returning id into new_id;
+    group_ids := group_ids || jsonb_build_object(group_data ->> 'id', new_id);
+  end loop;
+
+  for item_data in select * from jsonb_array_elements(payload -> 'items') loop
+    insert into retro_items (board_id, column_id, group_id, content, created_by, created_at)
+    values (
+      new_board_id,
+      (column_ids ->> (item_data ->> 'column_id'))::uuid,
+      (group_ids ->> (item_data ->> 'group_id'))::uuid,
+      item_data ->> 'content',
+      auth.uid(),
+      coalesce((item_data ->> 'created_at')::timestamptz, now())
+    )
+    returning id into new_id;
+    item_ids := item_ids || jsonb_build_object(item_data ->> 'id', new_id);
+  end loop;
+
+  -- Comments are only accepted from the vote phase on.
+  update retro_boards set phase = 'vote' where id = new_board_id;
+
+  for item_data in select * from jsonb_array_elements(payload -> 'items') loop
+    new_id := (item_ids ->> (item_data ->> 'id'))::uuid;
+
+    -- Comments that start a thread go in first, so every reply finds its parent.
+    for comment_data in
+      select value from jsonb_array_elements(coalesce(item_data -> 'comments', '[]')) with ordinality
+      order by value ->> 'parent_id' is not null, ordinality
+    loop
+      insert into comments (board_id, retro_item_id, user_id, content, created_at, parent_id)
+      values (
+        new_board_id,
+        new_id,
+        auth.uid(),
+        comment_data ->> 'content',
+        coalesce((comment_data ->> 'created_at')::timestamptz, now()),
+        (comment_ids ->> (comment_data ->> 'parent_id'))::uuid
+      )
+      returning id into new_comment_id;
+      if comment_data ->> 'id' is not null then
+        comment_ids := comment_ids || jsonb_build_object(comment_data ->> 'id', new_comment_id);
+      end if;
+    end loop;
+  end loop;
+
+  update retro_boards
+  set
+    phase = coalesce(source_board ->> 'phase', 'done'),
+    vote_budget = coalesce((source_board ->> 'vote_budget')::integer, 5),
+    max_votes_per_item = coalesce((source_board ->> 'max_votes_per_item')::integer, 1)
+  where id = new_board_id;
+
+  return new_board_id;
+end;
+$$ language plpgsql security definer;
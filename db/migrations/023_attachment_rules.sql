@@ -0,0 +1,32 @@
+-- Attachments: only a card's author and the board's facilitators can add images to it, and
+-- the per-card limit holds when images are attached at the same time. Files stay reachable
+-- by URL in the public bucket; the app deletes them along with their card or attachment, but
+-- hiding a card doesn't revoke a URL someone has already seen.
+
+-- Locks the card so concurrent inserts count one after another.
+create or replace function set_attachment_board() returns trigger as $$
+begin
+  select board_id into new.board_id from retro_items where id = new.retro_item_id for update;
+  if new.board_id is null then
+    raise exception 'Retro item % does not exist', new.retro_item_id;
+  end if;
+
+  if (select count(*) from attachments where retro_item_id = new.retro_item_id) >= 4 then
+    raise exception 'A card can have at most 4 images';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create or replace function is_item_author(target_item_id uuid) returns boolean as $$
+  select exists (select 1 from retro_items where id = target_item_id and created_by = auth.uid());
+$$ language sql stable security definer;
+
+drop policy if exists "Participants can attach images" on attachments;
+create policy "Authors and facilitators can attach images" on attachments
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and can_write_board(board_id)
+    and (is_item_author(retro_item_id) or is_board_facilitator(board_id))
+  );
@@ -0,0 +1,84 @@
+-- Webhooks are sent from the database, so a URL pointing at localhost, a private network or a
+-- cloud metadata address (169.254.169.254) would let anyone make it call internal services.
+-- Such URLs are refused: IP addresses must be public, and names need a dot and an alphabetic
+-- top-level label, which keeps out bare intranet names and numeric forms like
+-- http://2130706433. Names are not resolved here, so this doesn't cover a public name that
+-- points at a private address. Keep in sync with `getWebhookUrlError` in src/lib/webhooks.ts.
+
+create or replace function is_public_webhook_url(target_url text) returns boolean as $$
+declare
+  host text := lower(substring(target_url from '^https?://(?:[^/?#@]*@)?(\[[^]]*\]|[^/:?#]*)'));
+  address inet;
+begin
+  if host is null or host = '' then
+    return false;
+  end if;
+
+  begin
+    address := trim(both '[]' from host)::inet;
+  exception when others then
+    address := null;
+  end;
+
+  if address is not null then
+    return not address <<= any (array[
+      '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+      '192.168.0.0/16', '::/128', '::1/128', '::ffff:0:0/96', 'fc00::/7', 'fe80::/10'
+    ]::inet[]);
+  end if;
+
+  return host ~ '^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z][a-z0-9-]*\.?$'
+    and host !~ '(^|\.)(localhost|local|internal|localdomain|home\.arpa)\.?$';
+end;
+$$ language plpgsql immutable;
+
+-- Existing webhooks to such addresses stop firing; turning one back on needs a public URL.
+update webhooks set active = false where not is_public_webhook_url(url);
+
+alter table webhooks drop constraint if exists webhooks_url_public;
+alter table webhooks add constraint webhooks_url_public check (is_public_webhook_url(url) or not active);
+
+-- Tests and retries can still target an inactive webhook, so sending checks the URL as well.
+create or replace function send_webhook_delivery(delivery_id uuid) returns void as $$
+declare
+  delivery record;
+begin
+  select d.id, d.payload, w.url into delivery
+  from webhook_deliveries d
+  join webhooks w on w.id = d.webhook_id
+  where d.id = delivery_id and d.status = 'pending';
+  if not found then
+    return;
+  end if;
+
+  if not is_public_webhook_url(delivery.url) then
+    update webhook_deliveries
+    set status = 'failed', error = 'The webhook URL is not a public address'
+    where id = delivery_id;
+    return;
+  end if;
+
+  update webhook_deliveries
+  set status = 'sending',
+      attempts = attempts + 1,
+      last_attempt_at = now(),
+      request_id = net.http_post(
+        url := delivery.url,
+        body := delivery.payload,
+        headers := '{"Content-Type": "application/json", "User-Agent": "RetroBoard-Webhooks"}'::jsonb,
+        timeout_milliseconds := 10000
+      )
+  where id = delivery_id;
+exception when others then
+  -- Counts as a failed attempt, which process_webhook_deliveries() retries like any other
+  update webhook_deliveries
+  set attempts = attempts + 1,
+      last_attempt_at = now(),
+      error = sqlerrm,
+      status = case when attempts + 1 >= 5 then 'failed' else 'pending' end,
+      next_attempt_at = now() + coalesce(webhook_retry_delay(attempts + 1), interval '0')
+  where id = delivery_id;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function send_webhook_delivery(uuid) from public;
@@ -0,0 +1,162 @@
+-- Importing a board no longer sends webhooks: import_board sets a transaction-local flag
+-- that queue_board_webhooks() checks, so the new board's insert and the switch to its final
+-- phase don't announce a board.created, board.phase_changed or retro.completed event for a
+-- retro that never ran. Comments are accepted in the write phase, so the import no longer
+-- passes through the vote phase either.
+
+create or replace function queue_board_webhooks() returns trigger as $$
+declare
+  top_items text;
+begin
+  if current_setting('retro.importing', true) = 'on' then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    perform queue_webhook_event(
+      new.id,
+      'board.created',
+      'a new retro board is open' || coalesce(' for ' || new.starts_on || ' to ' || new.ends_on, '') || '.'
+    );
+  elsif new.phase = 'done' and old.phase is distinct from 'done' then
+    -- Top three topics by votes; a group counts as one topic under its name. Hidden cards are left out.
+    select coalesce(string_agg(format('• %s (%s votes)', slack_escape(topic), vote_count), E'\n'), 'No votes were cast.')
+    into top_items
+    from (
+      select coalesce(g.name, min(i.content)) as topic, count(v.id) as vote_count, max(i.created_at) as newest
+      from retro_items i
+      left join item_groups g on g.id = i.group_id
+      left join votes v on v.retro_item_id = i.id
+      where i.board_id = new.id and i.hidden_at is null
+      group by coalesce(i.group_id, i.id), g.name
+      order by vote_count desc, newest desc
+      limit 3
+    ) topics;
+
+    perform queue_webhook_event(
+      new.id,
+      'retro.completed',
+      E'the retro is complete. Top items:\n' || top_items,
+      jsonb_build_object(
+        'action_item_count', (select count(*) from action_items where board_id = new.id)
+      )
+    );
+  elsif new.phase is distinct from old.phase then
+    perform queue_webhook_event(
+      new.id,
+      'board.phase_changed',
+      format('moved from the %s phase to the %s phase.', initcap(old.phase), initcap(new.phase)),
+      jsonb_build_object('previous_phase', old.phase)
+    );
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+create or replace function import_board(payload jsonb) returns uuid as $$
+declare
+  source_board jsonb := payload -> 'board';
+  new_board_id uuid;
+  new_id uuid;
+  column_ids jsonb := '{}';
+  group_ids jsonb := '{}';
+  item_ids jsonb := '{}';
+  column_data jsonb;
+  group_data jsonb;
+  item_data jsonb;
+  comment_data jsonb;
+  comment_ids jsonb := '{}';
+  new_comment_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to import a board';
+  end if;
+  if payload ->> 'format' is distinct from 'sprint-retro-board' or coalesce(payload ->> 'version', '') not in ('1', '2') then
+    raise exception 'Unsupported board export';
+  end if;
+
+  -- Recreating a board is not news: no board.created, phase or completion webhooks
+  perform set_config('retro.importing', 'on', true);
+
+  -- Created in the write phase so the phase triggers accept the imported rows; the board's
+  -- real settings are applied at the end.
+  insert into retro_boards (name, sprint_label, starts_on, ends_on, anonymity, created_by)
+  values (
+    source_board ->> 'name',
+    source_board ->> 'sprint_label',
+    (source_board ->> 'starts_on')::date,
+    (source_board ->> 'ends_on')::date,
+    coalesce(source_board ->> 'anonymity', 'none'),
+    auth.uid()
+  )
+  returning id into new_board_id;
+
+  for column_data in select * from jsonb_array_elements(payload -> 'columns') loop
+    insert into board_columns (board_id, label, color, placeholder, position)
+    values (
+      new_board_id,
+      column_data ->> 'label',
+      coalesce(column_data ->> 'color', 'gray'),
+      column_data ->> 'placeholder',
+      coalesce((column_data ->> 'position')::integer, 0)
+    )
+    returning id into new_id;
+    column_ids := column_ids || jsonb_build_object(column_data ->> 'id', new_id);
+  end loop;
+
+  for group_data in select * from jsonb_array_elements(coalesce(payload -> 'groups', '[]')) loop
+    insert into item_groups (board_id, name, created_by)
+    values (new_board_id, group_data ->> 'name', auth.uid())
+    returning id into new_id;
+    group_ids := group_ids || jsonb_build_object(group_data ->> 'id', new_id);
+  end loop;
+
+  for item_data in select * from jsonb_array_elements(payload -> 'items') loop
+    insert into retro_items (board_id, column_id, group_id, content, created_by, created_at)
+    values (
+      new_board_id,
+      (column_ids ->> (item_data ->> 'column_id'))::uuid,
+      (group_ids ->> (item_data ->> 'group_id'))::uuid,
+      item_data ->> 'content',
+      auth.uid(),
+      coalesce((item_data ->> 'created_at')::timestamptz, now())
+    )
+    returning id into new_id;
+    item_ids := item_ids || jsonb_build_object(item_data ->> 'id', new_id);
+  end loop;
+
+  for item_data in select * from jsonb_array_elements(payload -> 'items') loop
+    new_id := (item_ids ->> (item_data ->> 'id'))::uuid;
+
+    -- Comments that start a thread go in first, so every reply finds its parent.
+    for comment_data in
+      select value from jsonb_array_elements(coalesce(item_data -> 'comments', '[]')) with ordinality
+      order by value ->> 'parent_id' is not null, ordinality
+    loop
+      insert into comments (board_id, retro_item_id, user_id, content, created_at, parent_id)
+      values (
+        new_board_id,
+        new_id,
+        auth.uid(),
+        comment_data ->> 'content',
+        coalesce((comment_data ->> 'created_at')::timestamptz, now()),
+        (comment_ids ->> (comment_data ->> 'parent_id'))::uuid
+      )
+      returning id into new_comment_id;
+      if comment_data ->> 'id' is not null then
+        comment_ids := comment_ids || jsonb_build_object(comment_data ->> 'id', new_comment_id);
+      end if;
+    end loop;
+  end loop;
+
+  update retro_boards
+  set
+    phase = coalesce(source_board ->> 'phase', 'done'),
+    vote_budget = coalesce((source_board ->> 'vote_budget')::integer, 5),
+    max_votes_per_item = coalesce((source_board ->> 'max_votes_per_item')::integer, 1)
+  where id = new_board_id;
+
+  perform set_config('retro.importing', 'off', true);
+  return new_board_id;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,8 @@
+-- A board can follow on from an earlier retro, whose open action items are then reviewed at
+-- the start of this one. Reading those items still goes through the action_items policies,
+-- so linking to a board you're not a member of shows nothing.
+
+alter table retro_boards
+  add column if not exists previous_board_id uuid references retro_boards(id) on delete set null;
+
+create index if not exists idx_retro_boards_previous_board_id on retro_boards(previous_board_id);
@@ -0,0 +1,33 @@
+-- With totals refreshed on every answer, comparing them before and after one more answer
+-- gives away that person's score, threshold or not. The average and the counts now stay
+-- hidden until the health check closes with the retro; until then only the number of
+-- answers shows.
+
+create or replace view board_health_results as
+select
+  m.board_id,
+  b.created_at as board_created_at,
+  m.id as metric_id,
+  m.label,
+  m.position,
+  r.response_count,
+  case when r.response_count >= 3 and b.phase = 'done' then r.average end as average,
+  case when r.response_count >= 3 and b.phase = 'done' then r.counts end as counts
+from health_metrics m
+join retro_boards b on b.id = m.board_id
+cross join lateral (
+  select
+    count(*)::integer as response_count,
+    avg(score)::float8 as average,
+    array[
+      count(*) filter (where score = 1),
+      count(*) filter (where score = 2),
+      count(*) filter (where score = 3),
+      count(*) filter (where score = 4),
+      count(*) filter (where score = 5)
+    ]::integer[] as counts
+  from health_responses where metric_id = m.id
+) r
+where is_board_member(m.board_id);
+
+grant select on board_health_results to authenticated;
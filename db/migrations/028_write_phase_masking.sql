@@ -0,0 +1,95 @@
+-- While the board is in the write phase, other people's cards were only blurred by the app:
+-- their text still came back from `board_items`, went out on the realtime channel and could
+-- be read from the edit history. Now the text is scrambled before it leaves the database
+-- (every character but spaces becomes an `x`, so a card keeps its shape) for everyone but
+-- its author, and earlier versions of other people's cards can't be read until writing ends.
+
+create or replace function board_hides_items(target_board_id uuid) returns boolean as $$
+  select phase = 'write' from retro_boards where id = target_board_id;
+$$ language sql stable security definer;
+
+create or replace function scramble_text(content text) returns text as $$
+  select regexp_replace(content, '\S', 'x', 'g');
+$$ language sql immutable;
+
+create or replace view board_items as
+select
+  i.id,
+  i.board_id,
+  i.column_id,
+  case when content_masked then scramble_text(i.content) else i.content end as content,
+  i.created_at,
+  case when masked then null else i.created_by end as created_by,
+  case when masked then null else jsonb_build_object('nickname', u.nickname) end as users,
+  i.group_id,
+  i.edited_at,
+  i.hidden_at
+from retro_items i
+left join users u on u.id = i.created_by
+cross join lateral (
+  select
+    board_hides_authors(i.board_id) and i.created_by is distinct from auth.uid() as masked,
+    board_hides_items(i.board_id) and i.created_by is distinct from auth.uid() as content_masked
+) m
+where can_see_item(i.id);
+
+drop policy if exists "Members can read item revisions" on retro_item_revisions;
+
+create policy "Members can read item revisions" on retro_item_revisions
+  for select to authenticated using (
+    is_board_member(board_id)
+    and (
+      not board_hides_items(board_id)
+      or exists (select 1 from retro_items where id = retro_item_id and created_by = auth.uid())
+    )
+  );
+
+-- The channel reaches everyone on the board, the author included, so a card's text is
+-- scrambled for all of them; authors get their own text back from `board_items`.
+create or replace function publish_board_change() returns trigger as $$
+declare
+  record jsonb;
+  author_nickname text;
+  masked boolean;
+begin
+  if tg_op = 'DELETE' then
+    record := to_jsonb(old);
+  else
+    record := to_jsonb(new);
+  end if;
+
+  if tg_argv[0] = 'item' then
+    if record ->> 'hidden_at' is not null then
+      return null;
+    end if;
+    if coalesce(board_hides_items((record ->> 'board_id')::uuid), false) then
+      record := record || jsonb_build_object('content', scramble_text(record ->> 'content'));
+    end if;
+  elsif exists (
+    select 1 from retro_items where id = (record ->> 'retro_item_id')::uuid and hidden_at is not null
+  ) then
+    return null;
+  end if;
+
+  if tg_argv[0] in ('vote', 'reaction') then
+    masked := board_hides_voters((record ->> 'board_id')::uuid);
+  else
+    masked := board_hides_authors((record ->> 'board_id')::uuid);
+  end if;
+
+  if coalesce(masked, false) then
+    record := record || jsonb_build_object(tg_argv[1], null, 'users', null);
+  else
+    select nickname into author_nickname from users where id = (record ->> tg_argv[1])::uuid;
+    record := record || jsonb_build_object('users', jsonb_build_object('nickname', author_nickname));
+  end if;
+
+  perform realtime.publish(
+    'board:' || (record ->> 'board_id'),
+    tg_argv[0] || case tg_op when 'DELETE' then '.deleted' when 'UPDATE' then '.updated' else '.created' end,
+    record
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
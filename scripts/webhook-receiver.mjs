@@ -0,0 +1,45 @@
+// A local stand-in for Slack when trying out webhooks: prints every message it receives.
+//
+//   npm run webhook:receiver -- [--port 8787] [--fail 2]
+//
+// `--fail N` answers the first N requests with a 500, to watch deliveries being retried.
+
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.PORT || '8787' },
+    fail: { type: 'string', default: '0' },
+  },
+});
+
+let failuresLeft = Number(values.fail);
+let received = 0;
+
+const server = createServer((request, response) => {
+  const chunks = [];
+  request.on('data', (chunk) => chunks.push(chunk));
+  request.on('end', () => {
+    received += 1;
+    const body = Buffer.concat(chunks).toString('utf8');
+    const failing = failuresLeft > 0;
+    if (failing) failuresLeft -= 1;
+
+    console.log(`\n#${received} ${new Date().toISOString()} ${request.method} ${request.url}${failing ? ' -> 500' : ''}`);
+    try {
+      const payload = JSON.parse(body);
+      if (payload.text) console.log(payload.text);
+      console.log(JSON.stringify(payload, null, 2));
+    } catch {
+      console.log(body || '(empty body)');
+    }
+
+    response.writeHead(failing ? 500 : 200, { 'Content-Type': 'text/plain' });
+    response.end(failing ? 'failing on purpose' : 'ok');
+  });
+});
+
+server.listen(Number(values.port), () => {
+  console.log(`Listening for webhooks on http://localhost:${values.port}`);
+});
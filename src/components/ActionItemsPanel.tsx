@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from '../lib/insforge';
+import { getErrorMessage } from '../lib/errors';
+import { useTranslation } from '../lib/i18n';
+import type { ActionItemChanges } from '../lib/actionItems';
+import type { ActionItem, UserSummary } from '../types';
+
+interface ActionItemsPanelProps {
+  actionItems: ActionItem[];
+  carriedOver: ActionItem[];
+  // False for observers, who see the action items but can't change them
+  canEdit: boolean;
+  // Facilitators can delete anyone's action items on their board
+  canModerate: boolean;
+  onUpdate: (actionItem: ActionItem, changes: ActionItemChanges) => void;
+  onRemove: (actionItem: ActionItem) => void;
+}
+
+const isOverdue = (actionItem: ActionItem) =>
+  actionItem.status === 'open' && !!actionItem.due_on && actionItem.due_on < new Date().toISOString().slice(0, 10);
+
+function ActionItemsPanel({ actionItems, carriedOver, canEdit, canModerate, onUpdate, onRemove }: ActionItemsPanelProps) {
+  const { user } = useUser();
+  const { t } = useTranslation();
+  const [users, setUsers] = useState<UserSummary[]>([]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const { data, error } = await insforge.database
+        .from('users')
+        .select('id, nickname')
+        .order('nickname', { ascending: true });
+
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load users.'));
+    }
+  };
+
+  if (actionItems.length === 0 && carriedOver.length === 0) {
+    return null;
+  }
+
+  // Carried-over rows belong to earlier boards, where being a facilitator here counts for nothing
+  const canRemove = (actionItem: ActionItem) =>
+    canEdit && ((!!user && actionItem.created_by === user.id) || (canModerate && !actionItem.retro_boards));
+
+  const renderRow = (actionItem: ActionItem) => (
+    <li
+      key={actionItem.id}
+      className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 bg-white border border-gray-200 rounded-md p-3"
+    >
+      <label className="flex items-start gap-2 flex-1 min-w-0 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={actionItem.status === 'done'}
+          onChange={(e) => onUpdate(actionItem, { status: e.target.checked ? 'done' : 'open' })}
+          disabled={!canEdit}
+          className="mt-0.5 w-4 h-4 accent-gray-900 flex-shrink-0"
+        />
+        <span className="min-w-0">
+          <span
+            className={`block text-sm leading-relaxed break-words font-medium ${
+              actionItem.status === 'done' ? 'text-gray-400 line-through' : 'text-gray-900'
+            }`}
+          >
+            {actionItem.title}
+          </span>
+          {actionItem.retro_boards && (
+            <span className="block text-xs text-gray-400 font-medium">
+              {t('actionItems.from', { board: actionItem.retro_boards.sprint_label || actionItem.retro_boards.name })}
+            </span>
+          )}
+        </span>
+      </label>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <select
+          value={actionItem.assignee_id ?? ''}
+          onChange={(e) => onUpdate(actionItem, { assignee_id: e.target.value || null })}
+          disabled={!canEdit}
+          aria-label={t('actionItems.assignee')}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 bg-white focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900"
+        >
+          <option value="">{t('actionItems.unassigned')}</option>
+          {users.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.nickname}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={actionItem.due_on ?? ''}
+          onChange={(e) => onUpdate(actionItem, { due_on: e.target.value || null })}
+          disabled={!canEdit}
+          aria-label={t('actionItems.dueDate')}
+          className={`px-2 py-1 border rounded-md text-xs bg-white focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 ${
+            isOverdue(actionItem) ? 'border-red-400 text-red-600' : 'border-gray-300 text-gray-700'
+          }`}
+        />
+        {canRemove(actionItem) && (
+          <button
+            onClick={() => onRemove(actionItem)}
+            className="flex-shrink-0 w-6 h-6 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-all duration-150"
+            title={t('actionItems.delete')}
+            aria-label={t('actionItems.delete')}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5">
+      {carriedOver.length > 0 && (
+        <div className={actionItems.length > 0 ? 'mb-5' : ''}>
+          <div className="flex items-center gap-2 mb-3">
+            <div className="w-1 h-5 bg-gray-900"></div>
+            <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('actionItems.carriedOver')}</h3>
+            <span className="text-xs text-gray-400 font-medium">{t('actionItems.reviewFirst')}</span>
+          </div>
+          <ul className="space-y-2">{carriedOver.map(renderRow)}</ul>
+        </div>
+      )}
+      {actionItems.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <div className="w-1 h-5 bg-gray-900"></div>
+            <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('actionItems.title')}</h3>
+            <span className="text-xs text-gray-400 font-medium">
+              {t('actionItems.done', {
+                done: actionItems.filter((actionItem) => actionItem.status === 'done').length,
+                count: actionItems.length,
+              })}
+            </span>
+          </div>
+          <ul className="space-y-2">{actionItems.map(renderRow)}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ActionItemsPanel;
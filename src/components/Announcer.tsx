@@ -0,0 +1,14 @@
+import { useAnnouncement } from '../lib/announcer';
+
+// Visually hidden live region for the messages passed to `announce`.
+function Announcer() {
+  const message = useAnnouncement();
+
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  );
+}
+
+export default Announcer;
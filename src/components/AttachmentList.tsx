@@ -0,0 +1,91 @@
+import { useRef, useState } from 'react';
+import { IMAGE_TYPES, MAX_ATTACHMENTS_PER_ITEM, formatFileSize } from '../lib/attachments';
+import { useTranslation } from '../lib/i18n';
+import type { Attachment } from '../types';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // False for observers, on a finished board and while the card is still saving
+  canAttach: boolean;
+  canRemove: (attachment: Attachment) => boolean;
+  onAttach: (files: File[]) => Promise<void>;
+  onRemove: (attachment: Attachment) => void;
+}
+
+// Image thumbnails on a card, each opening the full image in a new tab.
+function AttachmentList({ attachments, canAttach, canRemove, onAttach, onRemove }: AttachmentListProps) {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const attach = async (files: File[]) => {
+    if (files.length === 0) return;
+    setUploading(true);
+    await onAttach(files);
+    setUploading(false);
+  };
+
+  const isFull = attachments.length >= MAX_ATTACHMENTS_PER_ITEM;
+
+  if (attachments.length === 0 && !canAttach) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap mb-3">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative">
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={`${attachment.file_name} (${formatFileSize(attachment.size)})`}
+            className="block w-16 h-16 border border-gray-200 rounded-md overflow-hidden bg-gray-50 hover:border-gray-900 transition-colors duration-150"
+          >
+            <img src={attachment.url} alt={attachment.file_name} loading="lazy" className="w-full h-full object-cover" />
+          </a>
+          {canAttach && canRemove(attachment) && (
+            <button
+              onClick={() => onRemove(attachment)}
+              className="absolute -top-1.5 -right-1.5 w-5 h-5 flex items-center justify-center border border-gray-300 rounded-full bg-white text-gray-600 hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-all duration-150"
+              title={t('attachments.remove')}
+              aria-label={t('attachments.removeNamed', { file: attachment.file_name })}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      ))}
+      {canAttach && !isFull && (
+        <>
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading}
+            className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150 disabled:text-gray-400 disabled:cursor-wait"
+            title={t('attachments.attachTitle')}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+            </svg>
+            {uploading ? t('attachments.uploading') : t('attachments.attach')}
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={IMAGE_TYPES.join(',')}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              attach([...(e.target.files || [])]);
+              e.target.value = '';
+            }}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default AttachmentList;
@@ -0,0 +1,336 @@
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from '../lib/insforge';
+import { getErrorMessage } from '../lib/errors';
+import { formatBoardDates } from '../lib/boards';
+import { createBoardColumns } from '../lib/columns';
+import { parseBoardExport } from '../lib/export';
+import { DEFAULT_HEALTH_METRICS } from '../lib/health';
+import { useTranslation } from '../lib/i18n';
+import { createHealthMetrics } from '../lib/healthCheck';
+import { HISTORY_PATH, WEBHOOKS_PATH, boardPath, navigate } from '../lib/router';
+import { BOARD_TEMPLATES, DEFAULT_TEMPLATE } from '../lib/templates';
+import { showToast } from '../lib/toast';
+import { DEFAULT_VOTE_BUDGET } from '../lib/votes';
+import type { RetroBoard } from '../types';
+
+interface NewBoardForm {
+  name: string;
+  sprint_label: string;
+  starts_on: string;
+  ends_on: string;
+  vote_budget: string;
+  template_id: string;
+  previous_board_id: string;
+}
+
+const EMPTY_FORM: NewBoardForm = {
+  name: '',
+  sprint_label: '',
+  starts_on: '',
+  ends_on: '',
+  vote_budget: String(DEFAULT_VOTE_BUDGET),
+  template_id: DEFAULT_TEMPLATE.id,
+  previous_board_id: '',
+};
+
+function BoardList() {
+  const { user } = useUser();
+  const { t, locale } = useTranslation();
+  const [boards, setBoards] = useState<RetroBoard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<NewBoardForm>(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchBoards();
+  }, []);
+
+  const fetchBoards = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await insforge.database
+        .from('retro_boards')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setBoards(data || []);
+      // A new retro most likely follows on from the latest one
+      setForm((current) => ({ ...current, previous_board_id: current.previous_board_id || data?.[0]?.id || '' }));
+    } catch (error) {
+      console.error('Error fetching boards:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load boards.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createBoard = async () => {
+    const name = form.name.trim();
+    if (!name || !user) return;
+
+    if (form.starts_on && form.ends_on && form.ends_on < form.starts_on) {
+      showToast(t('boardList.endBeforeStart'));
+      return;
+    }
+
+    const voteBudget = Number(form.vote_budget);
+    if (!Number.isInteger(voteBudget) || voteBudget < 1) {
+      showToast(t('boardList.invalidBudget'));
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const { data, error } = await insforge.database
+        .from('retro_boards')
+        .insert([
+          {
+            name,
+            sprint_label: form.sprint_label.trim() || null,
+            starts_on: form.starts_on || null,
+            ends_on: form.ends_on || null,
+            vote_budget: voteBudget,
+            previous_board_id: form.previous_board_id || null,
+            created_by: user.id,
+          },
+        ])
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      const template = BOARD_TEMPLATES.find((candidate) => candidate.id === form.template_id) ?? DEFAULT_TEMPLATE;
+      try {
+        await createBoardColumns(data.id, template.columns);
+        await createHealthMetrics(data.id, DEFAULT_HEALTH_METRICS);
+      } catch (setupError) {
+        // Don't leave a half set up board behind, e.g. one that has nowhere to put cards
+        await insforge.database.from('retro_boards').delete().eq('id', data.id);
+        throw setupError;
+      }
+
+      setForm(EMPTY_FORM);
+      navigate(boardPath(data.id));
+    } catch (error) {
+      console.error('Error creating board:', error);
+      showToast(getErrorMessage(error, t('boardList.createFailed')));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const importBoard = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    e.target.value = '';
+    if (!file || !user) return;
+
+    try {
+      setImporting(true);
+      const payload = parseBoardExport(await file.text());
+      const { data, error } = await insforge.database.rpc('import_board', { payload });
+
+      if (error) throw error;
+      navigate(boardPath(data));
+    } catch (error) {
+      console.error('Error importing board:', error);
+      showToast(getErrorMessage(error, t('boardList.importFailed')));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-sm bg-white';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-4 lg:gap-6">
+      {/* Create board */}
+      <div className="border border-gray-200 rounded-md p-4 sm:p-5 h-fit">
+        <div className="flex items-center gap-2 mb-4">
+          <div className="w-1 h-5 bg-gray-900"></div>
+          <h2 className="text-base sm:text-lg font-semibold text-gray-900 tracking-tight">{t('boardList.newRetro')}</h2>
+        </div>
+        <div className="space-y-3">
+          <label className="block">
+            <span className="block text-xs text-gray-600 font-medium mb-1">{t('common.name')}</span>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder={t('boardList.namePlaceholder')}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-gray-600 font-medium mb-1">{t('boardList.sprint')}</span>
+            <input
+              type="text"
+              value={form.sprint_label}
+              onChange={(e) => setForm({ ...form, sprint_label: e.target.value })}
+              placeholder={t('boardList.sprintPlaceholder')}
+              className={inputClassName}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-gray-600 font-medium mb-1">{t('boardList.start')}</span>
+              <input
+                type="date"
+                value={form.starts_on}
+                onChange={(e) => setForm({ ...form, starts_on: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-600 font-medium mb-1">{t('boardList.end')}</span>
+              <input
+                type="date"
+                value={form.ends_on}
+                onChange={(e) => setForm({ ...form, ends_on: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className="block text-xs text-gray-600 font-medium mb-1">{t('boardList.template')}</span>
+            <select
+              value={form.template_id}
+              onChange={(e) => setForm({ ...form, template_id: e.target.value })}
+              className={inputClassName}
+            >
+              {BOARD_TEMPLATES.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {t(template.name)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {boards.length > 0 && (
+            <label className="block">
+              <span className="block text-xs text-gray-600 font-medium mb-1">{t('boardList.previousBoard')}</span>
+              <select
+                value={form.previous_board_id}
+                onChange={(e) => setForm({ ...form, previous_board_id: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">{t('boardList.noPreviousBoard')}</option>
+                {boards.map((board) => (
+                  <option key={board.id} value={board.id}>
+                    {board.sprint_label ? `${board.name} (${board.sprint_label})` : board.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="block">
+            <span className="block text-xs text-gray-600 font-medium mb-1">{t('boardList.votesPerPerson')}</span>
+            <input
+              type="number"
+              min={1}
+              value={form.vote_budget}
+              onChange={(e) => setForm({ ...form, vote_budget: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <button
+            onClick={createBoard}
+            disabled={!form.name.trim() || creating}
+            className="w-full px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150 font-medium text-sm"
+          >
+            {t('boardList.create')}
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150"
+          >
+            {importing ? t('boardList.importing') : t('boardList.import')}
+          </button>
+          <p className="text-xs text-gray-500 font-medium">{t('boardList.importNote')}</p>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={importBoard}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {/* Board list */}
+      <div className="lg:col-span-2">
+        <div className="flex justify-end gap-2 mb-3">
+          <a
+            href={HISTORY_PATH}
+            onClick={(e) => {
+              if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+              e.preventDefault();
+              navigate(HISTORY_PATH);
+            }}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+          >
+            {t('boardList.history')}
+          </a>
+          <a
+            href={WEBHOOKS_PATH}
+            onClick={(e) => {
+              if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+              e.preventDefault();
+              navigate(WEBHOOKS_PATH);
+            }}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+          >
+            {t('boardList.webhooks')}
+          </a>
+        </div>
+        {loading ? (
+          <div className="text-center py-16">
+            <div className="flex flex-col items-center gap-3">
+              <div className="w-6 h-6 border-2 border-gray-900 border-t-transparent animate-spin"></div>
+              <div className="text-sm text-gray-500 font-medium">{t('boardList.loading')}</div>
+            </div>
+          </div>
+        ) : boards.length === 0 ? (
+          <div className="text-center py-16 text-gray-400 text-xs font-medium">
+            {t('boardList.empty')}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {boards.map((board) => (
+              <a
+                key={board.id}
+                href={boardPath(board.id)}
+                onClick={(e) => {
+                  if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+                  e.preventDefault();
+                  navigate(boardPath(board.id));
+                }}
+                className="block bg-white border border-gray-200 rounded-md p-4 transition-colors duration-150 hover:border-gray-900"
+              >
+                <div className="flex justify-between items-center gap-3">
+                  <p className="text-gray-900 text-sm font-semibold truncate">{board.name}</p>
+                  {board.sprint_label && (
+                    <span className="flex-shrink-0 px-2 py-0.5 border border-gray-300 rounded-sm text-xs text-gray-700 font-medium">
+                      {board.sprint_label}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-gray-500 font-medium">
+                  {formatBoardDates(board) ||
+                    t('boardList.created', { date: new Date(board.created_at).toLocaleDateString(locale) })}
+                </p>
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BoardList;
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { useUser } from '@insforge/react';
+import { useTranslation } from '../lib/i18n';
+import { useBoardInvites } from '../lib/members';
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../lib/roles';
+import { invitePath } from '../lib/router';
+import { showToast } from '../lib/toast';
+import type { BoardInvite, BoardMember, BoardRole } from '../types';
+
+interface BoardMembersProps {
+  boardId: string;
+  members: BoardMember[];
+  onChangeRole: (member: BoardMember, role: BoardRole) => void;
+  onRemove: (member: BoardMember) => void;
+}
+
+const inviteUrl = (invite: BoardInvite) => `${window.location.origin}${invitePath(invite.token)}`;
+
+// Facilitator panel for the people on a board and the invite links that let others join.
+function BoardMembers({ boardId, members, onChangeRole, onRemove }: BoardMembersProps) {
+  const { user } = useUser();
+  const { t } = useTranslation();
+  const { invites, createInvite, revokeInvite } = useBoardInvites(boardId);
+  const [inviteRole, setInviteRole] = useState<BoardRole>('participant');
+
+  const facilitatorCount = members.filter((member) => member.role === 'facilitator').length;
+
+  const copyInvite = async (invite: BoardInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+      showToast(t('members.copied', { role: t(ROLE_LABELS[invite.role]) }), 'info');
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      showToast(t('members.copyFailed'));
+    }
+  };
+
+  const addInvite = async () => {
+    const invite = await createInvite(inviteRole);
+    if (invite) copyInvite(invite);
+  };
+
+  const selectClassName =
+    'px-2 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-xs bg-white';
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5 animate-in">
+      <div className="flex items-center gap-2 mb-4">
+        <div className="w-1 h-5 bg-gray-900"></div>
+        <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('members.title')}</h3>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {members.map((member) => {
+          const isSelf = member.user_id === user?.id;
+          // The database keeps at least one facilitator on every board
+          const isLastFacilitator = member.role === 'facilitator' && facilitatorCount === 1;
+
+          return (
+            <li key={member.user_id} className="flex items-center justify-between gap-3 py-2">
+              <span className="text-sm text-gray-900 font-medium truncate">
+                {member.users?.nickname || t('members.unknown')}
+                {isSelf && <span className="ml-1 text-xs text-gray-400">{t('members.you')}</span>}
+              </span>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <select
+                  value={member.role}
+                  onChange={(e) => onChangeRole(member, e.target.value as BoardRole)}
+                  disabled={isLastFacilitator}
+                  aria-label={t('members.roleOf', { name: member.users?.nickname || t('members.member') })}
+                  title={isLastFacilitator ? t('members.lastFacilitator') : undefined}
+                  className={`${selectClassName} disabled:text-gray-400 disabled:cursor-not-allowed`}
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {t(ROLE_LABELS[role])}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onRemove(member)}
+                  disabled={isLastFacilitator}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-red-500 hover:text-red-600 hover:bg-red-50 disabled:text-gray-300 disabled:hover:border-gray-300 disabled:hover:bg-white disabled:cursor-not-allowed transition-colors duration-150"
+                >
+                  {isSelf ? t('members.leave') : t('common.remove')}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-5">
+        <span className="block text-xs text-gray-600 font-medium mb-2">{t('members.invites')}</span>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <select
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as BoardRole)}
+            aria-label={t('members.inviteRole')}
+            className={selectClassName}
+          >
+            {ROLES.map((role) => (
+              <option key={role} value={role}>
+                {t(ROLE_LABELS[role])}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addInvite}
+            className="px-3 py-1.5 bg-gray-900 text-white rounded-md text-xs font-medium hover:bg-gray-800 transition-colors duration-150"
+          >
+            {t('members.createLink')}
+          </button>
+          <span className="text-xs text-gray-400 font-medium">{t(ROLE_DESCRIPTIONS[inviteRole])}</span>
+        </div>
+
+        {invites.length > 0 && (
+          <ul className="mt-3 space-y-2">
+            {invites.map((invite) => (
+              <li key={invite.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <span className="px-2 py-0.5 border border-gray-300 rounded-sm text-xs text-gray-700 font-medium bg-white flex-shrink-0 self-start sm:self-auto">
+                  {t(ROLE_LABELS[invite.role])}
+                </span>
+                <input
+                  type="text"
+                  readOnly
+                  value={inviteUrl(invite)}
+                  onFocus={(e) => e.target.select()}
+                  aria-label={t('members.inviteLink', { role: t(ROLE_LABELS[invite.role]) })}
+                  className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-600 bg-gray-50 focus:outline-none focus:border-gray-900"
+                />
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => copyInvite(invite)}
+                    className="px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+                  >
+                    {t('members.copy')}
+                  </button>
+                  <button
+                    onClick={() => revokeInvite(invite)}
+                    className="px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-colors duration-150"
+                  >
+                    {t('members.revoke')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-2 text-xs text-gray-400 font-medium">
+          {t('members.invitesHelp')}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default BoardMembers;
@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { insforge } from '../lib/insforge';
+import { confirmAction } from '../lib/confirm';
+import { getErrorMessage } from '../lib/errors';
+import { ANONYMITY_LABELS } from '../lib/anonymity';
+import { COLUMN_COLOR_LABELS, COLUMN_SWATCHES, saveBoardColumns, type ColumnDraft } from '../lib/columns';
+import { saveHealthMetrics, type HealthMetricDraft } from '../lib/healthCheck';
+import { useTranslation } from '../lib/i18n';
+import { showToast } from '../lib/toast';
+import type { Anonymity, BoardColumn, ColumnColor, HealthMetric, RetroBoard } from '../types';
+
+interface BoardSettingsProps {
+  board: RetroBoard;
+  columns: BoardColumn[];
+  healthMetrics: HealthMetric[];
+  itemCounts: Record<string, number>;
+  onSaved: (board: RetroBoard) => void;
+  onCancel: () => void;
+}
+
+const toDraft = ({ id, label, color, placeholder }: BoardColumn): ColumnDraft => ({ id, label, color, placeholder });
+
+const toMetricDraft = ({ id, label, description }: HealthMetric): HealthMetricDraft => ({ id, label, description });
+
+function BoardSettings({ board, columns, healthMetrics, itemCounts, onSaved, onCancel }: BoardSettingsProps) {
+  const { t } = useTranslation();
+  const [voteBudget, setVoteBudget] = useState(String(board.vote_budget));
+  const [maxVotesPerItem, setMaxVotesPerItem] = useState(String(board.max_votes_per_item));
+  const [anonymity, setAnonymity] = useState<Anonymity>(board.anonymity);
+  const [columnDrafts, setColumnDrafts] = useState<ColumnDraft[]>(() => columns.map(toDraft));
+  const [metricDrafts, setMetricDrafts] = useState<HealthMetricDraft[]>(() => healthMetrics.map(toMetricDraft));
+  const [saving, setSaving] = useState(false);
+
+  const updateColumn = (index: number, changes: Partial<ColumnDraft>) => {
+    setColumnDrafts(columnDrafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columnDrafts.length) return;
+
+    const next = [...columnDrafts];
+    [next[index], next[target]] = [next[target], next[index]];
+    setColumnDrafts(next);
+  };
+
+  const removeColumn = (index: number) => {
+    setColumnDrafts(columnDrafts.filter((_, i) => i !== index));
+  };
+
+  const addColumn = () => {
+    setColumnDrafts([...columnDrafts, { label: '', color: 'gray', placeholder: null }]);
+  };
+
+  const updateMetric = (index: number, changes: Partial<HealthMetricDraft>) => {
+    setMetricDrafts(metricDrafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const removeMetric = (index: number) => {
+    setMetricDrafts(metricDrafts.filter((_, i) => i !== index));
+  };
+
+  const addMetric = () => {
+    setMetricDrafts([...metricDrafts, { label: '', description: null }]);
+  };
+
+  const saveSettings = async () => {
+    const budget = Number(voteBudget);
+    const perItem = Number(maxVotesPerItem);
+
+    if (!Number.isInteger(budget) || budget < 1) {
+      showToast(t('settings.invalidBudget'));
+      return;
+    }
+    if (!Number.isInteger(perItem) || perItem < 1 || perItem > budget) {
+      showToast(t('settings.invalidPerCard'));
+      return;
+    }
+    if (columnDrafts.length === 0) {
+      showToast(t('settings.noColumns'));
+      return;
+    }
+    if (columnDrafts.some((draft) => !draft.label.trim())) {
+      showToast(t('settings.unnamedColumn'));
+      return;
+    }
+    if (metricDrafts.some((draft) => !draft.label.trim())) {
+      showToast(t('settings.unnamedMetric'));
+      return;
+    }
+
+    const keptIds = new Set(columnDrafts.map((draft) => draft.id));
+    const removedCards = columns
+      .filter((column) => !keptIds.has(column.id))
+      .reduce((total, column) => total + (itemCounts[column.id] ?? 0), 0);
+    if (
+      removedCards > 0 &&
+      !(await confirmAction(t('settings.removeColumnsConfirm', { count: removedCards }), {
+        confirmLabel: t('settings.deleteCards'),
+      }))
+    ) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data, error } = await insforge.database
+        .from('retro_boards')
+        .update({ vote_budget: budget, max_votes_per_item: perItem, anonymity })
+        .eq('id', board.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      await saveBoardColumns(board.id, columns, columnDrafts);
+      await saveHealthMetrics(board.id, healthMetrics, metricDrafts);
+      onSaved(data);
+    } catch (error) {
+      console.error('Error saving board settings:', error);
+      showToast(getErrorMessage(error, t('settings.saveFailed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-sm bg-white';
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5 animate-in">
+      <div className="flex items-center gap-2 mb-4">
+        <div className="w-1 h-5 bg-gray-900"></div>
+        <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('settings.title')}</h3>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-600 font-medium mb-1">{t('settings.votesPerPerson')}</span>
+          <input
+            type="number"
+            min={1}
+            value={voteBudget}
+            onChange={(e) => setVoteBudget(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600 font-medium mb-1">{t('settings.maxVotesPerCard')}</span>
+          <input
+            type="number"
+            min={1}
+            value={maxVotesPerItem}
+            onChange={(e) => setMaxVotesPerItem(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block sm:col-span-2">
+          <span className="block text-xs text-gray-600 font-medium mb-1">{t('settings.anonymity')}</span>
+          <select
+            value={anonymity}
+            onChange={(e) => setAnonymity(e.target.value as Anonymity)}
+            className={inputClassName}
+          >
+            {(Object.keys(ANONYMITY_LABELS) as Anonymity[]).map((option) => (
+              <option key={option} value={option}>
+                {t(ANONYMITY_LABELS[option])}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-gray-400 font-medium">
+        {t('settings.votesHelp')}
+      </p>
+
+      <div className="mt-5">
+        <span className="block text-xs text-gray-600 font-medium mb-2">{t('settings.columns')}</span>
+        <ul className="space-y-2">
+          {columnDrafts.map((draft, index) => (
+            <li key={draft.id ?? `new-${index}`} className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <div className="flex items-center gap-2 sm:w-56 flex-shrink-0">
+                <span className={`w-3 h-3 rounded-full flex-shrink-0 ${COLUMN_SWATCHES[draft.color]}`}></span>
+                <input
+                  type="text"
+                  value={draft.label}
+                  onChange={(e) => updateColumn(index, { label: e.target.value })}
+                  placeholder={t('settings.columnName')}
+                  aria-label={t('settings.columnName')}
+                  className={inputClassName}
+                />
+              </div>
+              <select
+                value={draft.color}
+                onChange={(e) => updateColumn(index, { color: e.target.value as ColumnColor })}
+                aria-label={t('settings.columnColor')}
+                className={`${inputClassName} sm:w-32 flex-shrink-0`}
+              >
+                {(Object.keys(COLUMN_SWATCHES) as ColumnColor[]).map((color) => (
+                  <option key={color} value={color}>
+                    {t(COLUMN_COLOR_LABELS[color])}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={draft.placeholder ?? ''}
+                onChange={(e) => updateColumn(index, { placeholder: e.target.value })}
+                placeholder={t('settings.columnPromptPlaceholder')}
+                aria-label={t('settings.columnPrompt')}
+                className={inputClassName}
+              />
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => moveColumn(index, -1)}
+                  disabled={index === 0}
+                  className="w-8 h-8 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-gray-900 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors duration-150"
+                  title={t('settings.moveLeft')}
+                  aria-label={t('settings.moveColumnLeft')}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => moveColumn(index, 1)}
+                  disabled={index === columnDrafts.length - 1}
+                  className="w-8 h-8 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-gray-900 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors duration-150"
+                  title={t('settings.moveRight')}
+                  aria-label={t('settings.moveColumnRight')}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => removeColumn(index)}
+                  className="w-8 h-8 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-colors duration-150"
+                  title={t('settings.removeColumn')}
+                  aria-label={t('settings.removeColumn')}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={addColumn}
+          className="mt-2 px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+        >
+          {t('settings.addColumn')}
+        </button>
+        <p className="mt-2 text-xs text-gray-400 font-medium">
+          {t('settings.columnsHelp')}
+        </p>
+      </div>
+
+      <div className="mt-5">
+        <span className="block text-xs text-gray-600 font-medium mb-2">{t('settings.healthCheck')}</span>
+        <ul className="space-y-2">
+          {metricDrafts.map((draft, index) => (
+            <li key={draft.id ?? `new-${index}`} className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <input
+                type="text"
+                value={draft.label}
+                onChange={(e) => updateMetric(index, { label: e.target.value })}
+                placeholder={t('settings.metricPlaceholder')}
+                aria-label={t('settings.metric')}
+                className={`${inputClassName} sm:w-56 flex-shrink-0`}
+              />
+              <input
+                type="text"
+                value={draft.description ?? ''}
+                onChange={(e) => updateMetric(index, { description: e.target.value })}
+                placeholder={t('settings.questionPlaceholder')}
+                aria-label={t('settings.question')}
+                className={inputClassName}
+              />
+              <button
+                onClick={() => removeMetric(index)}
+                className="w-8 h-8 flex-shrink-0 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-colors duration-150"
+                title={t('settings.removeMetric')}
+                aria-label={t('settings.removeMetricLabel')}
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={addMetric}
+          className="mt-2 px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+        >
+          {t('settings.addMetric')}
+        </button>
+        <p className="mt-2 text-xs text-gray-400 font-medium">
+          {t('settings.metricsHelp')}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2 mt-4">
+        <button
+          onClick={saveSettings}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-900 text-white rounded-md text-xs hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150 font-medium"
+        >
+          {t('settings.save')}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BoardSettings;
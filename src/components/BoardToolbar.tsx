@@ -0,0 +1,109 @@
+import { SORT_LABELS, SORT_MODES, isFiltering, type BoardFilters } from '../lib/boardFilters';
+import { useTranslation, type MessageKey } from '../lib/i18n';
+import type { SortMode } from '../lib/items';
+import type { UserSummary } from '../types';
+
+interface BoardToolbarProps {
+  filters: BoardFilters;
+  // Omitted when the board hides authors, since cards can't be told apart by author then
+  authors?: UserSummary[];
+  matchCount: number;
+  totalCount: number;
+  onChange: (changes: Partial<BoardFilters>) => void;
+  onClear: () => void;
+}
+
+const FLAGS: { key: 'mine' | 'voted' | 'hasComments'; label: MessageKey }[] = [
+  { key: 'mine', label: 'toolbar.mine' },
+  { key: 'voted', label: 'toolbar.voted' },
+  { key: 'hasComments', label: 'toolbar.hasComments' },
+];
+
+// Search, filters and sort order for the cards on a board.
+function BoardToolbar({ filters, authors, matchCount, totalCount, onChange, onClear }: BoardToolbarProps) {
+  const { t } = useTranslation();
+  const selectClassName =
+    'px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 bg-white focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900';
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-center gap-2 mb-6" role="search">
+      <div className="relative flex-1 min-w-0 lg:max-w-xs">
+        <svg
+          className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400 pointer-events-none"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          strokeWidth={1.5}
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+        </svg>
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder={t('toolbar.search')}
+          aria-label={t('toolbar.search')}
+          className="w-full pl-8 pr-2.5 py-1.5 border border-gray-300 rounded-md text-xs bg-white focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150"
+        />
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        {authors && (
+          <select
+            value={filters.author ?? ''}
+            onChange={(e) => onChange({ author: e.target.value || null })}
+            aria-label={t('toolbar.author')}
+            className={selectClassName}
+          >
+            <option value="">{t('toolbar.anyAuthor')}</option>
+            {authors.map((author) => (
+              <option key={author.id} value={author.id}>
+                {author.nickname}
+              </option>
+            ))}
+          </select>
+        )}
+        {FLAGS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onChange({ [key]: !filters[key] })}
+            aria-pressed={filters[key]}
+            className={`px-2.5 py-1.5 border rounded-md text-xs font-medium transition-colors duration-150 ${
+              filters[key]
+                ? 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800'
+                : 'bg-white text-gray-700 border-gray-300 hover:border-gray-900 hover:bg-gray-50'
+            }`}
+          >
+            {t(label)}
+          </button>
+        ))}
+        <select
+          value={filters.sort}
+          onChange={(e) => onChange({ sort: e.target.value as SortMode })}
+          aria-label={t('toolbar.sort')}
+          className={selectClassName}
+        >
+          {SORT_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {t(SORT_LABELS[mode])}
+            </option>
+          ))}
+        </select>
+        {isFiltering(filters) && (
+          <>
+            <span className="text-xs text-gray-500 font-medium" aria-live="polite">
+              {t('toolbar.matches', { count: matchCount, total: totalCount })}
+            </span>
+            <button
+              onClick={onClear}
+              className="text-xs text-gray-600 hover:text-gray-900 font-medium underline transition-colors duration-150"
+            >
+              {t('toolbar.clear')}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BoardToolbar;
@@ -0,0 +1,1137 @@
+import { useState, useEffect, useCallback, useRef, type DragEvent, type KeyboardEvent } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from '../lib/insforge';
+import { confirmAction } from '../lib/confirm';
+import { getErrorMessage } from '../lib/errors';
+import { navigate } from '../lib/router';
+import ActionItemsPanel from './ActionItemsPanel';
+import BoardMembers from './BoardMembers';
+import BoardSettings from './BoardSettings';
+import BoardToolbar from './BoardToolbar';
+import ExportMenu from './ExportMenu';
+import HealthCheckPanel from './HealthCheckPanel';
+import ItemGroupCard from './ItemGroupCard';
+import KeyboardShortcuts from './KeyboardShortcuts';
+import MentionTextarea from './MentionTextarea';
+import PresentMode, { type PresentationChanges } from './PresentMode';
+import RetroItemCard from './RetroItemCard';
+import { useActionItems } from '../lib/actionItems';
+import { announce } from '../lib/announcer';
+import { ANONYMITY_LABELS, hidesAuthors } from '../lib/anonymity';
+import { getAttachmentError } from '../lib/attachments';
+import { formatBoardDates } from '../lib/boards';
+import { filterItems, useBoardFilters } from '../lib/boardFilters';
+import { CARD_MOVES, getNextCard, isShortcutTarget } from '../lib/boardKeyboard';
+import { COLUMN_COLORS, getColumnLabel, getColumnPlaceholder, getGridColumnsClass } from '../lib/columns';
+import { useItemGroups } from '../lib/groups';
+import { useHealthCheck } from '../lib/healthCheck';
+import { useTranslation, type MessageKey } from '../lib/i18n';
+import { useBoardMembers } from '../lib/members';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, canWriteBoard } from '../lib/roles';
+import { useRepository } from '../lib/repository';
+import { showToast } from '../lib/toast';
+import { createPendingId, isPendingId, useWriteQueue } from '../lib/writeQueue';
+import { applyBoardChange, clusterItems, getGroupMembers, sortItems, type BoardChange } from '../lib/items';
+import { collectVotes, countUserVotes, getVotesRemaining } from '../lib/votes';
+import { getTopicEndsAt, getTopics } from '../lib/present';
+import { useBoardChannel, useBoardEvent, type ConnectionStatus } from '../lib/realtime';
+import {
+  PHASES,
+  PHASE_DESCRIPTIONS,
+  PHASE_LABELS,
+  canAddItems,
+  canGroup,
+  canVote,
+  getAdjacentPhase,
+  hidesOthersItems,
+  isReadOnly,
+} from '../lib/phases';
+import type { Attachment, BoardColumn, Comment, Reaction, RetroBoard, RetroItem, RetroPhase, Vote } from '../types';
+
+const CONNECTION_LABELS: Record<ConnectionStatus, MessageKey> = {
+  connecting: 'board.connecting',
+  live: 'board.live',
+  reconnecting: 'board.reconnecting',
+};
+
+// Beyond this many votes the budget is shown as text only
+const MAX_VOTE_DOTS = 12;
+
+interface BoardViewProps {
+  boardId: string;
+}
+
+function BoardView({ boardId }: BoardViewProps) {
+  const { user } = useUser();
+  const { t } = useTranslation();
+  const repository = useRepository();
+  const [board, setBoard] = useState<RetroBoard | null>(null);
+  const [items, setItems] = useState<RetroItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [newItemContent, setNewItemContent] = useState<Record<string, string>>({});
+  const [draggedIds, setDraggedIds] = useState<string[] | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // The topic a participant stepped out of present mode on; the next topic pulls them back in
+  const [leftTopicId, setLeftTopicId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const fetchColumns = useCallback(async () => {
+    try {
+      const { data, error } = await insforge.database
+        .from('board_columns')
+        .select('*')
+        .eq('board_id', boardId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      setColumns(data || []);
+    } catch (error) {
+      console.error('Error fetching columns:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load columns.'));
+    }
+  }, [boardId]);
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      const { data, error } = await insforge.database
+        .from('retro_boards')
+        .select('*')
+        .eq('id', boardId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setBoard(data);
+      setNotFound(!data);
+    } catch (error) {
+      console.error('Error fetching board:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load board.'));
+    }
+  }, [boardId]);
+
+  const { perform, reapplyPending, queuedCount, online } = useWriteQueue({
+    boardId,
+    repository,
+    setItems,
+    onSynced: () => fetchItems(true),
+  });
+
+  // A silent fetch resyncs the board in place without swapping it for the loading state.
+  const fetchItems = useCallback(async (silent = false) => {
+    try {
+      if (!silent) setLoading(true);
+      const loaded = await repository.listItems(boardId);
+      setItems(reapplyPending(loaded));
+    } catch (error) {
+      console.error('Error fetching items:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load items.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [boardId, repository, reapplyPending]);
+
+  useEffect(() => {
+    fetchBoard();
+    fetchColumns();
+    fetchItems();
+  }, [fetchBoard, fetchColumns, fetchItems]);
+
+  const applyChange = (change: BoardChange) => {
+    setItems((current) => applyBoardChange(current, change));
+  };
+
+  const updateBoard = (updated: RetroBoard) => {
+    // The views mask identities per the anonymity setting, and other people's text while
+    // writing, so a change to either needs fresh data
+    const writingChanged = !!board && hidesOthersItems(updated.phase) !== hidesOthersItems(board.phase);
+    if (board && (updated.anonymity !== board.anonymity || writingChanged)) {
+      fetchItems(true);
+    }
+    setBoard(updated);
+  };
+
+  const actionItems = useActionItems(board);
+  const itemGroups = useItemGroups(boardId, () => fetchItems(true));
+  const members = useBoardMembers(boardId);
+  const healthCheck = useHealthCheck(board);
+  const boardFilters = useBoardFilters();
+
+  // Screen readers hear about cards other people add. Authors can be masked, so our own cards are
+  // recognised by the copy we're still waiting on or have already saved.
+  const announceChange = (change: BoardChange) => {
+    if (change.entity !== 'item' || change.action !== 'created') return;
+
+    const record = change.record;
+    const isOwn =
+      (!!user && record.created_by === user.id) ||
+      items.some(
+        (item) =>
+          item.id === record.id ||
+          (isPendingId(item.id) && item.column_id === record.column_id && item.content === record.content)
+      );
+    if (isOwn) return;
+
+    const column = columns.find((candidate) => candidate.id === record.column_id);
+    const where = t('board.newCardIn', { column: column ? getColumnLabel(column) : t('board.anotherColumn') });
+    // Other people's cards are blurred while writing, so their text isn't read out either
+    announce(hidesOthersItems(phase) ? where : `${where}: ${record.content}`);
+  };
+
+  // Card text goes out scrambled while writing, our own included, so our own cards are reloaded
+  // from the view instead.
+  const isOwnScrambledChange = (change: BoardChange) =>
+    change.entity === 'item' &&
+    change.action !== 'deleted' &&
+    hidesOthersItems(phase) &&
+    ((!!user && change.record.created_by === user.id) ||
+      items.some((item) => item.id === change.record.id && isItemOwner(item)));
+
+  const connectionStatus = useBoardChannel(boardId, {
+    onChange: (change) => {
+      announceChange(change);
+      if (isOwnScrambledChange(change)) {
+        fetchItems(true);
+      } else {
+        applyChange(change);
+      }
+    },
+    onBoardUpdated: updateBoard,
+    onResync: () => {
+      fetchBoard();
+      fetchColumns();
+      fetchItems(true);
+      itemGroups.refresh();
+      actionItems.refresh();
+      members.refresh();
+    },
+  });
+
+  // Published by the `publish_columns_change` trigger, see db/migrations/007_board_columns.sql.
+  useBoardEvent(boardId, 'board.columns_changed', () => {
+    fetchColumns();
+    // Removing a column also removes its cards
+    fetchItems(true);
+  });
+
+  // Published by `set_item_hidden`, see db/migrations/013_board_roles.sql. Hidden cards aren't
+  // broadcast, so everyone reloads to see which cards they may still see.
+  useBoardEvent(boardId, 'board.items_moderated', () => {
+    fetchItems(true);
+  });
+
+  const phase: RetroPhase = board?.phase ?? 'write';
+  const isFacilitator = members.role === 'facilitator';
+  // Nicknames can repeat; one suggestion per name is enough
+  const mentionNames = [
+    ...new Set(members.members.flatMap((member) => (member.users?.nickname ? [member.users.nickname] : []))),
+  ];
+  // Observers only follow along; the database rejects their writes as well
+  const canParticipate = canWriteBoard(members.role);
+
+  const changePhase = async (nextPhase: RetroPhase) => {
+    if (!board || !isFacilitator) return;
+
+    if (
+      nextPhase === 'done' &&
+      !(await confirmAction(t('board.finishConfirm'), {
+        confirmLabel: t('board.finish'),
+        tone: 'default',
+      }))
+    ) {
+      return;
+    }
+
+    try {
+      // Leaving the discuss phase also ends a presentation
+      const { data, error } = await insforge.database
+        .from('retro_boards')
+        .update({ phase: nextPhase, ...(nextPhase !== 'discuss' && { present_item_id: null, present_ends_at: null }) })
+        .eq('id', board.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setBoard(data);
+    } catch (error) {
+      console.error('Error changing phase:', error);
+      showToast(getErrorMessage(error, t('board.phaseFailed')));
+    }
+  };
+
+  const updatePresentation = async (changes: PresentationChanges) => {
+    if (!board || !isFacilitator) return;
+
+    try {
+      const { data, error } = await insforge.database
+        .from('retro_boards')
+        .update(changes)
+        .eq('id', board.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setBoard(data);
+    } catch (error) {
+      console.error('Error updating presentation:', error);
+      showToast(getErrorMessage(error, t('board.presentationFailed')));
+    }
+  };
+
+  // How our own records look until the server returns them with the nickname filled in
+  const ownUser = user ? { nickname: user.name || user.email } : null;
+
+  const addItem = (columnId: string) => {
+    const content = newItemContent[columnId]?.trim();
+    if (!content || !user || !canParticipate || !canAddItems(phase)) return;
+
+    const input = { board_id: boardId, column_id: columnId, content, created_by: user.id };
+    const record: RetroItem = {
+      ...input,
+      id: createPendingId(),
+      created_at: new Date().toISOString(),
+      edited_at: null,
+      hidden_at: null,
+      group_id: null,
+      votes: [],
+      comments: [],
+      users: ownUser,
+    };
+    perform({
+      change: { entity: 'item', action: 'created', record },
+      rollback: { entity: 'item', action: 'deleted', record },
+      send: async () => ({ entity: 'item', action: 'created', record: await repository.createItem(input) }),
+      failureMessage: t('board.addFailed'),
+    });
+    setNewItemContent({ ...newItemContent, [columnId]: '' });
+    const column = columns.find((candidate) => candidate.id === columnId);
+    announce(t('board.cardAdded', { column: column ? getColumnLabel(column) : t('board.theBoard') }));
+  };
+
+  const addVote = (itemId: string) => {
+    if (!user || !board || !canParticipate || !canVote(phase)) return;
+
+    const item = items.find((candidate) => candidate.id === itemId);
+    if (!item) return;
+    const remaining = getVotesRemaining(board, items, user.id);
+    if (remaining === 0) {
+      showToast(t('board.outOfVotes', { count: board.vote_budget }), 'info');
+      return;
+    }
+    // The per-card limit applies to a group as a whole
+    if (countUserVotes(collectVotes(getGroupMembers(items, item)), user.id) >= board.max_votes_per_item) {
+      return;
+    }
+
+    const input = { board_id: boardId, retro_item_id: itemId, user_id: user.id };
+    const record: Vote = { ...input, id: createPendingId(), users: ownUser };
+    perform({
+      change: { entity: 'vote', action: 'created', record },
+      rollback: { entity: 'vote', action: 'deleted', record },
+      send: async () => ({ entity: 'vote', action: 'created', record: await repository.addVote(input) }),
+      failureMessage: t('board.voteFailed'),
+      itemId,
+      conflictMessage: t('board.voteDropped'),
+    });
+    announce(
+      t('board.voteAdded', { left: t('board.votesLeft', { remaining: remaining - 1, count: board.vote_budget }) })
+    );
+  };
+
+  const removeVote = (itemId: string) => {
+    if (!user || !canParticipate || !canVote(phase)) return;
+
+    const item = items.find((candidate) => candidate.id === itemId);
+    if (!item) return;
+
+    // Take back the most recent of the user's saved dots on this item, or anywhere in its group
+    const existingVote = collectVotes(getGroupMembers(items, item))
+      .filter((vote) => vote.user_id === user.id && !isPendingId(vote.id))
+      .at(-1);
+    if (!existingVote) return;
+
+    perform({
+      change: { entity: 'vote', action: 'deleted', record: existingVote },
+      rollback: { entity: 'vote', action: 'created', record: existingVote },
+      send: async () => {
+        await repository.removeVote(existingVote);
+        return { entity: 'vote', action: 'deleted', record: existingVote };
+      },
+      failureMessage: t('board.unvoteFailed'),
+      itemId: existingVote.retro_item_id,
+    });
+    if (board) {
+      announce(
+        t('board.voteRemoved', {
+          left: t('board.votesLeft', {
+            remaining: getVotesRemaining(board, items, user.id) + 1,
+            count: board.vote_budget,
+          }),
+        })
+      );
+    }
+  };
+
+  // `parentId` makes the comment a reply; the server files replies to a reply under its thread
+  const addComment = async (itemId: string, text: string, parentId: string | null = null) => {
+    const content = text.trim();
+    if (!content || !user || !canParticipate || isPendingId(itemId)) return false;
+    if (parentId && isPendingId(parentId)) return false;
+
+    const input = { board_id: boardId, retro_item_id: itemId, user_id: user.id, content, parent_id: parentId };
+    const record: Comment = {
+      ...input,
+      id: createPendingId(),
+      created_at: new Date().toISOString(),
+      edited_at: null,
+      users: ownUser,
+    };
+    perform({
+      change: { entity: 'comment', action: 'created', record },
+      rollback: { entity: 'comment', action: 'deleted', record },
+      send: async () => ({ entity: 'comment', action: 'created', record: await repository.addComment(input) }),
+      failureMessage: t('board.commentFailed'),
+      itemId,
+      conflictMessage: t('board.commentDropped'),
+    });
+    return true;
+  };
+
+  // Until the server answers, an edit keeps the old `edited_at` so that rolling back still applies.
+  const editItem = async (item: RetroItem, text: string) => {
+    const content = text.trim();
+    if (!content || !isItemOwner(item) || !canParticipate || isReadOnly(phase) || isPendingId(item.id)) return false;
+
+    perform({
+      change: { entity: 'item', action: 'updated', record: { ...item, content } },
+      rollback: { entity: 'item', action: 'updated', record: item },
+      send: async () => ({ entity: 'item', action: 'updated', record: await repository.updateItem(item, content) }),
+      failureMessage: t('board.editFailed'),
+      itemId: item.id,
+      conflictMessage: t('board.editDropped'),
+    });
+    return true;
+  };
+
+  const editComment = async (comment: Comment, text: string) => {
+    const content = text.trim();
+    if (!content || !isCommentOwner(comment) || !canParticipate || isReadOnly(phase) || isPendingId(comment.id)) {
+      return false;
+    }
+
+    perform({
+      change: { entity: 'comment', action: 'updated', record: { ...comment, content } },
+      rollback: { entity: 'comment', action: 'updated', record: comment },
+      send: async () => ({
+        entity: 'comment',
+        action: 'updated',
+        record: await repository.updateComment(comment, content),
+      }),
+      failureMessage: t('board.editFailed'),
+      itemId: comment.retro_item_id,
+      conflictMessage: t('board.commentEditDropped'),
+    });
+    return true;
+  };
+
+  const deleteItem = async (item: RetroItem) => {
+    if (!user || isPendingId(item.id)) return;
+
+    if (!(await confirmAction(t('board.deleteItemConfirm')))) {
+      return;
+    }
+
+    perform({
+      change: { entity: 'item', action: 'deleted', record: item },
+      rollback: { entity: 'item', action: 'created', record: item },
+      send: async () => {
+        await repository.deleteItem(item);
+        return { entity: 'item', action: 'deleted', record: item };
+      },
+      failureMessage: t('board.deleteItemFailed'),
+      itemId: item.id,
+    });
+  };
+
+  const deleteComment = async (comment: Comment) => {
+    if (!user || isPendingId(comment.id)) return;
+
+    const hasReplies = items.some((item) =>
+      item.comments?.some((candidate) => candidate.parent_id === comment.id)
+    );
+    if (
+      !(await confirmAction(
+        hasReplies
+          ? t('board.deleteThreadConfirm')
+          : t('board.deleteCommentConfirm')
+      ))
+    ) {
+      return;
+    }
+
+    perform({
+      change: { entity: 'comment', action: 'deleted', record: comment },
+      rollback: { entity: 'comment', action: 'created', record: comment },
+      send: async () => {
+        await repository.deleteComment(comment);
+        return { entity: 'comment', action: 'deleted', record: comment };
+      },
+      failureMessage: t('board.deleteCommentFailed'),
+      itemId: comment.retro_item_id,
+    });
+  };
+
+  // Reacting again with the same emoji takes the reaction back
+  const toggleReaction = (item: RetroItem, commentId: string | null, emoji: string) => {
+    if (!user || !canParticipate || isReadOnly(phase) || isPendingId(item.id)) return;
+    if (commentId && isPendingId(commentId)) return;
+
+    const existing = item.reactions?.find(
+      (reaction) => reaction.comment_id === commentId && reaction.emoji === emoji && reaction.user_id === user.id
+    );
+    if (existing) {
+      if (isPendingId(existing.id)) return;
+      perform({
+        change: { entity: 'reaction', action: 'deleted', record: existing },
+        rollback: { entity: 'reaction', action: 'created', record: existing },
+        send: async () => {
+          await repository.removeReaction(existing);
+          return { entity: 'reaction', action: 'deleted', record: existing };
+        },
+        failureMessage: t('board.reactionRemoveFailed'),
+        itemId: item.id,
+      });
+      return;
+    }
+
+    const input = { board_id: boardId, retro_item_id: item.id, comment_id: commentId, user_id: user.id, emoji };
+    const record: Reaction = { ...input, id: createPendingId(), created_at: new Date().toISOString(), users: ownUser };
+    perform({
+      change: { entity: 'reaction', action: 'created', record },
+      rollback: { entity: 'reaction', action: 'deleted', record },
+      send: async () => ({ entity: 'reaction', action: 'created', record: await repository.addReaction(input) }),
+      failureMessage: t('board.reactionAddFailed'),
+      itemId: item.id,
+      conflictMessage: t('board.reactionDropped'),
+    });
+  };
+
+  // Uploads aren't optimistic: the card can only show an image once the storage has it
+  const attachImages = async (item: RetroItem, files: File[]) => {
+    if (!user || !canParticipate || isReadOnly(phase) || isPendingId(item.id)) return;
+
+    let attachedCount = item.attachments?.length || 0;
+    for (const file of files) {
+      const invalid = getAttachmentError(file, attachedCount);
+      if (invalid) {
+        showToast(invalid);
+        return;
+      }
+      try {
+        const record = await repository.addAttachment(
+          { board_id: boardId, retro_item_id: item.id, user_id: user.id },
+          file
+        );
+        applyChange({ entity: 'attachment', action: 'created', record });
+        attachedCount += 1;
+      } catch (error) {
+        console.error('Error attaching image:', error);
+        showToast(getErrorMessage(error, t('board.attachFailed')));
+        return;
+      }
+    }
+  };
+
+  const removeAttachment = async (attachment: Attachment) => {
+    if (!user) return;
+
+    if (!(await confirmAction(t('board.removeImageConfirm', { file: attachment.file_name }), { confirmLabel: t('common.remove') }))) {
+      return;
+    }
+
+    perform({
+      change: { entity: 'attachment', action: 'deleted', record: attachment },
+      rollback: { entity: 'attachment', action: 'created', record: attachment },
+      send: async () => {
+        await repository.removeAttachment(attachment);
+        return { entity: 'attachment', action: 'deleted', record: attachment };
+      },
+      failureMessage: t('board.removeImageFailed'),
+      itemId: attachment.retro_item_id,
+    });
+  };
+
+  const toggleItemHidden = async (item: RetroItem) => {
+    if (!isFacilitator || isPendingId(item.id)) return;
+
+    try {
+      await repository.setItemHidden(item, !item.hidden_at);
+      fetchItems(true);
+    } catch (error) {
+      console.error('Error hiding item:', error);
+      showToast(getErrorMessage(error, t('board.hideFailed')));
+    }
+  };
+
+  const getItemsByColumn = (columnId: string) => {
+    return items.filter((item) => item.column_id === columnId);
+  };
+
+  // What the toolbar's search, filters and sort order leave on the board
+  const getVisibleItemsByColumn = (columnId: string) => {
+    return visibleItems.filter((item) => item.column_id === columnId);
+  };
+
+  const getUserVoteCount = (item: RetroItem) => {
+    return user ? countUserVotes(item.votes, user.id) : 0;
+  };
+
+  const votesRemaining = board && user ? getVotesRemaining(board, items, user.id) : 0;
+
+  const isItemOwner = (item: RetroItem) => {
+    return !!user && item.created_by === user.id;
+  };
+
+  const isCommentOwner = (comment: Comment) => {
+    return !!user && comment.user_id === user.id;
+  };
+
+  const isItemHidden = (item: RetroItem) => {
+    return hidesOthersItems(phase) && !isItemOwner(item);
+  };
+
+  // Ranked over every card, so a filter only decides what is shown, never a group's place
+  const visibleItems = filterItems(
+    sortItems(items, boardFilters.filters.sort),
+    boardFilters.filters,
+    user?.id,
+    isItemHidden
+  );
+
+  // A drop is only useful if it moves at least one card into a different group
+  const canDropOn = (targetItemId: string) => {
+    if (!draggedIds || draggedIds.includes(targetItemId)) return false;
+    const target = items.find((item) => item.id === targetItemId);
+    return items.some(
+      (item) => draggedIds.includes(item.id) && (!target?.group_id || item.group_id !== target.group_id)
+    );
+  };
+
+  // Cards (or whole groups) are dragged onto another card to group them with it
+  const getDragProps = (itemIds: string[], targetItemId: string) => {
+    if (!canParticipate || !canGroup(phase)) return {};
+
+    return {
+      draggable: true,
+      className: `cursor-grab rounded-md ${dropTargetId === targetItemId ? 'ring-2 ring-gray-900 ring-offset-2' : ''}`,
+      onDragStart: (e: DragEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', itemIds.join(','));
+        setDraggedIds(itemIds);
+      },
+      onDragEnd: () => {
+        setDraggedIds(null);
+        setDropTargetId(null);
+      },
+      onDragOver: (e: DragEvent<HTMLDivElement>) => {
+        if (!canDropOn(targetItemId)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTargetId(targetItemId);
+      },
+      onDragLeave: (e: DragEvent<HTMLDivElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setDropTargetId((current) => (current === targetItemId ? null : current));
+        }
+      },
+      onDrop: (e: DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (draggedIds && canDropOn(targetItemId)) {
+          itemGroups.groupItems(draggedIds, targetItemId);
+        }
+        setDraggedIds(null);
+        setDropTargetId(null);
+      },
+    };
+  };
+
+  const renderItem = (item: RetroItem) => (
+    <RetroItemCard
+      item={item}
+      phase={phase}
+      mentionNames={mentionNames}
+      isOwner={canParticipate && isItemOwner(item)}
+      canModerate={isFacilitator}
+      canParticipate={canParticipate}
+      canReact={canParticipate && !isReadOnly(phase) && !isPendingId(item.id)}
+      canAttach={canParticipate && (isItemOwner(item) || isFacilitator) && !isReadOnly(phase) && !isPendingId(item.id)}
+      isHidden={isItemHidden(item)}
+      userVoteCount={getUserVoteCount(item)}
+      maxVotesPerItem={board?.max_votes_per_item ?? 1}
+      votesRemaining={votesRemaining}
+      isPending={isPendingId(item.id)}
+      isCommentOwner={(comment) => canParticipate && isCommentOwner(comment) && !isPendingId(comment.id)}
+      onAddVote={() => addVote(item.id)}
+      onRemoveVote={() => removeVote(item.id)}
+      onDelete={() => deleteItem(item)}
+      onToggleHidden={isFacilitator ? () => toggleItemHidden(item) : undefined}
+      onEdit={(content) => editItem(item, content)}
+      onAddComment={(content, parentId) => addComment(item.id, content, parentId)}
+      onEditComment={editComment}
+      onDeleteComment={deleteComment}
+      onToggleReaction={(commentId, emoji) => toggleReaction(item, commentId, emoji)}
+      canRemoveAttachment={(attachment) => isFacilitator || (!!user && attachment.user_id === user.id)}
+      onAttachImages={(files) => attachImages(item, files)}
+      onRemoveAttachment={removeAttachment}
+      isActionItem={actionItems.actionItems.some((actionItem) => actionItem.retro_item_id === item.id)}
+      onPromote={
+        !canParticipate || isReadOnly(phase) || isPendingId(item.id) ? undefined : () => actionItems.promote(item)
+      }
+      isGrouped={!!item.group_id}
+      onUngroup={
+        item.group_id && canParticipate && canGroup(phase) ? () => itemGroups.ungroupItems([item.id]) : undefined
+      }
+    />
+  );
+
+  // Arrow keys move between cards as they're laid out, with the toolbar's filters and groups applied
+  const moveFocus = (e: KeyboardEvent<HTMLDivElement>) => {
+    const move = CARD_MOVES[e.key];
+    const grid = gridRef.current;
+    const cardId = e.target instanceof HTMLElement ? e.target.dataset.cardId : undefined;
+    if (!move || !grid || !cardId || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const cardIds = [...grid.querySelectorAll<HTMLElement>('[data-column-id]')].map((column) =>
+      [...column.querySelectorAll<HTMLElement>('[data-card-id]')].flatMap((card) =>
+        card.dataset.cardId ? [card.dataset.cardId] : []
+      )
+    );
+    const next = getNextCard(cardIds, cardId, move);
+    e.preventDefault();
+    if (next) grid.querySelector<HTMLElement>(`[data-card-id="${CSS.escape(next)}"]`)?.focus();
+  };
+
+  // "n" starts a card in the focused card's column, or the first one; "?" lists the shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (!isShortcutTarget(e)) return;
+
+      if (e.key === '?') {
+        e.preventDefault();
+        setShowShortcuts(true);
+      } else if (e.key === 'n') {
+        const column =
+          document.activeElement?.closest('[data-column-id]') ?? gridRef.current?.querySelector('[data-column-id]');
+        const textarea = column?.querySelector<HTMLTextAreaElement>('[data-new-item]');
+        if (textarea) {
+          e.preventDefault();
+          textarea.focus();
+        }
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const topics = getTopics(items);
+  const isPresenting = !!board?.present_item_id;
+
+  const startPresentation = () => {
+    if (topics.length === 0) return;
+    updatePresentation({
+      present_item_id: topics[0].items[0].id,
+      present_ends_at: getTopicEndsAt(board?.topic_minutes ?? 5),
+    });
+  };
+
+  const previousPhase = getAdjacentPhase(phase, -1);
+  const nextPhase = getAdjacentPhase(phase, 1);
+
+  if (notFound) {
+    return (
+      <div className="text-center py-20">
+        <div className="max-w-sm mx-auto">
+          <p className="text-sm text-gray-600 mb-6 font-medium">
+            {t('board.notFound')}
+          </p>
+          <button
+            onClick={() => navigate('/')}
+            className="px-6 py-2.5 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors duration-150 text-sm font-medium"
+          >
+            {t('board.backToBoards')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2 mb-6">
+        <div className="min-w-0">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900 font-medium transition-colors duration-150 mb-2"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+            </svg>
+            {t('common.allBoards')}
+          </button>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900 tracking-tight truncate">
+            {board?.name}
+          </h2>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-gray-500 font-medium">
+          {board?.sprint_label && (
+            <span className="px-2 py-0.5 border border-gray-300 rounded-sm text-gray-700 bg-white">
+              {board.sprint_label}
+            </span>
+          )}
+          {board && <span>{formatBoardDates(board)}</span>}
+          {members.role && (
+            <span
+              className="px-2 py-0.5 border border-gray-300 rounded-sm text-gray-700 bg-white"
+              title={t(ROLE_DESCRIPTIONS[members.role])}
+            >
+              {t(ROLE_LABELS[members.role])}
+            </span>
+          )}
+          {board && board.anonymity !== 'none' && (
+            <span className="px-2 py-0.5 border border-gray-300 rounded-sm text-gray-700 bg-white">
+              {t(ANONYMITY_LABELS[board.anonymity])}
+            </span>
+          )}
+          <span className="flex items-center gap-1.5" title={t('board.connection')}>
+            <span
+              className={`w-1.5 h-1.5 rounded-full ${
+                connectionStatus === 'live' ? 'bg-green-500' : 'bg-amber-400 animate-pulse'
+              }`}
+            ></span>
+            {t(CONNECTION_LABELS[connectionStatus])}
+          </span>
+          {(!online || queuedCount > 0) && (
+            <span className="px-2 py-0.5 border border-amber-300 rounded-sm text-amber-800 bg-amber-50" role="status">
+              {online ? t('board.syncing') : t('board.offline')}
+              {queuedCount > 0 && ` · ${t('board.queued', { count: queuedCount })}`}
+            </span>
+          )}
+          <button
+            onClick={() => setShowShortcuts(true)}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+            aria-keyshortcuts="?"
+            title={t('shortcuts.buttonTitle')}
+          >
+            {t('shortcuts.button')}
+          </button>
+          {board && <ExportMenu board={board} columns={columns} items={items} groups={itemGroups.groups} />}
+        </div>
+      </div>
+
+      {/* Phase */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 mb-6 border border-gray-200 rounded-md p-3 sm:p-4">
+        <div className="min-w-0">
+          <ol className="flex items-center gap-1 flex-wrap" aria-label={t('board.phases')}>
+            {PHASES.map((step, index) => (
+              <li key={step} className="flex items-center gap-1">
+                {index > 0 && <span className="w-3 h-px bg-gray-300"></span>}
+                <span
+                  aria-current={step === phase ? 'step' : undefined}
+                  className={`px-2 py-0.5 rounded-sm text-xs font-medium border ${
+                    step === phase
+                      ? 'bg-gray-900 text-white border-gray-900'
+                      : PHASES.indexOf(step) < PHASES.indexOf(phase)
+                        ? 'text-gray-500 border-gray-300 bg-white'
+                        : 'text-gray-400 border-gray-200 bg-white'
+                  }`}
+                >
+                  {t(PHASE_LABELS[step])}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <p className="mt-2 text-xs text-gray-500 font-medium">{t(PHASE_DESCRIPTIONS[phase])}</p>
+          {board && canParticipate && canVote(phase) && (
+            <p className="mt-2 flex items-center gap-2 text-xs text-gray-700 font-medium">
+              {board.vote_budget <= MAX_VOTE_DOTS && (
+                <span className="flex items-center gap-1" aria-hidden="true">
+                  {Array.from({ length: board.vote_budget }, (_, index) => (
+                    <span
+                      key={index}
+                      className={`w-2 h-2 rounded-full border ${
+                        index < votesRemaining ? 'bg-gray-900 border-gray-900' : 'border-gray-300'
+                      }`}
+                    ></span>
+                  ))}
+                </span>
+              )}
+              {t('board.votesLeft', { remaining: votesRemaining, count: board.vote_budget })}
+              {board.max_votes_per_item > 1 && (
+                <span className="text-gray-400">· {t('board.perCard', { count: board.max_votes_per_item })}</span>
+              )}
+            </p>
+          )}
+        </div>
+        {isFacilitator && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {phase === 'discuss' && (
+              <button
+                onClick={startPresentation}
+                disabled={topics.length === 0}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors duration-150"
+                title={t('board.presentTitle')}
+              >
+                {t('board.present')}
+              </button>
+            )}
+            <button
+              onClick={() => setShowMembers(!showMembers)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+              aria-expanded={showMembers}
+            >
+              {t('board.members')}
+            </button>
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+              aria-expanded={showSettings}
+            >
+              {t('board.settings')}
+            </button>
+            {previousPhase && (
+              <button
+                onClick={() => changePhase(previousPhase)}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+              >
+                {t('board.backTo', { phase: t(PHASE_LABELS[previousPhase]) })}
+              </button>
+            )}
+            {nextPhase && (
+              <button
+                onClick={() => changePhase(nextPhase)}
+                className="px-3 py-1.5 bg-gray-900 text-white rounded-md text-xs font-medium hover:bg-gray-800 transition-colors duration-150"
+              >
+                {nextPhase === 'done' ? t('board.finish') : t('board.start', { phase: t(PHASE_LABELS[nextPhase]) })}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showShortcuts && <KeyboardShortcuts onClose={() => setShowShortcuts(false)} />}
+
+      {board && isPresenting && board.present_item_id !== leftTopicId && (
+        <PresentMode
+          board={board}
+          topics={topics}
+          columns={columns}
+          groups={itemGroups.groups}
+          mentionNames={mentionNames}
+          isFacilitator={isFacilitator}
+          canParticipate={canParticipate}
+          onChange={updatePresentation}
+          onLeave={() => setLeftTopicId(board.present_item_id)}
+        />
+      )}
+
+      {isPresenting && board?.present_item_id === leftTopicId && (
+        <div className="flex items-center justify-between gap-3 mb-6 border border-gray-900 rounded-md px-4 py-3">
+          <p className="text-xs text-gray-700 font-medium">{t('board.presenting')}</p>
+          <button
+            onClick={() => setLeftTopicId(null)}
+            className="px-3 py-1.5 bg-gray-900 text-white rounded-md text-xs font-medium hover:bg-gray-800 transition-colors duration-150"
+          >
+            {t('board.rejoin')}
+          </button>
+        </div>
+      )}
+
+      {board && isFacilitator && showSettings && (
+        <BoardSettings
+          board={board}
+          columns={columns}
+          healthMetrics={healthCheck.metrics}
+          itemCounts={Object.fromEntries(columns.map((column) => [column.id, getItemsByColumn(column.id).length]))}
+          onSaved={(updated) => {
+            updateBoard(updated);
+            fetchColumns();
+            healthCheck.refresh();
+            setShowSettings(false);
+          }}
+          onCancel={() => setShowSettings(false)}
+        />
+      )}
+
+      {isFacilitator && showMembers && (
+        <BoardMembers
+          boardId={boardId}
+          members={members.members}
+          onChangeRole={members.changeRole}
+          onRemove={members.removeMember}
+        />
+      )}
+
+      <HealthCheckPanel
+        metrics={healthCheck.metrics}
+        responses={healthCheck.responses}
+        trends={healthCheck.trends}
+        canAnswer={canParticipate}
+        isClosed={isReadOnly(phase)}
+        onAnswer={healthCheck.answer}
+      />
+
+      <ActionItemsPanel
+        actionItems={actionItems.actionItems}
+        carriedOver={actionItems.carriedOver}
+        canEdit={canParticipate}
+        canModerate={isFacilitator}
+        onUpdate={actionItems.update}
+        onRemove={actionItems.remove}
+      />
+
+      {!loading && items.length > 0 && (
+        <BoardToolbar
+          filters={boardFilters.filters}
+          authors={
+            board && hidesAuthors(board.anonymity)
+              ? undefined
+              : members.members.map((member) => ({ id: member.user_id, nickname: member.users?.nickname || t('common.anonymous') }))
+          }
+          matchCount={visibleItems.length}
+          totalCount={items.length}
+          onChange={boardFilters.setFilters}
+          onClear={boardFilters.clearFilters}
+        />
+      )}
+
+      {loading ? (
+        <div className="text-center py-16">
+          <div className="flex flex-col items-center gap-3">
+            <div className="w-6 h-6 border-2 border-gray-900 border-t-transparent animate-spin"></div>
+            <div className="text-sm text-gray-500 font-medium">{t('board.loading')}</div>
+          </div>
+        </div>
+      ) : (
+        <div
+          ref={gridRef}
+          onKeyDown={moveFocus}
+          className={`grid grid-cols-1 sm:grid-cols-2 ${getGridColumnsClass(columns.length)} gap-4 sm:gap-4 lg:gap-6`}
+        >
+          {columns.map((column) => (
+            <section
+              key={column.id}
+              aria-labelledby={`column-${column.id}`}
+              data-column-id={column.id}
+              className={`${COLUMN_COLORS[column.color]} border border-gray-200 rounded-md p-4 sm:p-5 transition-colors duration-150 hover:border-gray-300`}
+            >
+              <div className="flex items-center gap-2 mb-4">
+                <div className="w-1 h-5 bg-gray-900"></div>
+                <h2 id={`column-${column.id}`} className="text-base sm:text-lg font-semibold text-gray-900 tracking-tight">
+                  {getColumnLabel(column)}
+                </h2>
+              </div>
+
+              {/* Add new item */}
+              {canParticipate && canAddItems(phase) && (
+                <div className="mb-4 sm:mb-5">
+                  <MentionTextarea
+                    value={newItemContent[column.id] || ''}
+                    onChange={(content) => setNewItemContent({ ...newItemContent, [column.id]: content })}
+                    mentionNames={mentionNames}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                        e.preventDefault();
+                        addItem(column.id);
+                      } else if (e.key === 'Escape') {
+                        e.currentTarget.blur();
+                      }
+                    }}
+                    placeholder={getColumnPlaceholder(column)}
+                    aria-label={t('board.newCardIn', { column: getColumnLabel(column) })}
+                    aria-keyshortcuts="Control+Enter"
+                    data-new-item
+                    className="w-full p-3 border border-gray-300 rounded-md resize-none focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-sm bg-white overflow-y-auto max-h-64"
+                    rows={3}
+                  />
+                  <button
+                    onClick={() => addItem(column.id)}
+                    disabled={!newItemContent[column.id]?.trim()}
+                    className="mt-2 w-full px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150 font-medium text-sm"
+                  >
+                    {t('board.addItem')}
+                  </button>
+                </div>
+              )}
+
+              {/* Items list */}
+              <div className="space-y-3 sm:space-y-4">
+                {getVisibleItemsByColumn(column.id).length === 0 ? (
+                  <div className="text-center py-8 text-gray-400 text-xs font-medium">
+                    {getItemsByColumn(column.id).length > 0 ? t('board.noMatches') : t('board.empty')}
+                  </div>
+                ) : (
+                  clusterItems(getVisibleItemsByColumn(column.id)).map(({ groupId, items: groupItems }) => {
+                    const [lead] = groupItems;
+                    const memberIds = groupItems.map((groupItem) => groupItem.id);
+
+                    if (!groupId) {
+                      return (
+                        <div key={lead.id} {...getDragProps(memberIds, lead.id)}>
+                          {renderItem(lead)}
+                        </div>
+                      );
+                    }
+
+                    // The group's votes are on all of its cards, whether or not the filters show them
+                    const groupVotes = collectVotes(getGroupMembers(items, lead));
+                    return (
+                      <div key={groupId} {...getDragProps(memberIds, lead.id)}>
+                        <ItemGroupCard
+                          group={itemGroups.groups.find((group) => group.id === groupId)}
+                          cardCount={groupItems.length}
+                          votes={groupVotes}
+                          phase={phase}
+                          canParticipate={canParticipate}
+                          userVoteCount={user ? countUserVotes(groupVotes, user.id) : 0}
+                          maxVotesPerItem={board?.max_votes_per_item ?? 1}
+                          votesRemaining={votesRemaining}
+                          onAddVote={() => addVote(lead.id)}
+                          onRemoveVote={() => removeVote(lead.id)}
+                          onRename={
+                            canParticipate && canGroup(phase)
+                              ? (name) => {
+                                  const group = itemGroups.groups.find((candidate) => candidate.id === groupId);
+                                  if (group) itemGroups.renameGroup(group, name);
+                                }
+                              : undefined
+                          }
+                          onUngroup={
+                            canParticipate && canGroup(phase) ? () => itemGroups.ungroupItems(memberIds) : undefined
+                          }
+                        >
+                          {groupItems.map((groupItem) => (
+                            <div key={groupItem.id} {...getDragProps([groupItem.id], groupItem.id)}>
+                              {renderItem(groupItem)}
+                            </div>
+                          ))}
+                        </ItemGroupCard>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BoardView;
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import ContentEditor from './ContentEditor';
+import MentionTextarea from './MentionTextarea';
+import ReactionBar from './ReactionBar';
+import RelativeTime from './RelativeTime';
+import RevisionHistory from './RevisionHistory';
+import RichText from './RichText';
+import { useTranslation } from '../lib/i18n';
+import { isReadOnly } from '../lib/phases';
+import { reactionsOn } from '../lib/reactions';
+import type { CommentThread } from '../lib/items';
+import type { Comment, Reaction, RetroPhase } from '../types';
+
+interface CommentThreadCardProps {
+  thread: CommentThread;
+  // Every reaction on the card; the ones on these comments are picked out here
+  reactions: Reaction[] | undefined;
+  phase: RetroPhase;
+  // Nicknames of the board's members, for @mentions
+  mentionNames: string[];
+  // Facilitators can delete any comment
+  canModerate: boolean;
+  // False for observers, who can read the thread but not reply or react
+  canParticipate: boolean;
+  canReact: boolean;
+  isCommentOwner: (comment: Comment) => boolean;
+  onReply: (content: string) => Promise<boolean>;
+  onEditComment: (comment: Comment, content: string) => Promise<boolean>;
+  onDeleteComment: (comment: Comment) => void;
+  onToggleReaction: (comment: Comment, emoji: string) => void;
+}
+
+// A comment with its replies, which stay collapsed until asked for.
+function CommentThreadCard({
+  thread,
+  reactions,
+  phase,
+  mentionNames,
+  canModerate,
+  canParticipate,
+  canReact,
+  isCommentOwner,
+  onReply,
+  onEditComment,
+  onDeleteComment,
+  onToggleReaction,
+}: CommentThreadCardProps) {
+  const { t } = useTranslation();
+  const [showReplies, setShowReplies] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState('');
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+
+  const { comment, replies } = thread;
+  const canReply = canParticipate && !isReadOnly(phase);
+
+  const startReply = () => {
+    setIsReplying(true);
+    setShowReplies(true);
+  };
+
+  const addReply = async () => {
+    if (await onReply(reply)) {
+      setReply('');
+      setIsReplying(false);
+    }
+  };
+
+  const renderComment = (current: Comment, isReply: boolean) => (
+    <div
+      key={current.id}
+      className={`border border-gray-200 rounded-md p-3 ${isReply ? 'bg-white' : 'bg-gray-50'}`}
+    >
+      <div className="flex justify-between items-start gap-3">
+        <div className="flex-1 min-w-0">
+          {editingCommentId === current.id ? (
+            <ContentEditor
+              initialContent={current.content}
+              mentionNames={mentionNames}
+              onSave={(content) => onEditComment(current, content)}
+              onCancel={() => setEditingCommentId(null)}
+            />
+          ) : (
+            <RichText
+              text={current.content}
+              mentionNames={mentionNames}
+              className="text-gray-900 text-sm leading-relaxed mb-2 font-medium"
+            />
+          )}
+          <div className="flex items-center gap-2 flex-wrap">
+            <div className="w-4 h-4 border border-gray-300 rounded-sm flex items-center justify-center text-gray-700 text-xs font-semibold bg-white">
+              {(current.users?.nickname || 'A')[0].toUpperCase()}
+            </div>
+            <p className="text-xs text-gray-500 font-medium">
+              {current.users?.nickname || t('common.anonymous')} • <RelativeTime date={current.created_at} />
+            </p>
+            {current.edited_at && <RevisionHistory subject="comment" id={current.id} editedAt={current.edited_at} />}
+            {!isReply && canReply && (
+              <button
+                onClick={startReply}
+                className="text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+              >
+                {t('comments.reply')}
+              </button>
+            )}
+          </div>
+          <div className="mt-2">
+            <ReactionBar
+              reactions={reactionsOn(reactions, current.id)}
+              canReact={canReact}
+              onToggle={(emoji) => onToggleReaction(current, emoji)}
+            />
+          </div>
+        </div>
+        {(isCommentOwner(current) || canModerate) && !isReadOnly(phase) && editingCommentId !== current.id && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {isCommentOwner(current) && (
+              <button
+                onClick={() => setEditingCommentId(current.id)}
+                className="flex-shrink-0 w-5 h-5 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-gray-900 hover:text-gray-900 hover:bg-gray-50 transition-all duration-150"
+                title={t('comments.edit')}
+                aria-label={t('comments.edit')}
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={() => onDeleteComment(current)}
+              className="flex-shrink-0 w-5 h-5 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-all duration-150"
+              title={t('comments.delete')}
+              aria-label={t('comments.delete')}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+              </svg>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      {renderComment(comment, false)}
+      {(replies.length > 0 || isReplying) && (
+        <div className="ml-4 mt-2 pl-3 border-l border-gray-200 space-y-2">
+          {replies.length > 0 && (
+            <button
+              onClick={() => setShowReplies(!showReplies)}
+              aria-expanded={showReplies}
+              className="text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+            >
+              {showReplies
+                ? t('comments.hideReplies', { count: replies.length })
+                : t('comments.showReplies', { count: replies.length })}
+            </button>
+          )}
+          {showReplies && replies.map((current) => renderComment(current, true))}
+          {isReplying && (
+            <div>
+              <MentionTextarea
+                value={reply}
+                onChange={setReply}
+                mentionNames={mentionNames}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setIsReplying(false);
+                }}
+                autoFocus
+                placeholder={t('comments.replyPlaceholder')}
+                aria-label={t('comments.reply')}
+                className="w-full p-2.5 border border-gray-300 rounded-md resize-none focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-sm bg-white overflow-y-auto max-h-48"
+                rows={2}
+              />
+              <div className="flex items-center gap-2 mt-2">
+                <button
+                  onClick={addReply}
+                  disabled={!reply.trim()}
+                  className="px-3 py-1.5 bg-gray-900 text-white rounded-md text-xs hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150 font-medium"
+                >
+                  {t('comments.reply')}
+                </button>
+                <button
+                  onClick={() => setIsReplying(false)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+                >
+                  {t('common.cancel')}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CommentThreadCard;
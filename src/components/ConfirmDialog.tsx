@@ -0,0 +1,85 @@
+import { useEffect, useRef, type KeyboardEvent } from 'react';
+import { settleConfirm, useConfirmRequest } from '../lib/confirm';
+import { useTranslation } from '../lib/i18n';
+
+// The question passed to `confirmAction`. Keeps focus inside until answered and hands it back afterwards.
+function ConfirmDialog() {
+  const { t } = useTranslation();
+  const request = useConfirmRequest();
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const confirmRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!request) return;
+
+    const returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    // Destructive questions start on Cancel so a stray Enter doesn't delete anything
+    (request.tone === 'danger' ? cancelRef : confirmRef).current?.focus();
+
+    return () => {
+      if (returnFocus?.isConnected) returnFocus.focus();
+    };
+  }, [request]);
+
+  if (!request) return null;
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      settleConfirm(false);
+      return;
+    }
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      (document.activeElement === cancelRef.current ? confirmRef : cancelRef).current?.focus();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[80] bg-gray-900/30 flex items-center justify-center p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) settleConfirm(false);
+      }}
+    >
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+        aria-describedby="confirm-dialog-message"
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-sm bg-white border border-gray-200 rounded-md shadow-lg p-5 animate-in"
+      >
+        <div className="flex items-center gap-2 mb-3">
+          <div className="w-1 h-5 bg-gray-900"></div>
+          <h2 id="confirm-dialog-title" className="text-base font-semibold text-gray-900 tracking-tight">
+            {t('confirm.title')}
+          </h2>
+        </div>
+        <p id="confirm-dialog-message" className="text-sm text-gray-700 leading-relaxed">
+          {request.message}
+        </p>
+        <div className="flex justify-end gap-2 mt-5">
+          <button
+            ref={cancelRef}
+            onClick={() => settleConfirm(false)}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            ref={confirmRef}
+            onClick={() => settleConfirm(true)}
+            className={`px-4 py-2 text-white rounded-md text-sm font-medium transition-colors duration-150 ${
+              request.tone === 'danger' ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-900 hover:bg-gray-800'
+            }`}
+          >
+            {request.confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConfirmDialog;
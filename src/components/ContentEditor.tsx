@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import MentionTextarea from './MentionTextarea';
+import { useTranslation } from '../lib/i18n';
+
+interface ContentEditorProps {
+  initialContent: string;
+  mentionNames: string[];
+  // Resolves to false when saving failed, so the draft is kept
+  onSave: (content: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Inline editor for the text of an item or comment.
+function ContentEditor({ initialContent, mentionNames, onSave, onCancel }: ContentEditorProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(initialContent);
+  const [saving, setSaving] = useState(false);
+
+  const isUnchanged = draft.trim() === initialContent.trim();
+
+  const save = async () => {
+    if (isUnchanged) {
+      onCancel();
+      return;
+    }
+    setSaving(true);
+    const saved = await onSave(draft);
+    setSaving(false);
+    if (saved) onCancel();
+  };
+
+  return (
+    <div className="mb-2">
+      <MentionTextarea
+        value={draft}
+        onChange={setDraft}
+        mentionNames={mentionNames}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onCancel();
+        }}
+        autoFocus
+        aria-label={t('editor.label')}
+        className="w-full p-2.5 border border-gray-300 rounded-md resize-none focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-sm bg-white overflow-y-auto max-h-64"
+        rows={3}
+      />
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          onClick={save}
+          disabled={!draft.trim() || saving}
+          className="px-3 py-1.5 bg-gray-900 text-white rounded-md text-xs hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150 font-medium"
+        >
+          {t('common.save')}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ContentEditor;
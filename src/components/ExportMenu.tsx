@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { downloadFile, exportFileName, toBoardExport, toCsv, toMarkdown } from '../lib/export';
+import { useTranslation } from '../lib/i18n';
+import { hidesOthersItems } from '../lib/phases';
+import type { BoardColumn, ItemGroup, RetroBoard, RetroItem } from '../types';
+
+interface ExportMenuProps {
+  board: RetroBoard;
+  columns: BoardColumn[];
+  items: RetroItem[];
+  groups: ItemGroup[];
+}
+
+function ExportMenu({ board, columns, items, groups }: ExportMenuProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  // Other people's cards are still blurred while writing, so there is nothing fair to export yet.
+  const locked = hidesOthersItems(board.phase);
+
+  const exportAs = (format: 'markdown' | 'csv' | 'json') => {
+    setOpen(false);
+    switch (format) {
+      case 'markdown':
+        downloadFile(exportFileName(board, 'md'), toMarkdown(board, columns, items, groups), 'text/markdown');
+        break;
+      case 'csv':
+        // The byte order mark makes Excel read the file as UTF-8
+        downloadFile(exportFileName(board, 'csv'), `\uFEFF${toCsv(columns, items, groups)}`, 'text/csv');
+        break;
+      case 'json':
+        downloadFile(
+          exportFileName(board, 'json'),
+          JSON.stringify(toBoardExport(board, columns, items, groups), null, 2),
+          'application/json'
+        );
+        break;
+    }
+  };
+
+  const optionClassName =
+    'block w-full text-left px-3 py-2 text-xs text-gray-700 font-medium hover:bg-gray-50 hover:text-gray-900 transition-colors duration-150';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={locked}
+        title={locked ? t('export.lockedWhileWriting') : undefined}
+        className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 disabled:text-gray-400 disabled:hover:border-gray-300 disabled:hover:bg-white disabled:cursor-not-allowed transition-colors duration-150"
+        aria-expanded={open && !locked}
+        aria-haspopup="menu"
+      >
+        {t('export.button')}
+      </button>
+      {open && !locked && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-1 w-40 bg-white border border-gray-200 rounded-md shadow-sm z-10 py-1"
+        >
+          <button role="menuitem" onClick={() => exportAs('markdown')} className={optionClassName}>
+            Markdown (.md)
+          </button>
+          <button role="menuitem" onClick={() => exportAs('csv')} className={optionClassName}>
+            CSV (.csv)
+          </button>
+          <button role="menuitem" onClick={() => exportAs('json')} className={optionClassName}>
+            JSON (.json)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import {
+  HEALTH_SCORES,
+  MAX_HEALTH_SCORE,
+  MIN_HEALTH_RESPONSES,
+  SCORE_LABELS,
+  formatChange,
+  formatScore,
+  getMetricText,
+  type MetricTrend,
+} from '../lib/health';
+import { useTranslation } from '../lib/i18n';
+import type { HealthMetric, HealthResponse } from '../types';
+
+interface HealthCheckPanelProps {
+  metrics: HealthMetric[];
+  // The signed-in user's own answers
+  responses: HealthResponse[];
+  trends: MetricTrend[];
+  // False for observers, who see the results but don't answer
+  canAnswer: boolean;
+  // The survey closes when the retro is done
+  isClosed: boolean;
+  onAnswer: (metric: HealthMetric, score: number) => void;
+}
+
+// The team health survey: everyone rates each metric from 1 to 5 and sees the totals once it closes.
+function HealthCheckPanel({ metrics, responses, trends, canAnswer, isClosed, onAnswer }: HealthCheckPanelProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(true);
+
+  if (metrics.length === 0) {
+    return null;
+  }
+
+  const answered = metrics.filter((metric) => responses.some((response) => response.metric_id === metric.id)).length;
+
+  const renderResults = (trend: MetricTrend | undefined) => {
+    const average = trend?.result.average;
+    const counts = trend?.result.counts;
+    if (!trend || average == null || !counts) {
+      const count = trend?.result.response_count ?? 0;
+      return (
+        <p className="text-xs text-gray-400 font-medium">
+          {isClosed ? t('health.waiting', { count, min: MIN_HEALTH_RESPONSES }) : t('health.openCount', { count })}
+        </p>
+      );
+    }
+
+    const { result, previous, change, history } = trend;
+    const mostCommon = Math.max(1, ...counts);
+    const earlierAverages = history.map((point) => (point.average === null ? '–' : formatScore(point.average)));
+    return (
+      <div className="flex items-end gap-4">
+        <ol className="flex items-end gap-0.5 h-8" aria-label={t('health.answersLabel', { metric: getMetricText(result.label) })}>
+          {HEALTH_SCORES.map((score, index) => (
+            <li
+              key={score}
+              className="w-3 h-full flex items-end"
+              title={t('health.scoreCount', { score, label: t(SCORE_LABELS[score]), count: counts[index] ?? 0 })}
+            >
+              <span
+                className="w-full bg-gray-900 rounded-sm"
+                style={{ height: `${((counts[index] ?? 0) / mostCommon) * 100}%`, minHeight: 1 }}
+              ></span>
+            </li>
+          ))}
+        </ol>
+        <div>
+          <p className="text-base font-semibold text-gray-900 tabular-nums leading-none">
+            {formatScore(average)}
+          </p>
+          <p className="text-[10px] text-gray-400 font-medium mt-1">{t('health.answers', { count: result.response_count })}</p>
+        </div>
+        {previous && change !== null ? (
+          <div title={t('health.lastRetros', { averages: earlierAverages.join(', ') })}>
+            <p
+              className={`text-xs font-semibold tabular-nums ${
+                change > 0.05 ? 'text-green-600' : change < -0.05 ? 'text-red-600' : 'text-gray-500'
+              }`}
+            >
+              {formatChange(change)}
+            </p>
+            <p className="text-[10px] text-gray-400 font-medium">{t('health.vsLast')}</p>
+          </div>
+        ) : (
+          <p className="text-[10px] text-gray-400 font-medium">{t('health.firstTime')}</p>
+        )}
+        {history.length > 1 && (
+          <ol className="hidden sm:flex items-end gap-0.5 h-8" aria-label={t('health.historyLabel', { metric: getMetricText(result.label) })}>
+            {history.map((point) => (
+              <li key={point.board_id} className="w-1.5 h-full flex items-end">
+                <span
+                  className={`w-full rounded-sm ${point === result ? 'bg-gray-900' : 'bg-gray-300'}`}
+                  style={{ height: `${((point.average ?? 0) / MAX_HEALTH_SCORE) * 100}%`, minHeight: 1 }}
+                ></span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5">
+      <div className="flex items-center gap-2">
+        <div className="w-1 h-5 bg-gray-900"></div>
+        <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('health.title')}</h3>
+        <span className="text-xs text-gray-400 font-medium">
+          {isClosed
+            ? t('health.closed')
+            : canAnswer
+              ? t('health.progress', { answered, count: metrics.length })
+              : t('health.anonymous')}
+        </span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          aria-expanded={expanded}
+          className="ml-auto text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+        >
+          {expanded ? t('health.hide') : t('health.show')}
+        </button>
+      </div>
+
+      {expanded && (
+        <ul className="mt-3 divide-y divide-gray-100">
+          {metrics.map((metric) => {
+            const ownScore = responses.find((response) => response.metric_id === metric.id)?.score;
+            return (
+              <li key={metric.id} className="py-3 flex flex-col lg:flex-row lg:items-center gap-3">
+                <div className="lg:w-64 flex-shrink-0 min-w-0">
+                  <p className="text-sm text-gray-900 font-semibold">{getMetricText(metric.label)}</p>
+                  {metric.description && (
+                    <p className="text-xs text-gray-500 font-medium">{getMetricText(metric.description)}</p>
+                  )}
+                </div>
+                {canAnswer && !isClosed && (
+                  <div role="radiogroup" aria-label={getMetricText(metric.label)} className="flex items-center gap-1 flex-shrink-0">
+                    {HEALTH_SCORES.map((score) => (
+                      <button
+                        key={score}
+                        role="radio"
+                        aria-checked={ownScore === score}
+                        onClick={() => onAnswer(metric, score)}
+                        title={t(SCORE_LABELS[score])}
+                        className={`w-8 h-8 border rounded-md text-xs font-semibold tabular-nums transition-colors duration-150 ${
+                          ownScore === score
+                            ? 'bg-gray-900 text-white border-gray-900'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-gray-900 hover:bg-gray-50'
+                        }`}
+                      >
+                        {score}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="lg:ml-auto">{renderResults(trends.find((trend) => trend.result.metric_id === metric.id))}</div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default HealthCheckPanel;
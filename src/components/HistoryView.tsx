@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react';
+import { insforge } from '../lib/insforge';
+import { getErrorMessage } from '../lib/errors';
+import {
+  findRecurringKeywords,
+  formatPercent,
+  getCompletionRate,
+  getNegativeRatio,
+  getSentimentCounts,
+} from '../lib/analytics';
+import { formatBoardDates } from '../lib/boards';
+import { COLUMN_SWATCHES, getColumnLabel } from '../lib/columns';
+import { MAX_HEALTH_SCORE, formatScore, getMetricKey, getMetricLabels, getMetricText } from '../lib/health';
+import { useTranslation } from '../lib/i18n';
+import { boardPath, navigate } from '../lib/router';
+import TrendChart, { type TrendPoint } from './TrendChart';
+import type { ActionItem, BoardStats, ColumnStats, HealthResult, RetroBoard } from '../types';
+
+interface HistoryData {
+  boards: RetroBoard[];
+  stats: BoardStats[];
+  columns: ColumnStats[];
+  actionItems: Pick<ActionItem, 'board_id' | 'status'>[];
+  items: { board_id: string; content: string }[];
+  health: HealthResult[];
+}
+
+const EMPTY_HISTORY: HistoryData = { boards: [], stats: [], columns: [], actionItems: [], items: [], health: [] };
+
+const shortLabel = (board: RetroBoard) => board.sprint_label || board.name;
+
+function HistoryView() {
+  const { t } = useTranslation();
+  const [history, setHistory] = useState<HistoryData>(EMPTY_HISTORY);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      const [boardsResult, statsResult, columnsResult, actionItemsResult, itemsResult, healthResult] = await Promise.all([
+        insforge.database.from('retro_boards').select('*').order('created_at', { ascending: true }),
+        insforge.database.from('board_stats').select('*'),
+        insforge.database.from('board_column_stats').select('*').order('position', { ascending: true }),
+        insforge.database.from('action_items').select('board_id, status'),
+        // Card text feeds the keyword search; the view keeps authors masked as usual
+        insforge.database.from('board_items').select('board_id, content'),
+        insforge.database.from('board_health_results').select('*'),
+      ]);
+
+      if (boardsResult.error) throw boardsResult.error;
+      if (statsResult.error) throw statsResult.error;
+      if (columnsResult.error) throw columnsResult.error;
+      if (actionItemsResult.error) throw actionItemsResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (healthResult.error) throw healthResult.error;
+      setHistory({
+        boards: boardsResult.data || [],
+        stats: statsResult.data || [],
+        columns: columnsResult.data || [],
+        actionItems: actionItemsResult.data || [],
+        items: itemsResult.data || [],
+        health: healthResult.data || [],
+      });
+    } catch (error) {
+      console.error('Error fetching history:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load retro history.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const { boards, stats, columns, actionItems, items, health } = history;
+  const statsFor = (board: RetroBoard) => stats.find((row) => row.board_id === board.id);
+  const columnsFor = (board: RetroBoard) => columns.filter((column) => column.board_id === board.id);
+  const actionItemsFor = (board: RetroBoard) => actionItems.filter((actionItem) => actionItem.board_id === board.id);
+
+  const trend = (value: (board: RetroBoard) => number | null): TrendPoint[] =>
+    boards.map((board) => ({ id: board.id, label: shortLabel(board), value: value(board) }));
+
+  const healthAverage = (board: RetroBoard, label: string) =>
+    health.find((result) => result.board_id === board.id && getMetricKey(result.label) === getMetricKey(label))
+      ?.average ?? null;
+
+  // Cards on a board still in the write phase are hidden from everyone but their authors
+  const writingBoardIds = new Set(boards.filter((board) => board.phase === 'write').map((board) => board.id));
+  const keywords = findRecurringKeywords(items.filter((item) => !writingBoardIds.has(item.board_id)));
+  const healthLabels = getMetricLabels(health);
+  const overallCompletion = getCompletionRate(actionItems);
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-6 h-6 border-2 border-gray-900 border-t-transparent animate-spin"></div>
+          <div className="text-sm text-gray-500 font-medium">{t('history.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/')}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900 font-medium transition-colors duration-150 mb-2"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+          </svg>
+          {t('common.allBoards')}
+        </button>
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-900 tracking-tight">{t('history.title')}</h2>
+      </div>
+
+      {boards.length === 0 ? (
+        <div className="text-center py-16 text-gray-400 text-xs font-medium">
+          {t('history.empty')}
+        </div>
+      ) : (
+        <>
+          {/* Trends */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <TrendChart
+              title={t('history.negativeRatio')}
+              points={trend((board) => getNegativeRatio(columnsFor(board)))}
+              formatValue={(value) => value.toFixed(1)}
+            />
+            <TrendChart
+              title={t('history.completion')}
+              points={trend((board) => getCompletionRate(actionItemsFor(board)))}
+              formatValue={formatPercent}
+              max={1}
+            />
+            <TrendChart title={t('history.participants')} points={trend((board) => statsFor(board)?.participant_count ?? 0)} />
+            <TrendChart title={t('history.totalVotes')} points={trend((board) => statsFor(board)?.vote_count ?? 0)} />
+          </div>
+
+          {/* Team health */}
+          {healthLabels.length > 0 && (
+            <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5">
+              <div className="flex items-center gap-2 mb-3">
+                <div className="w-1 h-5 bg-gray-900"></div>
+                <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('history.health')}</h3>
+                <span className="text-xs text-gray-400 font-medium">{t('history.healthHelp')}</span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {healthLabels.map((label) => (
+                  <TrendChart
+                    key={label}
+                    title={getMetricText(label)}
+                    points={trend((board) => healthAverage(board, label))}
+                    formatValue={formatScore}
+                    max={MAX_HEALTH_SCORE}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Recurring themes */}
+          <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-3">
+              <div className="w-1 h-5 bg-gray-900"></div>
+              <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('history.themes')}</h3>
+              <span className="text-xs text-gray-400 font-medium">{t('history.themesHelp')}</span>
+            </div>
+            {keywords.length === 0 ? (
+              <p className="text-xs text-gray-400 font-medium">{t('history.noThemes')}</p>
+            ) : (
+              <ul className="flex flex-wrap gap-2">
+                {keywords.map((keyword) => (
+                  <li
+                    key={keyword.word}
+                    className="px-2 py-1 border border-gray-300 rounded-sm text-xs text-gray-700 font-medium bg-white"
+                    title={t('history.mentions', { count: keyword.mentions })}
+                  >
+                    {keyword.word}
+                    <span className="ml-1.5 text-gray-400">{t('history.inRetros', { count: keyword.boards })}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Past retros */}
+          <div className="border border-gray-200 rounded-md p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-3">
+              <div className="w-1 h-5 bg-gray-900"></div>
+              <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('history.pastRetros')}</h3>
+              {overallCompletion !== null && (
+                <span className="text-xs text-gray-400 font-medium">
+                  {t('history.overallDone', { percent: formatPercent(overallCompletion) })}
+                </span>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left">
+                <thead>
+                  <tr className="text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">{t('history.retro')}</th>
+                    <th className="py-2 pr-4 font-medium">{t('history.cards')}</th>
+                    <th className="py-2 pr-4 font-medium text-right">{t('history.participants')}</th>
+                    <th className="py-2 pr-4 font-medium text-right">{t('history.votes')}</th>
+                    <th className="py-2 font-medium text-right">{t('history.actionItemsDone')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...boards].reverse().map((board) => {
+                    const boardStats = statsFor(board);
+                    const boardColumns = columnsFor(board);
+                    const boardActionItems = actionItemsFor(board);
+                    const { positive, negative } = getSentimentCounts(boardColumns);
+                    return (
+                      <tr key={board.id} className="border-b border-gray-100 last:border-b-0 align-top">
+                        <td className="py-2.5 pr-4">
+                          <a
+                            href={boardPath(board.id)}
+                            onClick={(e) => {
+                              if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+                              e.preventDefault();
+                              navigate(boardPath(board.id));
+                            }}
+                            className="text-gray-900 font-semibold hover:underline"
+                          >
+                            {board.name}
+                          </a>
+                          <p className="text-gray-400 font-medium">
+                            {[board.sprint_label, formatBoardDates(board)].filter(Boolean).join(' · ')}
+                          </p>
+                        </td>
+                        <td className="py-2.5 pr-4">
+                          <div className="flex flex-wrap gap-x-3 gap-y-1">
+                            {boardColumns.map((column) => (
+                              <span key={column.column_id} className="flex items-center gap-1 text-gray-700 font-medium">
+                                <span className={`w-2 h-2 rounded-full ${COLUMN_SWATCHES[column.color]}`}></span>
+                                {getColumnLabel(column)} {column.item_count}
+                              </span>
+                            ))}
+                          </div>
+                          {positive + negative > 0 && (
+                            <p className="text-gray-400 font-medium mt-1">
+                              {t('history.sentiment', { negative, positive })}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-2.5 pr-4 text-right tabular-nums text-gray-700 font-medium">
+                          {boardStats?.participant_count ?? 0}
+                        </td>
+                        <td className="py-2.5 pr-4 text-right tabular-nums text-gray-700 font-medium">
+                          {boardStats?.vote_count ?? 0}
+                        </td>
+                        <td className="py-2.5 text-right tabular-nums text-gray-700 font-medium">
+                          {boardActionItems.length === 0
+                            ? '–'
+                            : t('history.doneOf', {
+                                done: boardActionItems.filter((actionItem) => actionItem.status === 'done').length,
+                                count: boardActionItems.length,
+                              })}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default HistoryView;
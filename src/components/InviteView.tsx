@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { insforge } from '../lib/insforge';
+import { getErrorMessage } from '../lib/errors';
+import { useTranslation } from '../lib/i18n';
+import { boardPath, navigate } from '../lib/router';
+
+interface InviteViewProps {
+  token: string;
+}
+
+// Landing page of an invite link: joins the board, then opens it.
+function InviteView({ token }: InviteViewProps) {
+  const { t } = useTranslation();
+  // Kept as thrown, so the fallback message follows the language
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const acceptInvite = async () => {
+      try {
+        const { data, error } = await insforge.database.rpc('accept_invite', { invite_token: token });
+
+        if (error) throw error;
+        if (!cancelled) navigate(boardPath(data as string));
+      } catch (error) {
+        console.error('Error accepting invite:', error);
+        if (!cancelled) setError(error);
+      }
+    };
+
+    acceptInvite();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  if (error) {
+    return (
+      <div className="text-center py-20">
+        <div className="max-w-sm mx-auto">
+          <p className="text-sm text-gray-600 mb-6 font-medium">{getErrorMessage(error, t('invite.joinFailed'))}</p>
+          <button
+            onClick={() => navigate('/')}
+            className="px-6 py-2.5 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors duration-150 text-sm font-medium"
+          >
+            {t('board.backToBoards')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center py-16">
+      <div className="flex flex-col items-center gap-3">
+        <div className="w-6 h-6 border-2 border-gray-900 border-t-transparent animate-spin"></div>
+        <div className="text-sm text-gray-500 font-medium">{t('invite.joining')}</div>
+      </div>
+    </div>
+  );
+}
+
+export default InviteView;
@@ -0,0 +1,121 @@
+import { useState, type ReactNode } from 'react';
+import VoteControls from './VoteControls';
+import { useTranslation } from '../lib/i18n';
+import type { ItemGroup, RetroPhase, Vote } from '../types';
+
+interface ItemGroupCardProps {
+  // Undefined while the group list is still catching up with a fresh group
+  group: ItemGroup | undefined;
+  cardCount: number;
+  votes: Vote[];
+  phase: RetroPhase;
+  canParticipate: boolean;
+  userVoteCount: number;
+  maxVotesPerItem: number;
+  votesRemaining: number;
+  onAddVote: () => void;
+  onRemoveVote: () => void;
+  // Omitted when groups can't be changed in this phase
+  onRename?: (name: string) => void;
+  onUngroup?: () => void;
+  // The member cards
+  children: ReactNode;
+}
+
+function ItemGroupCard({
+  group,
+  cardCount,
+  votes,
+  phase,
+  canParticipate,
+  userVoteCount,
+  maxVotesPerItem,
+  votesRemaining,
+  onAddVote,
+  onRemoveVote,
+  onRename,
+  onUngroup,
+  children,
+}: ItemGroupCardProps) {
+  const { t } = useTranslation();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const startRenaming = () => {
+    setName(group?.name ?? '');
+    setIsRenaming(true);
+  };
+
+  const saveName = () => {
+    onRename?.(name);
+    setIsRenaming(false);
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-300 rounded-md p-3 sm:p-4">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          <svg className="w-4 h-4 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6.429 9.75L2.25 12l4.179 2.25m0-4.5l5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0l4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0l-5.571 3-5.571-3" />
+          </svg>
+          {isRenaming ? (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveName();
+                if (e.key === 'Escape') setIsRenaming(false);
+              }}
+              onBlur={saveName}
+              autoFocus
+              aria-label={t('groups.name')}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900"
+            />
+          ) : (
+            <h3 className="text-sm font-semibold text-gray-900 break-words min-w-0">{group?.name ?? t('groups.untitled')}</h3>
+          )}
+          <span className="text-xs text-gray-400 font-medium flex-shrink-0">{t('groups.cards', { count: cardCount })}</span>
+        </div>
+        {!isRenaming && (onRename || onUngroup) && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {onRename && group && (
+              <button
+                onClick={startRenaming}
+                className="text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+              >
+                {t('groups.rename')}
+              </button>
+            )}
+            {onUngroup && (
+              <button
+                onClick={onUngroup}
+                className="text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+                title={t('groups.ungroupTitle')}
+              >
+                {t('groups.ungroup')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 mb-3 flex-wrap">
+        <VoteControls
+          votes={votes}
+          phase={phase}
+          canParticipate={canParticipate}
+          userVoteCount={userVoteCount}
+          maxVotesPerItem={maxVotesPerItem}
+          votesRemaining={votesRemaining}
+          onAddVote={onAddVote}
+          onRemoveVote={onRemoveVote}
+        />
+      </div>
+
+      <div className="space-y-2">{children}</div>
+    </div>
+  );
+}
+
+export default ItemGroupCard;
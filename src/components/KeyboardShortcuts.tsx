@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { KEYBOARD_SHORTCUTS } from '../lib/boardKeyboard';
+import { useTranslation } from '../lib/i18n';
+
+interface KeyboardShortcutsProps {
+  onClose: () => void;
+}
+
+// The "?" help on a board.
+function KeyboardShortcuts({ onClose }: KeyboardShortcutsProps) {
+  const { t } = useTranslation();
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    closeRef.current?.focus();
+
+    return () => {
+      if (returnFocus?.isConnected) returnFocus.focus();
+    };
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 z-[75] bg-gray-900/30 flex items-center justify-center p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="keyboard-shortcuts-title"
+        onKeyDown={(e) => {
+          // The close button is the only stop, so Tab stays in the dialog
+          if (e.key === 'Escape' || e.key === 'Tab') {
+            e.preventDefault();
+            if (e.key === 'Escape') onClose();
+          }
+        }}
+        className="w-full max-w-md bg-white border border-gray-200 rounded-md shadow-lg p-5 animate-in"
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <div className="w-1 h-5 bg-gray-900"></div>
+          <h2 id="keyboard-shortcuts-title" className="text-base font-semibold text-gray-900 tracking-tight">
+            {t('shortcuts.title')}
+          </h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="ml-auto w-6 h-6 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-gray-900 hover:text-gray-900 hover:bg-gray-50 transition-colors duration-150"
+            aria-label={t('common.close')}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 font-medium mb-3">
+          {t('shortcuts.intro')}
+        </p>
+        <dl className="space-y-2">
+          {KEYBOARD_SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+              <dt className="text-gray-700 font-medium">{t(shortcut.description)}</dt>
+              <dd className="flex items-center gap-1 flex-shrink-0">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="px-1.5 py-0.5 min-w-[1.5rem] text-center border border-gray-300 rounded-sm text-xs text-gray-700 font-medium bg-gray-50"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
+
+export default KeyboardShortcuts;
@@ -0,0 +1,27 @@
+import { LOCALES, LOCALE_NAMES, isLocale, useTranslation } from '../lib/i18n';
+import { useLocalePreference } from '../lib/preferences';
+
+// Picks the language for this person only; everyone on a board can use a different one.
+function LanguageSwitch() {
+  const { t } = useTranslation();
+  const { locale, changeLocale } = useLocalePreference();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) changeLocale(e.target.value);
+      }}
+      aria-label={t('app.language')}
+      className="px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium bg-white hover:border-gray-900 focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150"
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option}>
+          {LOCALE_NAMES[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default LanguageSwitch;
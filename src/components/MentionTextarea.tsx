@@ -0,0 +1,135 @@
+import { useId, useLayoutEffect, useRef, useState, type TextareaHTMLAttributes } from 'react';
+import { useTranslation } from '../lib/i18n';
+import { getMentionQuery, toMentionHandle } from '../lib/markdown';
+
+type MentionTextareaProps = Omit<TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> & {
+  value: string;
+  onChange: (value: string) => void;
+  // Nicknames of the board's members, suggested after typing "@"
+  mentionNames: string[];
+};
+
+const MAX_SUGGESTIONS = 5;
+
+// A textarea that completes "@" mentions of the board's members. It grows with its text from `rows`
+// up to the max height in `className`, then scrolls.
+function MentionTextarea({ value, onChange, mentionNames, onKeyDown, className, ...props }: MentionTextareaProps) {
+  const { t } = useTranslation();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const listId = useId();
+  const [query, setQuery] = useState<{ query: string; start: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query
+    ? mentionNames
+        .filter((name) => toMentionHandle(name).toLowerCase().startsWith(query.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const isOpen = suggestions.length > 0;
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    // Shrink first so deleting text makes it smaller again; the border isn't part of scrollHeight
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight + textarea.offsetHeight - textarea.clientHeight}px`;
+  }, [value]);
+
+  const updateQuery = (textarea: HTMLTextAreaElement) => {
+    const next =
+      textarea.selectionStart === textarea.selectionEnd ? getMentionQuery(textarea.value, textarea.selectionStart) : null;
+    if (next?.query !== query?.query || next?.start !== query?.start) {
+      setActiveIndex(0);
+    }
+    setQuery(next);
+  };
+
+  const pick = (name: string) => {
+    const textarea = textareaRef.current;
+    if (!query || !textarea) return;
+
+    const inserted = `@${toMentionHandle(name)} `;
+    const caret = textarea.selectionStart;
+    onChange(value.slice(0, query.start) + inserted + value.slice(caret));
+    setQuery(null);
+
+    const nextCaret = query.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target);
+        }}
+        onSelect={(e) => updateQuery(e.currentTarget)}
+        onBlur={() => setQuery(null)}
+        onKeyDown={(e) => {
+          if (isOpen) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+              e.preventDefault();
+              const step = e.key === 'ArrowDown' ? 1 : -1;
+              setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+              return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+              e.preventDefault();
+              pick(suggestions[activeIndex] ?? suggestions[0]);
+              return;
+            }
+            if (e.key === 'Escape') {
+              // Closes the suggestions only, not whatever editor the textarea sits in
+              e.preventDefault();
+              setQuery(null);
+              return;
+            }
+          }
+          onKeyDown?.(e);
+        }}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? listId : undefined}
+        aria-activedescendant={isOpen ? `${listId}-${activeIndex}` : undefined}
+        className={className}
+      />
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label={t('mentions.label')}
+          className="absolute left-0 z-20 mt-1 min-w-[12rem] bg-white border border-gray-300 rounded-md shadow-sm py-1"
+        >
+          {suggestions.map((name, index) => (
+            <li
+              key={name}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Picking on mouse down keeps the textarea from losing focus first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(name);
+              }}
+              className={`px-3 py-1.5 text-xs font-medium cursor-pointer ${
+                index === activeIndex ? 'bg-gray-900 text-white' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {name} <span className={index === activeIndex ? 'text-gray-300' : 'text-gray-400'}>@{toMentionHandle(name)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default MentionTextarea;
@@ -0,0 +1,258 @@
+import RichText from './RichText';
+import { getColumnLabel } from '../lib/columns';
+import { useTranslation } from '../lib/i18n';
+import { collectVotes } from '../lib/votes';
+import {
+  EXTEND_MINUTES,
+  TOPIC_MINUTE_OPTIONS,
+  findTopicIndex,
+  formatCountdown,
+  getTopicEndsAt,
+  useCountdown,
+  useTopicVotes,
+} from '../lib/present';
+import { getCommentThreads, type ItemCluster } from '../lib/items';
+import type { BoardColumn, ItemGroup, RetroBoard } from '../types';
+
+export type PresentationChanges = Partial<Pick<RetroBoard, 'present_item_id' | 'present_ends_at' | 'topic_minutes'>>;
+
+interface PresentModeProps {
+  board: RetroBoard;
+  topics: ItemCluster[];
+  columns: BoardColumn[];
+  groups: ItemGroup[];
+  // Nicknames of the board's members, for @mentions
+  mentionNames: string[];
+  isFacilitator: boolean;
+  // Observers see the tally but can't vote on it
+  canParticipate: boolean;
+  onChange: (changes: PresentationChanges) => void;
+  // Participants can step out locally; the facilitator's view is the presentation itself.
+  onLeave: () => void;
+}
+
+function PresentMode({
+  board,
+  topics,
+  columns,
+  groups,
+  mentionNames,
+  isFacilitator,
+  canParticipate,
+  onChange,
+  onLeave,
+}: PresentModeProps) {
+  const { t } = useTranslation();
+  const topicIndex = findTopicIndex(topics, board.present_item_id);
+  const topic = topics[topicIndex];
+  const secondsLeft = useCountdown(board.present_ends_at);
+  const topicVotes = useTopicVotes(board.id, topic ? topic.items[0].id : null);
+
+  const goToTopic = (index: number) => {
+    const next = topics[index];
+    if (!next) return;
+    onChange({ present_item_id: next.items[0].id, present_ends_at: getTopicEndsAt(board.topic_minutes) });
+  };
+
+  const extend = () => {
+    // Extending an expired timer counts from now, not from when it ran out
+    const endsAt = Math.max(new Date(board.present_ends_at ?? Date.now()).getTime(), Date.now());
+    onChange({ present_ends_at: getTopicEndsAt(EXTEND_MINUTES, endsAt) });
+  };
+
+  const group = topic?.groupId ? groups.find((candidate) => candidate.id === topic.groupId) : undefined;
+  const column = topic ? columns.find((candidate) => candidate.id === topic.items[0].column_id) : undefined;
+  const threads = topic ? getCommentThreads(topic.items.flatMap((item) => item.comments || [])) : [];
+  const commentCount = threads.reduce((count, thread) => count + 1 + thread.replies.length, 0);
+  const isOvertime = secondsLeft !== null && secondsLeft <= 0;
+
+  const secondaryButtonClassName =
+    'px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 disabled:text-gray-300 disabled:hover:border-gray-300 disabled:hover:bg-white disabled:cursor-not-allowed transition-colors duration-150';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-white overflow-y-auto" role="dialog" aria-modal="true" aria-label={t('present.label')}>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 sm:py-10 min-h-full flex flex-col">
+        {/* Topic bar */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-8">
+          <div className="flex items-center gap-2">
+            <div className="w-1 h-5 bg-gray-900"></div>
+            <p className="text-sm font-semibold text-gray-900 tracking-tight">
+              {topic ? t('present.topic', { index: topicIndex + 1, count: topics.length }) : t('present.noTopic')}
+            </p>
+            {column && (
+              <span className="px-2 py-0.5 border border-gray-300 rounded-sm text-xs text-gray-700 font-medium">
+                {getColumnLabel(column)}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            {isFacilitator ? (
+              <>
+                <button onClick={() => goToTopic(topicIndex - 1)} disabled={topicIndex <= 0} className={secondaryButtonClassName}>
+                  {t('present.previous')}
+                </button>
+                <button
+                  onClick={() => goToTopic(topicIndex + 1)}
+                  disabled={topicIndex >= topics.length - 1}
+                  className="px-3 py-1.5 bg-gray-900 text-white rounded-md text-xs font-medium hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150"
+                >
+                  {t('present.next')}
+                </button>
+                <button
+                  onClick={() => onChange({ present_item_id: null, present_ends_at: null })}
+                  className={secondaryButtonClassName}
+                >
+                  {t('present.end')}
+                </button>
+              </>
+            ) : (
+              <button onClick={onLeave} className={secondaryButtonClassName}>
+                {t('present.backToBoard')}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Timer */}
+        <div className="flex flex-col items-center gap-3 mb-8">
+          <p
+            className={`text-5xl sm:text-6xl font-semibold tabular-nums tracking-tight ${
+              isOvertime ? 'text-red-600' : 'text-gray-900'
+            }`}
+            aria-live="off"
+          >
+            {secondsLeft === null ? '–:––' : formatCountdown(secondsLeft)}
+          </p>
+          {isOvertime && <p className="text-xs text-red-600 font-medium">{t('present.timeUp')}</p>}
+          {isFacilitator && (
+            <div className="flex items-center gap-2">
+              <button onClick={extend} className={secondaryButtonClassName}>
+                {t('present.extend', { count: EXTEND_MINUTES })}
+              </button>
+              <button
+                onClick={() => onChange({ present_ends_at: getTopicEndsAt(board.topic_minutes) })}
+                className={secondaryButtonClassName}
+              >
+                {t('present.restart')}
+              </button>
+              <select
+                value={board.topic_minutes}
+                onChange={(e) => onChange({ topic_minutes: Number(e.target.value) })}
+                aria-label={t('present.minutes')}
+                className="px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 bg-white focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900"
+              >
+                {TOPIC_MINUTE_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {t('present.minutesOption', { count: minutes })}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Card */}
+        {topic ? (
+          <div className="flex-1">
+            <div className="border border-gray-200 rounded-md p-6 sm:p-8 mb-6">
+              {group && <p className="text-xs text-gray-500 font-medium mb-3">{t('present.group', { name: group.name })}</p>}
+              <div className="space-y-4">
+                {topic.items.map((item) => (
+                  <div key={item.id}>
+                    <RichText
+                      text={item.content}
+                      mentionNames={mentionNames}
+                      className="text-xl sm:text-2xl text-gray-900 font-medium leading-relaxed"
+                    />
+                    {item.attachments && item.attachments.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-3">
+                        {item.attachments.map((attachment) => (
+                          <a key={attachment.id} href={attachment.url} target="_blank" rel="noopener noreferrer">
+                            <img
+                              src={attachment.url}
+                              alt={attachment.file_name}
+                              className="max-h-48 max-w-full border border-gray-200 rounded-md object-contain"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500 font-medium">{item.users?.nickname || t('common.anonymous')}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-5 text-sm text-gray-700 font-medium">
+                {t('present.votes', { count: collectVotes(topic.items).length })}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2 mb-3">
+              <div className="w-1 h-5 bg-gray-900"></div>
+              <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('present.comments', { count: commentCount })}</h3>
+            </div>
+            {threads.length === 0 ? (
+              <p className="text-xs text-gray-400 font-medium mb-8">{t('cards.noComments')}</p>
+            ) : (
+              <ul className="space-y-3 mb-8">
+                {threads.map(({ comment, replies }) => (
+                  <li key={comment.id} className="bg-gray-50 border border-gray-200 rounded-md p-3">
+                    <RichText
+                      text={comment.content}
+                      mentionNames={mentionNames}
+                      className="text-gray-900 text-sm leading-relaxed font-medium"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 font-medium">{comment.users?.nickname || t('common.anonymous')}</p>
+                    {replies.length > 0 && (
+                      <ul className="mt-3 ml-4 pl-3 border-l border-gray-200 space-y-2">
+                        {replies.map((reply) => (
+                          <li key={reply.id}>
+                            <RichText
+                              text={reply.content}
+                              mentionNames={mentionNames}
+                              className="text-gray-900 text-sm leading-relaxed font-medium"
+                            />
+                            <p className="mt-1 text-xs text-gray-500 font-medium">
+                              {reply.users?.nickname || t('common.anonymous')}
+                            </p>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <p className="flex-1 text-center text-sm text-gray-500 font-medium py-16">
+            {isFacilitator ? t('present.pickTopic') : t('present.waiting')}
+          </p>
+        )}
+
+        {/* Extend / move on */}
+        {topic && (
+          <div className="sticky bottom-0 bg-white border-t border-gray-200 py-4 flex flex-wrap items-center justify-center gap-3">
+            <span className="text-xs text-gray-500 font-medium">{t('present.thisTopic')}</span>
+            {(['extend', 'move_on'] as const).map((choice) => (
+              <button
+                key={choice}
+                onClick={() => topicVotes.cast(choice)}
+                disabled={!canParticipate}
+                aria-pressed={topicVotes.ownChoice === choice}
+                className={`px-4 py-2 border rounded-md text-sm font-medium transition-colors duration-150 disabled:cursor-not-allowed ${
+                  topicVotes.ownChoice === choice
+                    ? 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                {choice === 'extend' ? t('present.keepTalking') : t('present.moveOn')} · {topicVotes.tally[choice]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PresentMode;
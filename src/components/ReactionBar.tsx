@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useUser } from '@insforge/react';
+import { useTranslation } from '../lib/i18n';
+import { REACTION_EMOJIS, describeReaction, getReactionLabel, summarizeReactions } from '../lib/reactions';
+import type { Reaction } from '../types';
+
+interface ReactionBarProps {
+  // The reactions on one card or one comment
+  reactions: Reaction[];
+  // False for observers, on a finished board and while the card is still saving
+  canReact: boolean;
+  onToggle: (emoji: string) => void;
+}
+
+// Emoji reactions with their counts. They're kept apart from votes and never affect ranking.
+function ReactionBar({ reactions, canReact, onToggle }: ReactionBarProps) {
+  const { user } = useUser();
+  const { t } = useTranslation();
+  const [showPicker, setShowPicker] = useState(false);
+
+  const summaries = summarizeReactions(reactions, user?.id);
+
+  if (summaries.length === 0 && !canReact) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      {summaries.map((summary) => (
+        <button
+          key={summary.emoji}
+          onClick={() => onToggle(summary.emoji)}
+          disabled={!canReact}
+          aria-pressed={!!summary.own}
+          title={describeReaction(summary)}
+          className={`flex items-center gap-1 px-1.5 py-0.5 border rounded-md text-xs font-medium transition-colors duration-150 disabled:cursor-default ${
+            summary.own
+              ? 'border-gray-900 bg-gray-100 text-gray-900'
+              : 'border-gray-300 bg-white text-gray-700 hover:border-gray-900 disabled:hover:border-gray-300'
+          }`}
+        >
+          <span aria-hidden="true">{summary.emoji}</span>
+          <span className="sr-only">{getReactionLabel(summary.emoji)}</span>
+          {summary.count}
+        </button>
+      ))}
+      {canReact &&
+        (showPicker ? (
+          <div className="flex items-center gap-0.5 px-1 py-0.5 border border-gray-300 rounded-md bg-white">
+            {REACTION_EMOJIS.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => {
+                  onToggle(emoji);
+                  setShowPicker(false);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setShowPicker(false);
+                }}
+                className="w-6 h-6 flex items-center justify-center rounded-sm text-sm hover:bg-gray-100 transition-colors duration-150"
+                title={getReactionLabel(emoji)}
+                aria-label={t('reactions.react', { label: getReactionLabel(emoji) })}
+              >
+                {emoji}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowPicker(false)}
+              className="w-6 h-6 flex items-center justify-center rounded-sm text-gray-500 hover:text-gray-900 transition-colors duration-150"
+              title={t('common.close')}
+              aria-label={t('reactions.close')}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowPicker(true)}
+            className="flex items-center px-1.5 py-0.5 border border-gray-300 rounded-md text-gray-500 hover:border-gray-900 hover:text-gray-900 transition-colors duration-150"
+            title={t('reactions.add')}
+            aria-label={t('reactions.add')}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15.182 15.182a4.5 4.5 0 01-6.364 0M21 12a9 9 0 11-18 0 9 9 0 0118 0zM9.75 9.75c0 .414-.168.75-.375.75S9 10.164 9 9.75 9.168 9 9.375 9s.375.336.375.75zm-.375 0h.008v.015h-.008V9.75zm5.625 0c0 .414-.168.75-.375.75s-.375-.336-.375-.75.168-.75.375-.75.375.336.375.75zm-.375 0h.008v.015h-.008V9.75z" />
+            </svg>
+          </button>
+        ))}
+    </div>
+  );
+}
+
+export default ReactionBar;
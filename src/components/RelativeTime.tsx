@@ -0,0 +1,46 @@
+import { useSyncExternalStore } from 'react';
+import { formatRelativeTime, useLocale } from '../lib/i18n';
+
+// One clock for every timestamp on the page, ticking while any of them is shown.
+let now = Date.now();
+let timer: ReturnType<typeof setInterval> | undefined;
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!timer) {
+    now = Date.now();
+    timer = setInterval(() => {
+      now = Date.now();
+      listeners.forEach((current) => current());
+    }, 60 * 1000);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+};
+
+const getNow = () => now;
+
+interface RelativeTimeProps {
+  date: string;
+  className?: string;
+}
+
+// "5 minutes ago", with the exact time on hover.
+function RelativeTime({ date, className }: RelativeTimeProps) {
+  const locale = useLocale();
+  const current = useSyncExternalStore(subscribe, getNow);
+
+  return (
+    <time dateTime={date} title={new Date(date).toLocaleString(locale)} className={className}>
+      {formatRelativeTime(date, locale, current)}
+    </time>
+  );
+}
+
+export default RelativeTime;
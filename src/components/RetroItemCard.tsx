@@ -0,0 +1,404 @@
+import { useRef, useState, type KeyboardEvent } from 'react';
+import AttachmentList from './AttachmentList';
+import CommentThreadCard from './CommentThreadCard';
+import ContentEditor from './ContentEditor';
+import MentionTextarea from './MentionTextarea';
+import ReactionBar from './ReactionBar';
+import RelativeTime from './RelativeTime';
+import RevisionHistory from './RevisionHistory';
+import RichText from './RichText';
+import VoteControls from './VoteControls';
+import { getPastedImages } from '../lib/attachments';
+import { getCardLabel } from '../lib/boardKeyboard';
+import { useTranslation } from '../lib/i18n';
+import { getCommentThreads } from '../lib/items';
+import { isReadOnly } from '../lib/phases';
+import { reactionsOn } from '../lib/reactions';
+import type { Attachment, Comment, RetroItem, RetroPhase } from '../types';
+
+interface RetroItemCardProps {
+  item: RetroItem;
+  phase: RetroPhase;
+  // Nicknames of the board's members, for @mentions
+  mentionNames: string[];
+  isOwner: boolean;
+  // Facilitators can delete any card or comment
+  canModerate: boolean;
+  // False for observers, who can't vote, comment or react
+  canParticipate: boolean;
+  // False where reactions can't be changed, e.g. on a finished board
+  canReact: boolean;
+  // Like `canReact`, but only on the user's own cards unless they facilitate
+  canAttach: boolean;
+  isHidden: boolean;
+  // Shown before the server has confirmed it; it can't be changed until then
+  isPending: boolean;
+  userVoteCount: number;
+  maxVotesPerItem: number;
+  votesRemaining: number;
+  isCommentOwner: (comment: Comment) => boolean;
+  onAddVote: () => void;
+  onRemoveVote: () => void;
+  onDelete: () => void;
+  // Hides the card from everyone but its author and the facilitators, or shows it again.
+  // Omitted for anyone who isn't a facilitator.
+  onToggleHidden?: () => void;
+  onEdit: (content: string) => Promise<boolean>;
+  // `parentId` is set for a reply
+  onAddComment: (content: string, parentId?: string) => Promise<boolean>;
+  onEditComment: (comment: Comment, content: string) => Promise<boolean>;
+  onDeleteComment: (comment: Comment) => void;
+  // `commentId` is null for a reaction on the card itself
+  onToggleReaction: (commentId: string | null, emoji: string) => void;
+  canRemoveAttachment: (attachment: Attachment) => boolean;
+  onAttachImages: (files: File[]) => Promise<void>;
+  onRemoveAttachment: (attachment: Attachment) => void;
+  isActionItem: boolean;
+  // Omitted when the card can't be promoted, e.g. on a finished board
+  onPromote?: () => void;
+  // Grouped cards are voted on as a group, so their own vote controls are hidden
+  isGrouped: boolean;
+  // Omitted unless the card is grouped and groups can be changed in this phase
+  onUngroup?: () => void;
+}
+
+function RetroItemCard({
+  item,
+  phase,
+  mentionNames,
+  isOwner,
+  canModerate,
+  canParticipate,
+  canReact,
+  canAttach,
+  isHidden,
+  isPending,
+  userVoteCount,
+  maxVotesPerItem,
+  votesRemaining,
+  isCommentOwner,
+  onAddVote,
+  onRemoveVote,
+  onDelete,
+  onToggleHidden,
+  onEdit,
+  onAddComment,
+  onEditComment,
+  onDeleteComment,
+  onToggleReaction,
+  canRemoveAttachment,
+  onAttachImages,
+  onRemoveAttachment,
+  isActionItem,
+  onPromote,
+  isGrouped,
+  onUngroup,
+}: RetroItemCardProps) {
+  const { t } = useTranslation();
+  const [showComments, setShowComments] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  const addComment = async () => {
+    if (await onAddComment(newComment)) {
+      setNewComment('');
+    }
+  };
+
+  const canDelete = (isOwner || canModerate) && !isReadOnly(phase);
+  const canEdit = isOwner && !isReadOnly(phase);
+  const threads = getCommentThreads(item.comments || []);
+  const commentCount = threads.reduce((count, thread) => count + 1 + thread.replies.length, 0);
+
+  const openComments = () => {
+    setShowComments(true);
+    requestAnimationFrame(() => cardRef.current?.querySelector<HTMLTextAreaElement>('[data-comment-input]')?.focus());
+  };
+
+  // Shortcuts for the focused card itself; the arrow keys are handled by the board around it.
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    switch (e.key) {
+      case 'v':
+        onAddVote();
+        break;
+      case 'V':
+        onRemoveVote();
+        break;
+      case 'c':
+        openComments();
+        break;
+      case 'e':
+        if (canEdit && !isPending) setIsEditing(true);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (canDelete && !isPending) onDelete();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  if (isHidden) {
+    return (
+      <div
+        className="bg-white border border-gray-200 rounded-md p-4"
+        tabIndex={0}
+        role="article"
+        aria-label={t('cards.hidden')}
+        data-card-id={item.id}
+      >
+        {/* Scrambled rather than the real text, so nothing leaks through the blur */}
+        <p
+          className="text-gray-900 mb-2 text-sm leading-relaxed break-words font-medium blur-sm select-none"
+          aria-hidden="true"
+        >
+          {item.content.replace(/\S/g, 'x')}
+        </p>
+        <p className="text-xs text-gray-400 font-medium">{t('cards.hiddenUntilVote')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={cardRef}
+      className={`bg-white border border-gray-200 rounded-md p-4 transition-colors duration-150 hover:border-gray-300 ${
+        isPending ? 'opacity-60' : ''
+      }`}
+      tabIndex={0}
+      role="article"
+      aria-label={getCardLabel(item, commentCount)}
+      aria-keyshortcuts="V Shift+V C E Delete"
+      data-card-id={item.id}
+      onKeyDown={handleKeyDown}
+      // A pasted screenshot is attached to the card, wherever on the card the paste happens
+      onPaste={(e) => {
+        const images = canAttach ? getPastedImages(e.clipboardData) : [];
+        if (images.length > 0) {
+          e.preventDefault();
+          onAttachImages(images);
+        }
+      }}
+    >
+      <div className="flex justify-between items-start gap-3 mb-3">
+        <div className="flex-1 min-w-0">
+          {isEditing ? (
+            <ContentEditor
+              initialContent={item.content}
+              mentionNames={mentionNames}
+              onSave={onEdit}
+              onCancel={() => {
+                setIsEditing(false);
+                cardRef.current?.focus();
+              }}
+            />
+          ) : (
+            <RichText
+              text={item.content}
+              mentionNames={mentionNames}
+              className="text-gray-900 mb-2 text-sm leading-relaxed font-medium"
+            />
+          )}
+          <div className="flex items-center gap-2 flex-wrap">
+            <div className="w-5 h-5 border border-gray-300 rounded-sm flex items-center justify-center text-gray-700 text-xs font-semibold bg-white">
+              {(item.users?.nickname || 'A')[0].toUpperCase()}
+            </div>
+            <p className="text-xs text-gray-500 font-medium">
+              {item.users?.nickname || t('common.anonymous')}
+            </p>
+            <RelativeTime date={item.created_at} className="text-xs text-gray-400 font-medium" />
+            {item.edited_at && <RevisionHistory subject="item" id={item.id} editedAt={item.edited_at} />}
+            {isPending && <span className="text-xs text-gray-400 font-medium">{t('common.saving')}</span>}
+            {item.hidden_at && (
+              <span
+                className="px-1.5 py-0.5 border border-amber-300 rounded-sm text-xs text-amber-800 bg-amber-50 font-medium"
+                title={t('cards.hiddenBadgeTitle')}
+              >
+                {t('cards.hiddenBadge')}
+              </span>
+            )}
+          </div>
+        </div>
+        {!isPending && !isEditing && (canDelete || onToggleHidden) && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {canEdit && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="flex-shrink-0 w-6 h-6 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-gray-900 hover:text-gray-900 hover:bg-gray-50 transition-all duration-150"
+                title={t('cards.edit')}
+                aria-label={t('cards.edit')}
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+                </svg>
+              </button>
+            )}
+            {onToggleHidden && (
+              <button
+                onClick={onToggleHidden}
+                className="flex-shrink-0 w-6 h-6 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-gray-900 hover:text-gray-900 hover:bg-gray-50 transition-all duration-150"
+                title={item.hidden_at ? t('cards.show') : t('cards.hide')}
+                aria-label={item.hidden_at ? t('cards.show') : t('cards.hide')}
+              >
+                {item.hidden_at ? (
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M2.036 12.322a1.012 1.012 0 010-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  </svg>
+                ) : (
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3.98 8.223A10.477 10.477 0 001.934 12C3.226 16.338 7.244 19.5 12 19.5c.993 0 1.953-.138 2.863-.395M6.228 6.228A10.45 10.45 0 0112 4.5c4.756 0 8.773 3.162 10.065 7.498a10.523 10.523 0 01-4.293 5.774M6.228 6.228L3 3m3.228 3.228l3.65 3.65m7.894 7.894L21 21m-3.228-3.228l-3.65-3.65m0 0a3 3 0 10-4.243-4.243m4.242 4.242L9.88 9.88" />
+                  </svg>
+                )}
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={onDelete}
+                className="flex-shrink-0 w-6 h-6 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-all duration-150"
+                title={t('cards.delete')}
+                aria-label={t('cards.delete')}
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                </svg>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <AttachmentList
+        attachments={item.attachments || []}
+        canAttach={canAttach}
+        canRemove={canRemoveAttachment}
+        onAttach={onAttachImages}
+        onRemove={onRemoveAttachment}
+      />
+
+      {/* Votes, reactions and actions */}
+      <div className="flex items-center gap-2 mb-3 flex-wrap">
+        {!isGrouped && (
+          <VoteControls
+            votes={item.votes || []}
+            phase={phase}
+            canParticipate={canParticipate}
+            userVoteCount={userVoteCount}
+            maxVotesPerItem={maxVotesPerItem}
+            votesRemaining={votesRemaining}
+            onAddVote={onAddVote}
+            onRemoveVote={onRemoveVote}
+          />
+        )}
+        <ReactionBar
+          reactions={reactionsOn(item.reactions, null)}
+          canReact={canReact}
+          onToggle={(emoji) => onToggleReaction(null, emoji)}
+        />
+        {onUngroup && (
+          <button
+            onClick={onUngroup}
+            className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+            title={t('cards.ungroupTitle')}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+            </svg>
+            {t('cards.ungroup')}
+          </button>
+        )}
+        {isActionItem ? (
+          <span className="ml-auto px-2 py-0.5 border border-gray-900 rounded-sm text-xs text-gray-900 font-medium">
+            {t('cards.actionItem')}
+          </span>
+        ) : (
+          onPromote && (
+            <button
+              onClick={onPromote}
+              className="ml-auto flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+              title={t('cards.promoteTitle')}
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              {t('cards.promote')}
+            </button>
+          )
+        )}
+      </div>
+
+      {/* Comments */}
+      <div>
+        <button
+          onClick={() => setShowComments(!showComments)}
+          aria-expanded={showComments}
+          className="flex items-center gap-1.5 text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150 mb-2"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M8.625 12a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H8.25m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H12m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0h-.375M21 12c0 4.556-4.03 8.25-9 8.25a9.764 9.764 0 01-2.555-.337A5.972 5.972 0 015.41 20.97a5.969 5.969 0 01-.474-.065 4.48 4.48 0 00.978-2.025c.09-.457-.133-.901-.467-1.226C3.93 16.178 3 14.189 3 12c0-4.556 4.03-8.25 9-8.25s9 3.694 9 8.25z" />
+          </svg>
+          {showComments ? t('cards.hideComments', { count: commentCount }) : t('cards.showComments', { count: commentCount })}
+        </button>
+
+        {showComments && (
+          <div className="mt-3 space-y-3 animate-in fade-in duration-200">
+            {threads.length > 0 ? (
+              threads.map((thread) => (
+                <CommentThreadCard
+                  key={thread.comment.id}
+                  thread={thread}
+                  reactions={item.reactions}
+                  phase={phase}
+                  mentionNames={mentionNames}
+                  canModerate={canModerate}
+                  canParticipate={canParticipate}
+                  canReact={canReact}
+                  isCommentOwner={isCommentOwner}
+                  onReply={(content) => onAddComment(content, thread.comment.id)}
+                  onEditComment={onEditComment}
+                  onDeleteComment={onDeleteComment}
+                  onToggleReaction={(comment, emoji) => onToggleReaction(comment.id, emoji)}
+                />
+              ))
+            ) : (
+              <p className="text-xs text-gray-400 text-center py-2 font-medium">{t('cards.noComments')}</p>
+            )}
+
+            {/* Add comment */}
+            {canParticipate && !isReadOnly(phase) && (
+              <div className="pt-2 border-t border-gray-200">
+                <MentionTextarea
+                  value={newComment}
+                  onChange={setNewComment}
+                  mentionNames={mentionNames}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') cardRef.current?.focus();
+                  }}
+                  placeholder={t('cards.commentPlaceholder')}
+                  aria-label={t('cards.commentLabel')}
+                  data-comment-input
+                  className="w-full p-2.5 border border-gray-300 rounded-md resize-none focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-sm bg-white overflow-y-auto max-h-48"
+                  rows={2}
+                />
+                <button
+                  onClick={addComment}
+                  disabled={!newComment.trim() || isPending}
+                  className="mt-2 px-4 py-2 bg-gray-900 text-white rounded-md text-xs hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150 font-medium"
+                >
+                  {t('cards.addComment')}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RetroItemCard;
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { getErrorMessage } from '../lib/errors';
+import { useTranslation } from '../lib/i18n';
+import { fetchRevisions, type RevisionSubject } from '../lib/revisions';
+import type { Revision } from '../types';
+
+interface RevisionHistoryProps {
+  subject: RevisionSubject;
+  id: string;
+  editedAt: string;
+}
+
+// The "edited" marker; opens the earlier texts of an item or comment.
+function RevisionHistory({ subject, id, editedAt }: RevisionHistoryProps) {
+  const { t, locale } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    fetchRevisions(subject, id)
+      .then((data) => {
+        if (!cancelled) setRevisions(data);
+      })
+      .catch((error) => {
+        console.error('Error fetching revisions:', error);
+        console.error('Error details:', getErrorMessage(error, 'Failed to load edit history.'));
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Refetch when another edit lands while the history is open
+  }, [open, subject, id, editedAt]);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-400 hover:text-gray-900 font-medium transition-colors duration-150"
+        title={t('revisions.editedAt', { date: new Date(editedAt).toLocaleString(locale) })}
+        aria-expanded={open}
+      >
+        {t('revisions.edited')}
+      </button>
+      {open && (
+        <div className="basis-full mt-2 border-l-2 border-gray-200 pl-3 space-y-2">
+          {revisions === null ? (
+            <p className="text-xs text-gray-400 font-medium">{t('revisions.loading')}</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-xs text-gray-400 font-medium">{t('revisions.empty')}</p>
+          ) : (
+            revisions.map((revision) => (
+              <div key={revision.id}>
+                <p className="text-xs text-gray-600 leading-relaxed break-words whitespace-pre-wrap">
+                  {revision.content}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {t('revisions.period', {
+                    from: new Date(revision.written_at).toLocaleString(locale),
+                    to: new Date(revision.replaced_at).toLocaleString(locale),
+                  })}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default RevisionHistory;
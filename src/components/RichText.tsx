@@ -0,0 +1,105 @@
+import { Fragment, type ReactNode } from 'react';
+import { parseMarkdown, toMentionHandle, type InlineNode } from '../lib/markdown';
+
+interface RichTextProps {
+  text: string;
+  // Nicknames of the board's members; "@handle" is highlighted when it names one of them
+  mentionNames: string[];
+  className?: string;
+}
+
+// Card and comment text rendered as Markdown. Only elements built here end up in the page.
+function RichText({ text, mentionNames, className = '' }: RichTextProps) {
+  const handles = new Map(mentionNames.map((name) => [toMentionHandle(name).toLowerCase(), name]));
+
+  const renderInline = (nodes: InlineNode[], insideLink = false): ReactNode =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <Fragment key={index}>{node.text}</Fragment>;
+        case 'strong':
+          return <strong key={index} className="font-semibold">{renderInline(node.children, insideLink)}</strong>;
+        case 'em':
+          return <em key={index}>{renderInline(node.children, insideLink)}</em>;
+        case 'strike':
+          return <s key={index}>{renderInline(node.children, insideLink)}</s>;
+        case 'code':
+          return (
+            <code key={index} className="px-1 py-0.5 bg-gray-100 border border-gray-200 rounded-sm text-xs font-mono">
+              {node.text}
+            </code>
+          );
+        case 'link':
+          // A bare URL inside a link's label is just part of the label
+          return insideLink ? (
+            <Fragment key={index}>{renderInline(node.children, true)}</Fragment>
+          ) : (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="underline decoration-gray-400 hover:decoration-gray-900 break-all"
+            >
+              {renderInline(node.children, true)}
+            </a>
+          );
+        case 'mention': {
+          const name = handles.get(node.handle.toLowerCase());
+          return name ? (
+            <span key={index} className="px-0.5 rounded-sm bg-gray-900 text-white" title={name}>
+              @{node.handle}
+            </span>
+          ) : (
+            <Fragment key={index}>@{node.handle}</Fragment>
+          );
+        }
+      }
+    });
+
+  const renderLines = (lines: InlineNode[][]) =>
+    lines.map((line, index) => (
+      <Fragment key={index}>
+        {index > 0 && <br />}
+        {renderInline(line)}
+      </Fragment>
+    ));
+
+  return (
+    <div className={`space-y-1.5 break-words ${className}`}>
+      {parseMarkdown(text).map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={index}>{renderLines(block.lines)}</p>;
+          case 'quote':
+            return (
+              <blockquote key={index} className="pl-2 border-l-2 border-gray-300 text-gray-600">
+                {renderLines(block.lines)}
+              </blockquote>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          case 'code':
+            return (
+              <pre
+                key={index}
+                className="p-2 bg-gray-100 border border-gray-200 rounded-md text-xs font-mono overflow-x-auto whitespace-pre"
+              >
+                {block.text}
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
+
+export default RichText;
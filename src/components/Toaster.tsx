@@ -0,0 +1,38 @@
+import { useTranslation } from '../lib/i18n';
+import { dismissToast, useToasts } from '../lib/toast';
+
+// Stack of the messages passed to `showToast`, newest at the bottom.
+function Toaster() {
+  const { t } = useTranslation();
+  const toasts = useToasts();
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 left-4 sm:left-auto z-[70] flex flex-col items-stretch sm:items-end gap-2 pointer-events-none"
+      role="status"
+      aria-live="polite"
+    >
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className={`pointer-events-auto sm:max-w-sm flex items-start gap-3 px-4 py-3 rounded-md shadow-lg text-sm font-medium ${
+            toast.tone === 'error' ? 'bg-red-600 text-white' : 'bg-gray-900 text-white'
+          }`}
+        >
+          <p className="flex-1 leading-snug break-words">{toast.message}</p>
+          <button
+            onClick={() => dismissToast(toast.id)}
+            className="shrink-0 text-white/70 hover:text-white transition-colors duration-150"
+            aria-label={t('common.dismiss')}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default Toaster;
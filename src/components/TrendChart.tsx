@@ -0,0 +1,54 @@
+import { useTranslation } from '../lib/i18n';
+
+export interface TrendPoint {
+  id: string;
+  label: string;
+  // null for boards the trend doesn't apply to, e.g. no action items yet
+  value: number | null;
+}
+
+interface TrendChartProps {
+  title: string;
+  points: TrendPoint[];
+  formatValue?: (value: number) => string;
+  // Fixed top of the scale, e.g. 1 for rates; defaults to the largest value
+  max?: number;
+}
+
+// Bar chart with one bar per board, oldest on the left.
+function TrendChart({ title, points, formatValue = String, max }: TrendChartProps) {
+  const { t } = useTranslation();
+  const scale = max ?? Math.max(0, ...points.map((point) => point.value ?? 0));
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4">
+      <h3 className="text-xs text-gray-600 font-medium mb-3">{title}</h3>
+      {points.length === 0 ? (
+        <p className="text-xs text-gray-400 font-medium py-6 text-center">{t('trends.noData')}</p>
+      ) : (
+        <ol className="flex items-end gap-1.5 h-32" aria-label={title}>
+          {points.map((point) => (
+            <li
+              key={point.id}
+              className="flex-1 min-w-0 h-full flex flex-col justify-end items-center gap-1"
+              title={`${point.label}: ${point.value === null ? t('trends.notApplicable') : formatValue(point.value)}`}
+            >
+              <span className="text-[10px] text-gray-500 font-medium tabular-nums">
+                {point.value === null ? '–' : formatValue(point.value)}
+              </span>
+              <div className="flex-1 w-full flex items-end justify-center">
+                <span
+                  className="w-full max-w-8 bg-gray-900 rounded-sm"
+                  style={{ height: `${scale > 0 && point.value ? (point.value / scale) * 100 : 0}%`, minHeight: 1 }}
+                ></span>
+              </div>
+              <span className="w-full text-[10px] text-gray-400 font-medium truncate text-center">{point.label}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default TrendChart;
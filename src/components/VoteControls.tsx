@@ -0,0 +1,97 @@
+import { useTranslation } from '../lib/i18n';
+import { canVote } from '../lib/phases';
+import { formatVoterNames } from '../lib/votes';
+import type { RetroPhase, Vote } from '../types';
+
+interface VoteControlsProps {
+  // Every vote counted for the card, or for all cards of a group
+  votes: Vote[];
+  phase: RetroPhase;
+  // False for observers, who see the votes but can't cast any
+  canParticipate: boolean;
+  userVoteCount: number;
+  maxVotesPerItem: number;
+  votesRemaining: number;
+  onAddVote: () => void;
+  onRemoveVote: () => void;
+}
+
+function VoteControls({
+  votes,
+  phase,
+  canParticipate,
+  userVoteCount,
+  maxVotesPerItem,
+  votesRemaining,
+  onAddVote,
+  onRemoveVote,
+}: VoteControlsProps) {
+  const { t } = useTranslation();
+  const hasVoted = userVoteCount > 0;
+  // With one vote per card the button toggles, like a classic upvote
+  const isToggle = maxVotesPerItem === 1;
+  const canAddVote = userVoteCount < maxVotesPerItem && votesRemaining > 0;
+  const votingOpen = canParticipate && canVote(phase);
+
+  const handleVoteClick = () => {
+    if (isToggle && hasVoted) {
+      onRemoveVote();
+    } else {
+      onAddVote();
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleVoteClick}
+        disabled={!votingOpen || (!canAddVote && !(isToggle && hasVoted))}
+        title={
+          !canParticipate
+            ? t('votes.observers')
+            : !canVote(phase)
+              ? t('votes.closed')
+              : votesRemaining === 0 && !hasVoted
+                ? t('votes.noneLeft')
+                : undefined
+        }
+        className={`flex items-center gap-1.5 px-2.5 py-1.5 border rounded-md text-xs font-medium transition-colors duration-150 disabled:cursor-not-allowed ${
+          hasVoted
+            ? 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800 disabled:hover:bg-gray-900'
+            : 'bg-white text-gray-700 border-gray-300 hover:border-gray-900 hover:bg-gray-50 disabled:hover:border-gray-300 disabled:hover:bg-white'
+        }`}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 15.75l7.5-7.5 7.5 7.5" />
+        </svg>
+        <span>{votes.length}</span>
+      </button>
+      {!isToggle && hasVoted && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onRemoveVote}
+            disabled={!votingOpen}
+            className="w-6 h-6 flex items-center justify-center border border-gray-300 rounded-md text-gray-600 hover:border-gray-900 hover:bg-gray-50 disabled:cursor-not-allowed disabled:hover:border-gray-300 disabled:hover:bg-white transition-colors duration-150"
+            title={t('votes.remove')}
+            aria-label={t('votes.remove')}
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 12h-15" />
+            </svg>
+          </button>
+          <span className="text-xs text-gray-500 font-medium">{t('votes.yours', { count: userVoteCount })}</span>
+        </div>
+      )}
+      {votes.length > 0 && (
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <span className="text-xs text-gray-400">{t('votes.by')}</span>
+          <span className="text-xs text-gray-600 font-medium max-w-xs truncate">
+            {formatVoterNames(votes)}
+          </span>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default VoteControls;
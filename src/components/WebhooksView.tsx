@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { useTranslation } from '../lib/i18n';
+import { navigate } from '../lib/router';
+import { showToast } from '../lib/toast';
+import {
+  DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  getWebhookUrlError,
+  useWebhooks,
+} from '../lib/webhooks';
+import type { WebhookDeliveryStatus, WebhookEvent } from '../types';
+
+interface NewWebhookForm {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+}
+
+const EMPTY_FORM: NewWebhookForm = { name: '', url: '', events: WEBHOOK_EVENTS };
+
+const STATUS_CLASSES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-yellow-700 bg-yellow-50 border-yellow-200',
+  sending: 'text-gray-600 bg-gray-50 border-gray-200',
+  delivered: 'text-green-700 bg-green-50 border-green-200',
+  failed: 'text-red-700 bg-red-50 border-red-200',
+};
+
+const toggleEvent = (events: WebhookEvent[], event: WebhookEvent) =>
+  events.includes(event) ? events.filter((candidate) => candidate !== event) : [...events, event];
+
+// Outgoing webhooks for the boards you facilitate, with a log of what was sent.
+function WebhooksView() {
+  const { t, locale } = useTranslation();
+  const { webhooks, deliveries, loading, refresh, create, update, remove, sendTest, retry } = useWebhooks();
+  const [form, setForm] = useState<NewWebhookForm>(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+
+  const createWebhook = async () => {
+    const name = form.name.trim();
+    const url = form.url.trim();
+    if (!name || !url) return;
+
+    const urlError = getWebhookUrlError(url);
+    if (urlError) {
+      showToast(urlError);
+      return;
+    }
+    if (form.events.length === 0) {
+      showToast(t('webhooks.pickEvent'));
+      return;
+    }
+
+    setCreating(true);
+    if (await create({ name, url, events: form.events })) {
+      setForm(EMPTY_FORM);
+    }
+    setCreating(false);
+  };
+
+  const webhookName = (webhookId: string) => webhooks.find((webhook) => webhook.id === webhookId)?.name ?? t('webhooks.deleted');
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:border-gray-900 focus:ring-1 focus:ring-gray-900 transition-colors duration-150 text-sm bg-white';
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-6 h-6 border-2 border-gray-900 border-t-transparent animate-spin"></div>
+          <div className="text-sm text-gray-500 font-medium">{t('webhooks.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/')}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900 font-medium transition-colors duration-150 mb-2"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+          </svg>
+          {t('common.allBoards')}
+        </button>
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-900 tracking-tight">{t('webhooks.title')}</h2>
+        <p className="text-xs text-gray-500 font-medium mt-1">
+          {t('webhooks.intro')}
+        </p>
+      </div>
+
+      {/* New webhook */}
+      <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5">
+        <div className="flex items-center gap-2 mb-3">
+          <div className="w-1 h-5 bg-gray-900"></div>
+          <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('webhooks.add')}</h3>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="block">
+            <span className="block text-xs text-gray-600 font-medium mb-1">{t('common.name')}</span>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder={t('webhooks.namePlaceholder')}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block sm:col-span-2">
+            <span className="block text-xs text-gray-600 font-medium mb-1">{t('webhooks.url')}</span>
+            <input
+              type="url"
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              placeholder="https://hooks.slack.com/services/..."
+              className={inputClassName}
+            />
+          </label>
+        </div>
+        <fieldset className="mt-3">
+          <legend className="block text-xs text-gray-600 font-medium mb-1">{t('webhooks.events')}</legend>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-1.5 text-xs text-gray-700 font-medium cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.events.includes(event)}
+                  onChange={() => setForm({ ...form, events: toggleEvent(form.events, event) })}
+                  className="w-3.5 h-3.5 accent-gray-900"
+                />
+                {t(WEBHOOK_EVENT_LABELS[event])}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <button
+          onClick={createWebhook}
+          disabled={creating || !form.name.trim() || !form.url.trim()}
+          className="mt-4 px-4 py-2 bg-gray-900 text-white rounded-md text-xs hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-150 font-medium"
+        >
+          {t('webhooks.add')}
+        </button>
+      </div>
+
+      {/* Webhooks */}
+      {webhooks.length > 0 && (
+        <div className="mb-6 border border-gray-200 rounded-md p-4 sm:p-5">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="w-1 h-5 bg-gray-900"></div>
+            <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('webhooks.yours')}</h3>
+          </div>
+          <ul className="space-y-3">
+            {webhooks.map((webhook) => (
+              <li key={webhook.id} className="border border-gray-200 rounded-md p-3">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-semibold ${webhook.active ? 'text-gray-900' : 'text-gray-400'}`}>
+                      {webhook.name}
+                    </p>
+                    <p className="text-xs text-gray-500 font-medium truncate" title={webhook.url}>
+                      {webhook.url}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <label className="flex items-center gap-1.5 text-xs text-gray-700 font-medium cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={webhook.active}
+                        onChange={(e) => update(webhook, { active: e.target.checked })}
+                        className="w-3.5 h-3.5 accent-gray-900"
+                      />
+                      {t('webhooks.active')}
+                    </label>
+                    <button
+                      onClick={() => sendTest(webhook)}
+                      className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-gray-900 hover:bg-gray-50 transition-colors duration-150"
+                    >
+                      {t('webhooks.sendTest')}
+                    </button>
+                    <button
+                      onClick={() => remove(webhook)}
+                      className="px-3 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 font-medium hover:border-red-500 hover:text-red-600 hover:bg-red-50 transition-colors duration-150"
+                    >
+                      {t('common.delete')}
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <label
+                      key={event}
+                      className="flex items-center gap-1.5 text-xs text-gray-600 font-medium cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={webhook.events.includes(event)}
+                        onChange={() => {
+                          const events = toggleEvent(webhook.events, event);
+                          if (events.length > 0) update(webhook, { events });
+                        }}
+                        className="w-3.5 h-3.5 accent-gray-900"
+                      />
+                      {t(WEBHOOK_EVENT_LABELS[event])}
+                    </label>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Delivery log */}
+      <div className="border border-gray-200 rounded-md p-4 sm:p-5">
+        <div className="flex items-center gap-2 mb-3">
+          <div className="w-1 h-5 bg-gray-900"></div>
+          <h3 className="text-base font-semibold text-gray-900 tracking-tight">{t('webhooks.log')}</h3>
+          <button
+            onClick={refresh}
+            className="ml-auto text-xs text-gray-600 hover:text-gray-900 font-medium transition-colors duration-150"
+          >
+            {t('common.refresh')}
+          </button>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-xs text-gray-400 font-medium">{t('webhooks.logEmpty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">{t('webhooks.time')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('webhooks.webhook')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('webhooks.event')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('webhooks.status')}</th>
+                  <th className="py-2 font-medium">{t('webhooks.response')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="border-b border-gray-100 last:border-b-0 align-top">
+                    <td className="py-2.5 pr-4 text-gray-700 font-medium whitespace-nowrap">
+                      {new Date(delivery.created_at).toLocaleString(locale)}
+                    </td>
+                    <td className="py-2.5 pr-4 text-gray-700 font-medium">{webhookName(delivery.webhook_id)}</td>
+                    <td className="py-2.5 pr-4 text-gray-700 font-medium" title={delivery.payload.text}>
+                      <code className="text-[11px]">{delivery.event}</code>
+                    </td>
+                    <td className="py-2.5 pr-4 whitespace-nowrap">
+                      <span
+                        className={`px-1.5 py-0.5 border rounded-sm font-medium ${STATUS_CLASSES[delivery.status]}`}
+                      >
+                        {t(DELIVERY_STATUS_LABELS[delivery.status])}
+                      </span>
+                      <span className="ml-2 text-gray-400 font-medium">
+                        {t('webhooks.attempts', { count: delivery.attempts })}
+                      </span>
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <span className="block mt-1 text-gray-400 font-medium">
+                          {t('webhooks.nextTry', { time: new Date(delivery.next_attempt_at).toLocaleTimeString(locale) })}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2.5 text-gray-700 font-medium">
+                      <div className="flex items-center gap-2">
+                        <span className="min-w-0 break-words">
+                          {delivery.error ?? (delivery.response_status ? `HTTP ${delivery.response_status}` : '–')}
+                        </span>
+                        {delivery.status === 'failed' && (
+                          <button
+                            onClick={() => retry(delivery)}
+                            className="flex-shrink-0 text-xs text-gray-600 hover:text-gray-900 font-medium underline transition-colors duration-150"
+                          >
+                            {t('webhooks.retry')}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default WebhooksView;
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from './insforge';
+import { confirmAction } from './confirm';
+import { getErrorMessage } from './errors';
+import { t } from './i18n';
+import { useBoardEvent } from './realtime';
+import { showToast } from './toast';
+import type { ActionItem, RetroBoard, RetroItem } from '../types';
+
+export type ActionItemChanges = Partial<Pick<ActionItem, 'title' | 'assignee_id' | 'due_on' | 'status'>>;
+
+const ACTION_ITEM_SELECT = '*, assignee:users!action_items_assignee_id_fkey (nickname)';
+const CARRIED_OVER_SELECT = `${ACTION_ITEM_SELECT}, retro_boards!inner (name, sprint_label)`;
+
+// Published by the `publish_action_item_change` trigger, see db/migrations/006_action_items.sql.
+const ACTION_ITEM_CHANGED_EVENT = 'action_item.changed';
+
+const replaceById = (rows: ActionItem[], updated: ActionItem) =>
+  rows.map((row) => (row.id === updated.id ? { ...row, ...updated } : row));
+
+/**
+ * Action items created on this board, plus the ones still open from the board it follows on
+ * from so the team reviews them at the start of the next retro.
+ */
+export function useActionItems(board: RetroBoard | null) {
+  const { user } = useUser();
+  const [actionItems, setActionItems] = useState<ActionItem[]>([]);
+  const [carriedOver, setCarriedOver] = useState<ActionItem[]>([]);
+  const boardId = board?.id;
+  const previousBoardId = board?.previous_board_id;
+
+  const fetchActionItems = useCallback(async () => {
+    if (!boardId) return;
+
+    try {
+      const [ownResult, carriedOverResult] = await Promise.all([
+        insforge.database
+          .from('action_items')
+          .select(ACTION_ITEM_SELECT)
+          .eq('board_id', boardId)
+          .order('created_at', { ascending: true }),
+        previousBoardId
+          ? insforge.database
+              .from('action_items')
+              .select(CARRIED_OVER_SELECT)
+              .eq('board_id', previousBoardId)
+              .eq('status', 'open')
+              .order('due_on', { ascending: true, nullsFirst: false })
+          : { data: [], error: null },
+      ]);
+
+      if (ownResult.error) throw ownResult.error;
+      if (carriedOverResult.error) throw carriedOverResult.error;
+      setActionItems(ownResult.data || []);
+      setCarriedOver(carriedOverResult.data || []);
+    } catch (error) {
+      console.error('Error fetching action items:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load action items.'));
+    }
+  }, [boardId, previousBoardId]);
+
+  useEffect(() => {
+    fetchActionItems();
+  }, [fetchActionItems]);
+
+  useBoardEvent(boardId ?? '', ACTION_ITEM_CHANGED_EVENT, () => {
+    fetchActionItems();
+  });
+
+  const promote = async (item: RetroItem) => {
+    if (!user || !boardId) return;
+
+    try {
+      const { data, error } = await insforge.database
+        .from('action_items')
+        .insert([{ board_id: boardId, retro_item_id: item.id, title: item.content, created_by: user.id }])
+        .select(ACTION_ITEM_SELECT)
+        .single<ActionItem>();
+
+      if (error) throw error;
+      setActionItems((current) => (current.some((row) => row.id === data.id) ? current : [...current, data]));
+    } catch (error) {
+      console.error('Error creating action item:', error);
+      showToast(getErrorMessage(error, t('actionItems.createFailed')));
+    }
+  };
+
+  const update = async (actionItem: ActionItem, changes: ActionItemChanges) => {
+    const values: Partial<ActionItem> = { ...changes };
+    if (changes.status) {
+      values.completed_at = changes.status === 'done' ? new Date().toISOString() : null;
+    }
+
+    try {
+      const { data, error } = await insforge.database
+        .from('action_items')
+        .update(values)
+        .eq('id', actionItem.id)
+        .select(ACTION_ITEM_SELECT)
+        .single<ActionItem>();
+
+      if (error) throw error;
+      // Carried-over items stay listed until the next load, so a ticked-off item doesn't jump away.
+      setActionItems((current) => replaceById(current, data));
+      setCarriedOver((current) => replaceById(current, data));
+    } catch (error) {
+      console.error('Error updating action item:', error);
+      showToast(getErrorMessage(error, t('actionItems.updateFailed')));
+    }
+  };
+
+  const remove = async (actionItem: ActionItem) => {
+    if (!(await confirmAction(t('actionItems.deleteConfirm')))) {
+      return;
+    }
+
+    try {
+      const { error } = await insforge.database.from('action_items').delete().eq('id', actionItem.id);
+
+      if (error) throw error;
+      setActionItems((current) => current.filter((row) => row.id !== actionItem.id));
+      setCarriedOver((current) => current.filter((row) => row.id !== actionItem.id));
+    } catch (error) {
+      console.error('Error deleting action item:', error);
+      showToast(getErrorMessage(error, t('actionItems.deleteFailed')));
+    }
+  };
+
+  return { actionItems, carriedOver, refresh: fetchActionItems, promote, update, remove };
+}
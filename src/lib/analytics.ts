@@ -0,0 +1,92 @@
+import type { ActionItem, ColumnColor, ColumnStats } from '../types';
+
+// Column colors stand in for sentiment across templates: Good, Start, Liked and Glad are
+// green, Bad, Stop and Mad are red (see BOARD_TEMPLATES).
+const POSITIVE_COLORS: ColumnColor[] = ['green'];
+const NEGATIVE_COLORS: ColumnColor[] = ['red'];
+
+const STOP_WORDS = new Set(
+  (
+    'the and for that this with was were are have has had not but you your our ours they them their ' +
+    'there what when where which who why how all any can could would should will just more most some ' +
+    'than then too very also into from out about over again still get got its it\'s much many ' +
+    'been being did does doing done don\'t didn\'t isn\'t wasn\'t we\'re i\'m one two lot lots really ' +
+    'make made need needs needed thing things way ways time good bad better well went'
+  ).split(' ')
+);
+
+const MIN_WORD_LENGTH = 3;
+
+export interface Keyword {
+  word: string;
+  // Number of boards the word appears on
+  boards: number;
+  mentions: number;
+}
+
+export function getSentimentCounts(columns: ColumnStats[]) {
+  let positive = 0;
+  let negative = 0;
+  for (const column of columns) {
+    if (POSITIVE_COLORS.includes(column.color)) positive += column.item_count;
+    if (NEGATIVE_COLORS.includes(column.color)) negative += column.item_count;
+  }
+  return { positive, negative };
+}
+
+// Negative cards per positive card; null when the board has neither.
+export function getNegativeRatio(columns: ColumnStats[]): number | null {
+  const { positive, negative } = getSentimentCounts(columns);
+  if (positive === 0 && negative === 0) return null;
+  return positive === 0 ? negative : negative / positive;
+}
+
+// Splits on word boundaries rather than spaces, so Japanese and other unspaced scripts break
+// into words too.
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+// Kanji and katakana words are often one or two characters long, while hiragana on its own is
+// mostly particles and verb endings.
+const CJK_WORD = /[\p{Script=Han}\p{Script=Katakana}]/u;
+const HIRAGANA_ONLY = /^\p{Script=Hiragana}+$/u;
+
+const isKeyword = (word: string) =>
+  CJK_WORD.test(word)
+    ? word.length >= 2
+    : word.length >= MIN_WORD_LENGTH && !STOP_WORDS.has(word) && !HIRAGANA_ONLY.test(word) && !/^\d+$/.test(word);
+
+export const tokenize = (text: string) =>
+  [...wordSegmenter.segment(text.toLowerCase())]
+    .filter((segment) => segment.isWordLike)
+    .map((segment) => segment.segment)
+    .filter(isKeyword);
+
+/** Words that come up on at least `minBoards` different boards, most widespread first. */
+export function findRecurringKeywords(
+  items: { board_id: string; content: string }[],
+  { minBoards = 2, limit = 20 } = {}
+): Keyword[] {
+  const keywords = new Map<string, { boards: Set<string>; mentions: number }>();
+  for (const item of items) {
+    for (const word of new Set(tokenize(item.content))) {
+      const entry = keywords.get(word) ?? { boards: new Set<string>(), mentions: 0 };
+      entry.boards.add(item.board_id);
+      entry.mentions += 1;
+      keywords.set(word, entry);
+    }
+  }
+
+  return [...keywords.entries()]
+    .map(([word, { boards, mentions }]) => ({ word, boards: boards.size, mentions }))
+    .filter((keyword) => keyword.boards >= minBoards)
+    .sort((a, b) => b.boards - a.boards || b.mentions - a.mentions || a.word.localeCompare(b.word))
+    .slice(0, limit);
+}
+
+// Share of action items marked done, or null when there are none.
+export function getCompletionRate(actionItems: Pick<ActionItem, 'status'>[]): number | null {
+  if (actionItems.length === 0) return null;
+  return actionItems.filter((actionItem) => actionItem.status === 'done').length / actionItems.length;
+}
+
+export const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
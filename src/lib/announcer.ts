@@ -0,0 +1,30 @@
+import { useSyncExternalStore } from 'react';
+
+let message = '';
+let clearTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+// Cleared after a moment so the same text can be read out again later.
+const ANNOUNCEMENT_MS = 3000;
+
+/** Reads a short message out to screen readers without showing anything on screen. */
+export function announce(text: string) {
+  message = text;
+  emit();
+  clearTimeout(clearTimer);
+  clearTimer = setTimeout(() => {
+    message = '';
+    emit();
+  }, ANNOUNCEMENT_MS);
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useAnnouncement = () => useSyncExternalStore(subscribe, () => message);
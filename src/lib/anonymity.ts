@@ -0,0 +1,14 @@
+import type { MessageKey } from './i18n';
+import type { Anonymity } from '../types';
+
+export const ANONYMITY_LABELS: Record<Anonymity, MessageKey> = {
+  none: 'anonymity.none',
+  authors: 'anonymity.authors',
+  voters: 'anonymity.voters',
+  both: 'anonymity.both',
+};
+
+// Mirrors the masking done by the board_* views in db/migrations/005_anonymity.sql.
+export const hidesAuthors = (anonymity: Anonymity) => anonymity === 'authors' || anonymity === 'both';
+
+export const hidesVoters = (anonymity: Anonymity) => anonymity === 'voters' || anonymity === 'both';
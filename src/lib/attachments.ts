@@ -0,0 +1,34 @@
+import { t } from './i18n';
+
+// Keep in sync with the `attachments` checks in db/migrations/015_attachments.sql.
+export const ATTACHMENT_BUCKET = 'retro-attachments';
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_ITEM = 4;
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(Math.round(bytes / 1024), 1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Why `file` can't be attached to a card that already has `attachedCount` images, or null if it can.
+export function getAttachmentError(file: Pick<File, 'type' | 'size'>, attachedCount: number): string | null {
+  if (!IMAGE_TYPES.includes(file.type)) {
+    return t('attachments.wrongType');
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return t('attachments.tooLarge', { size: formatFileSize(MAX_ATTACHMENT_BYTES) });
+  }
+  if (attachedCount >= MAX_ATTACHMENTS_PER_ITEM) {
+    return t('attachments.tooMany', { count: MAX_ATTACHMENTS_PER_ITEM });
+  }
+  return null;
+}
+
+// Files of a board share a folder; the UUID keeps names from clashing and URLs from being guessed.
+export function getAttachmentKey(boardId: string, fileName: string) {
+  const safeName = fileName.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').slice(-80) || 'image';
+  return `${boardId}/${crypto.randomUUID()}-${safeName}`;
+}
+
+// Images pasted from the clipboard, e.g. a screenshot.
+export const getPastedImages = (data: DataTransfer) =>
+  [...data.files].filter((file) => file.type.startsWith('image/'));
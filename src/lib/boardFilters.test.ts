@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERS, filterItems, formatFilters, isFiltering, parseFilters } from './boardFilters';
+import type { RetroItem } from '../types';
+
+const item = (id: string, overrides: Partial<RetroItem> = {}): RetroItem => ({
+  id,
+  board_id: 'board',
+  column_id: 'column',
+  content: id,
+  created_by: 'alice',
+  created_at: '2025-01-01T10:00:00Z',
+  edited_at: null,
+  hidden_at: null,
+  group_id: null,
+  votes: [],
+  comments: [],
+  ...overrides,
+});
+
+const ids = (items: { id: string }[]) => items.map((row) => row.id);
+
+describe('parseFilters and formatFilters', () => {
+  it('round-trips filters through the query string', () => {
+    const filters = { query: 'slow deploys', author: 'bob', mine: false, voted: true, hasComments: true, sort: 'newest' as const };
+    const search = formatFilters(filters);
+    expect(search).toBe('?q=slow+deploys&author=bob&voted=1&comments=1&sort=newest');
+    expect(parseFilters(search)).toEqual(filters);
+  });
+
+  it('leaves out defaults and keeps unrelated parameters', () => {
+    expect(formatFilters(DEFAULT_FILTERS)).toBe('');
+    expect(formatFilters({ ...DEFAULT_FILTERS, mine: true }, '?invite=abc&q=old')).toBe('?invite=abc&mine=1');
+  });
+
+  it('falls back to the default sort for unknown modes', () => {
+    expect(parseFilters('?sort=random').sort).toBe('votes');
+  });
+
+  it('does not count the sort order as filtering', () => {
+    expect(isFiltering({ ...DEFAULT_FILTERS, sort: 'oldest' })).toBe(false);
+    expect(isFiltering({ ...DEFAULT_FILTERS, query: ' ' })).toBe(false);
+    expect(isFiltering({ ...DEFAULT_FILTERS, voted: true })).toBe(true);
+  });
+});
+
+describe('filterItems', () => {
+  const comment = (content: string) => ({
+    id: `comment-${content}`,
+    board_id: 'board',
+    retro_item_id: 'a',
+    content,
+    user_id: 'bob',
+    created_at: '2025-01-01T10:00:00Z',
+    edited_at: null,
+    parent_id: null,
+  });
+
+  it('searches cards and their comments for every word', () => {
+    const items = [
+      item('a', { content: 'Deploys are slow', comments: [comment('Blocked on CI')] }),
+      item('b', { content: 'Deploys were fine' }),
+      item('c', { content: 'CI is flaky' }),
+    ];
+    expect(ids(filterItems(items, { ...DEFAULT_FILTERS, query: 'deploys ci' }, 'alice'))).toEqual(['a']);
+    expect(ids(filterItems(items, { ...DEFAULT_FILTERS, query: 'DEPLOYS' }, 'alice'))).toEqual(['a', 'b']);
+  });
+
+  it('filters by author, own cards, votes and comments', () => {
+    const items = [
+      item('a', { votes: [{ id: 'v', board_id: 'board', retro_item_id: 'a', user_id: 'bob' }] }),
+      item('b', { created_by: 'bob', comments: [comment('Agreed')] }),
+    ];
+    expect(ids(filterItems(items, { ...DEFAULT_FILTERS, author: 'bob' }, 'alice'))).toEqual(['b']);
+    expect(ids(filterItems(items, { ...DEFAULT_FILTERS, mine: true }, 'alice'))).toEqual(['a']);
+    expect(ids(filterItems(items, { ...DEFAULT_FILTERS, voted: true }, 'bob'))).toEqual(['a']);
+    expect(ids(filterItems(items, { ...DEFAULT_FILTERS, hasComments: true }, 'alice'))).toEqual(['b']);
+    expect(filterItems(items, { ...DEFAULT_FILTERS, mine: true }, undefined)).toEqual([]);
+  });
+
+  it('never matches hidden cards by what they say or who wrote them', () => {
+    const items = [item('secret', { created_by: 'bob', content: 'Secret plan' })];
+    const isHidden = () => true;
+    expect(filterItems(items, { ...DEFAULT_FILTERS, query: 'secret' }, 'alice', isHidden)).toEqual([]);
+    expect(filterItems(items, { ...DEFAULT_FILTERS, author: 'bob' }, 'alice', isHidden)).toEqual([]);
+    expect(ids(filterItems(items, DEFAULT_FILTERS, 'alice', isHidden))).toEqual(['secret']);
+  });
+
+  it('keeps a group whole when one of its cards matches', () => {
+    const items = [
+      item('a', { group_id: 'group', content: 'Flaky tests' }),
+      item('b', { group_id: 'group', content: 'Slow builds' }),
+      item('c', { content: 'Slow reviews' }),
+    ];
+    expect(ids(filterItems(items, { ...DEFAULT_FILTERS, query: 'flaky' }, 'alice'))).toEqual(['a', 'b']);
+  });
+});
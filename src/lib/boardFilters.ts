@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import type { MessageKey } from './i18n';
+import type { SortMode } from './items';
+import type { RetroItem } from '../types';
+
+export const SORT_MODES: SortMode[] = ['votes', 'newest', 'oldest', 'discussed'];
+
+export const SORT_LABELS: Record<SortMode, MessageKey> = {
+  votes: 'sort.votes',
+  newest: 'sort.newest',
+  oldest: 'sort.oldest',
+  discussed: 'sort.discussed',
+};
+
+export interface BoardFilters {
+  // Words that must all appear in a card or its comments
+  query: string;
+  // User id of the cards' author
+  author: string | null;
+  mine: boolean;
+  voted: boolean;
+  hasComments: boolean;
+  sort: SortMode;
+}
+
+export const DEFAULT_FILTERS: BoardFilters = {
+  query: '',
+  author: null,
+  mine: false,
+  voted: false,
+  hasComments: false,
+  sort: 'votes',
+};
+
+// Flags are written as `?mine=1`; anything else in the URL is left alone.
+export function parseFilters(search: string): BoardFilters {
+  const params = new URLSearchParams(search);
+  const sort = params.get('sort') as SortMode | null;
+  return {
+    query: params.get('q') ?? '',
+    author: params.get('author') || null,
+    mine: params.get('mine') === '1',
+    voted: params.get('voted') === '1',
+    hasComments: params.get('comments') === '1',
+    sort: sort && SORT_MODES.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+  };
+}
+
+// The query string for `filters`, e.g. "?q=deploy&sort=newest", or '' when nothing is set.
+export function formatFilters(filters: BoardFilters, search = ''): string {
+  const params = new URLSearchParams(search);
+  const set = (key: string, value: string | null) => (value ? params.set(key, value) : params.delete(key));
+  set('q', filters.query.trim() || null);
+  set('author', filters.author);
+  set('mine', filters.mine ? '1' : null);
+  set('voted', filters.voted ? '1' : null);
+  set('comments', filters.hasComments ? '1' : null);
+  set('sort', filters.sort === DEFAULT_FILTERS.sort ? null : filters.sort);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+// Whether any filter narrows the cards down; the sort order doesn't count.
+export const isFiltering = (filters: BoardFilters) =>
+  !!filters.query.trim() || !!filters.author || filters.mine || filters.voted || filters.hasComments;
+
+const normalize = (text: string) => text.toLocaleLowerCase();
+
+/**
+ * The cards that pass every filter. A group is kept whole when any of its cards passes,
+ * the same way it is voted on as one. Cards in `isHidden` (other people's cards during the
+ * write phase) never match a search or an author, so filtering can't reveal what they say
+ * or who wrote them.
+ */
+export function filterItems(
+  items: RetroItem[],
+  filters: BoardFilters,
+  userId: string | undefined,
+  isHidden: (item: RetroItem) => boolean = () => false
+): RetroItem[] {
+  const terms = normalize(filters.query).split(/\s+/).filter(Boolean);
+
+  const matches = (item: RetroItem) => {
+    if (filters.author && (isHidden(item) || item.created_by !== filters.author)) return false;
+    if (filters.mine && (!userId || item.created_by !== userId)) return false;
+    if (filters.voted && (!userId || !item.votes?.some((vote) => vote.user_id === userId))) return false;
+    if (filters.hasComments && !item.comments?.length) return false;
+    if (terms.length > 0) {
+      if (isHidden(item)) return false;
+      const text = normalize([item.content, ...(item.comments || []).map((comment) => comment.content)].join('\n'));
+      if (!terms.every((term) => text.includes(term))) return false;
+    }
+    return true;
+  };
+
+  const matched = new Set(items.filter(matches).map((item) => item.id));
+  const matchedGroups = new Set(items.filter((item) => matched.has(item.id)).map((item) => item.group_id));
+  return items.filter((item) => matched.has(item.id) || (item.group_id && matchedGroups.has(item.group_id)));
+}
+
+/** The board's filters, kept in the query string so that a filtered view can be shared. */
+export function useBoardFilters() {
+  const [filters, setFiltersState] = useState(() => parseFilters(window.location.search));
+
+  useEffect(() => {
+    const handlePopState = () => setFiltersState(parseFilters(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const setFilters = (changes: Partial<BoardFilters>) => {
+    const next = { ...filters, ...changes };
+    setFiltersState(next);
+    // Replaced rather than pushed, so typing a search doesn't fill up the back button
+    const { pathname, search, hash } = window.location;
+    window.history.replaceState(null, '', `${pathname}${formatFilters(next, search)}${hash}`);
+  };
+
+  const clearFilters = () => setFilters({ ...DEFAULT_FILTERS, sort: filters.sort });
+
+  return { filters, setFilters, clearFilters };
+}
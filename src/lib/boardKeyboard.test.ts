@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getCardLabel, getNextCard } from './boardKeyboard';
+import type { RetroItem } from '../types';
+
+describe('getNextCard', () => {
+  const columns = [['a1', 'a2', 'a3'], [], ['c1']];
+
+  it('moves up and down within a column and stops at the ends', () => {
+    expect(getNextCard(columns, 'a2', 'down')).toBe('a3');
+    expect(getNextCard(columns, 'a2', 'up')).toBe('a1');
+    expect(getNextCard(columns, 'a1', 'up')).toBeNull();
+    expect(getNextCard(columns, 'a3', 'down')).toBeNull();
+    expect(getNextCard(columns, 'a2', 'last')).toBe('a3');
+  });
+
+  it('skips empty columns and keeps the row where the next column is long enough', () => {
+    expect(getNextCard(columns, 'a3', 'right')).toBe('c1');
+    expect(getNextCard(columns, 'c1', 'left')).toBe('a1');
+    expect(getNextCard([['a1', 'a2'], ['b1', 'b2']], 'a2', 'right')).toBe('b2');
+    expect(getNextCard(columns, 'c1', 'right')).toBeNull();
+  });
+
+  it('has nowhere to go from a card that is not on the board', () => {
+    expect(getNextCard(columns, 'missing', 'down')).toBeNull();
+  });
+});
+
+describe('getCardLabel', () => {
+  const item: RetroItem = {
+    id: 'item',
+    board_id: 'board',
+    column_id: 'column',
+    content: 'Deploys were slow',
+    created_by: 'alice',
+    created_at: '2025-01-01T10:00:00Z',
+    edited_at: null,
+    hidden_at: null,
+    group_id: null,
+    votes: [{ id: 'vote', board_id: 'board', retro_item_id: 'item', user_id: 'bob' }],
+    comments: [],
+    users: { nickname: 'Alice' },
+  };
+
+  it('reads out the author, the text and the counts', () => {
+    expect(getCardLabel(item, 2)).toBe('Alice: Deploys were slow. 1 vote, 2 comments');
+    expect(getCardLabel({ ...item, users: null, votes: [] }, 1)).toBe('Anonymous: Deploys were slow. 0 votes, 1 comment');
+  });
+});
@@ -0,0 +1,84 @@
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { t, type MessageKey } from './i18n';
+import type { RetroItem } from '../types';
+
+export type CardMove = 'up' | 'down' | 'left' | 'right' | 'first' | 'last';
+
+export const CARD_MOVES: Record<string, CardMove> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  Home: 'first',
+  End: 'last',
+};
+
+export interface KeyboardShortcut {
+  keys: string[];
+  description: MessageKey;
+}
+
+// Listed by the "?" help. The keys are handled in BoardView, and on the focused card in RetroItemCard.
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['←', '→'], description: 'shortcuts.moveAcross' },
+  { keys: ['↑', '↓'], description: 'shortcuts.moveUpDown' },
+  { keys: ['Home', 'End'], description: 'shortcuts.firstLast' },
+  { keys: ['N'], description: 'shortcuts.newCard' },
+  { keys: ['Ctrl+Enter'], description: 'shortcuts.addCard' },
+  { keys: ['Esc'], description: 'shortcuts.stopWriting' },
+  { keys: ['V'], description: 'shortcuts.vote' },
+  { keys: ['Shift+V'], description: 'shortcuts.unvote' },
+  { keys: ['C'], description: 'shortcuts.comment' },
+  { keys: ['E'], description: 'shortcuts.edit' },
+  { keys: ['Delete'], description: 'shortcuts.delete' },
+  { keys: ['?'], description: 'shortcuts.help' },
+];
+
+/**
+ * The card to focus after moving from `cardId`, given the ids of each column's cards in the order
+ * they're shown. Left and right skip empty columns and stay on the same row where they can.
+ */
+export function getNextCard(columns: string[][], cardId: string, move: CardMove): string | null {
+  const columnIndex = columns.findIndex((ids) => ids.includes(cardId));
+  if (columnIndex === -1) return null;
+
+  const cards = columns[columnIndex];
+  const row = cards.indexOf(cardId);
+
+  switch (move) {
+    case 'up':
+      return cards[row - 1] ?? null;
+    case 'down':
+      return cards[row + 1] ?? null;
+    case 'first':
+      return cards[0];
+    case 'last':
+      return cards[cards.length - 1];
+    case 'left':
+    case 'right': {
+      const step = move === 'left' ? -1 : 1;
+      for (let index = columnIndex + step; index >= 0 && index < columns.length; index += step) {
+        const target = columns[index];
+        if (target.length > 0) return target[Math.min(row, target.length - 1)];
+      }
+      return null;
+    }
+  }
+}
+
+/** What a screen reader says when a card is focused. */
+export function getCardLabel(item: RetroItem, commentCount: number): string {
+  return t('cards.label', {
+    author: item.users?.nickname || t('common.anonymous'),
+    content: item.content,
+    count: item.votes?.length || 0,
+    comments: t('cards.comments', { count: commentCount }),
+  });
+}
+
+// Single-key shortcuts stay out of the way while typing, with modifiers held, or in a dialog.
+export function isShortcutTarget(e: KeyboardEvent | ReactKeyboardEvent): boolean {
+  if (e.ctrlKey || e.metaKey || e.altKey) return false;
+  const target = e.target instanceof Element ? e.target : null;
+  return !target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"], [role="alertdialog"]');
+}
@@ -0,0 +1,15 @@
+import { getLocale, t } from './i18n';
+import type { RetroBoard } from '../types';
+
+const formatDate = (value: string) =>
+  // Board dates are plain `date` columns; parse them as local dates so they don't shift a day.
+  new Date(`${value}T00:00:00`).toLocaleDateString(getLocale());
+
+export function formatBoardDates(board: Pick<RetroBoard, 'starts_on' | 'ends_on'>) {
+  if (board.starts_on && board.ends_on) {
+    return `${formatDate(board.starts_on)} – ${formatDate(board.ends_on)}`;
+  }
+  if (board.starts_on) return t('boards.from', { date: formatDate(board.starts_on) });
+  if (board.ends_on) return t('boards.until', { date: formatDate(board.ends_on) });
+  return '';
+}
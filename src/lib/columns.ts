@@ -0,0 +1,96 @@
+import { insforge } from './insforge';
+import { t, translateDefault, type MessageKey } from './i18n';
+import { TEMPLATE_TEXT, type ColumnTemplate } from './templates';
+import type { BoardColumn, ColumnColor } from '../types';
+
+// Full class names so Tailwind picks them up.
+export const COLUMN_COLORS: Record<ColumnColor, string> = {
+  green: 'bg-green-50/30',
+  red: 'bg-red-50/30',
+  blue: 'bg-blue-50/30',
+  yellow: 'bg-yellow-50/30',
+  purple: 'bg-purple-50/30',
+  orange: 'bg-orange-50/30',
+  pink: 'bg-pink-50/30',
+  gray: 'bg-gray-50/30',
+};
+
+export const COLUMN_SWATCHES: Record<ColumnColor, string> = {
+  green: 'bg-green-400',
+  red: 'bg-red-400',
+  blue: 'bg-blue-400',
+  yellow: 'bg-yellow-400',
+  purple: 'bg-purple-400',
+  orange: 'bg-orange-400',
+  pink: 'bg-pink-400',
+  gray: 'bg-gray-400',
+};
+
+export const COLUMN_COLOR_LABELS: Record<ColumnColor, MessageKey> = {
+  green: 'colors.green',
+  red: 'colors.red',
+  blue: 'colors.blue',
+  yellow: 'colors.yellow',
+  purple: 'colors.purple',
+  orange: 'colors.orange',
+  pink: 'colors.pink',
+  gray: 'colors.gray',
+};
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'lg:grid-cols-1',
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+  5: 'lg:grid-cols-3 xl:grid-cols-5',
+  6: 'lg:grid-cols-3 xl:grid-cols-6',
+};
+
+// Boards with more columns than we have classes for wrap onto a second row.
+export const getGridColumnsClass = (count: number) => GRID_COLUMNS[count] ?? 'lg:grid-cols-3 xl:grid-cols-4';
+
+// Template columns read in the current language; labels the facilitator typed are shown as typed.
+export const getColumnLabel = (column: Pick<BoardColumn, 'label'>) => translateDefault(column.label, TEMPLATE_TEXT);
+
+export const getColumnPlaceholder = (column: Pick<BoardColumn, 'label' | 'placeholder'>) =>
+  column.placeholder
+    ? translateDefault(column.placeholder, TEMPLATE_TEXT)
+    : t('columns.placeholder', { label: getColumnLabel(column) });
+
+// A column being edited; `id` is missing for columns that haven't been saved yet.
+export type ColumnDraft = ColumnTemplate & { id?: string };
+
+export async function createBoardColumns(boardId: string, columns: ColumnTemplate[]) {
+  const { error } = await insforge.database
+    .from('board_columns')
+    .insert(columns.map((column, position) => ({ ...column, board_id: boardId, position })));
+
+  if (error) throw error;
+}
+
+/**
+ * Brings a board's columns in line with the edited list: removed columns are deleted
+ * (together with their cards), the rest are updated or inserted in list order.
+ */
+export async function saveBoardColumns(boardId: string, existing: BoardColumn[], drafts: ColumnDraft[]) {
+  const keptIds = new Set(drafts.map((draft) => draft.id).filter(Boolean));
+  const removedIds = existing.filter((column) => !keptIds.has(column.id)).map((column) => column.id);
+
+  if (removedIds.length > 0) {
+    const { error } = await insforge.database.from('board_columns').delete().in('id', removedIds);
+    if (error) throw error;
+  }
+
+  for (const [position, draft] of drafts.entries()) {
+    const values = {
+      label: draft.label.trim(),
+      color: draft.color,
+      placeholder: draft.placeholder?.trim() || null,
+      position,
+    };
+    const { error } = draft.id
+      ? await insforge.database.from('board_columns').update(values).eq('id', draft.id).eq('board_id', boardId)
+      : await insforge.database.from('board_columns').insert([{ ...values, board_id: boardId }]);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import { useSyncExternalStore } from 'react';
+import { t } from './i18n';
+
+export interface ConfirmOptions {
+  // Label of the confirming button; defaults to "Delete" since most prompts guard a deletion.
+  confirmLabel?: string;
+  tone?: 'danger' | 'default';
+}
+
+export interface ConfirmRequest extends Required<ConfirmOptions> {
+  message: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+let request: ConfirmRequest | null = null;
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+export function settleConfirm(confirmed: boolean) {
+  const current = request;
+  request = null;
+  emit();
+  current?.resolve(confirmed);
+}
+
+/** Asks the user to confirm in an accessible dialog instead of `confirm()`. Resolves to false when dismissed. */
+export function confirmAction(message: string, options: ConfirmOptions = {}): Promise<boolean> {
+  // Only one question at a time: a new one cancels whatever was still open.
+  if (request) settleConfirm(false);
+
+  return new Promise((resolve) => {
+    request = { message, confirmLabel: options.confirmLabel ?? t('common.delete'), tone: options.tone ?? 'danger', resolve };
+    emit();
+  });
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useConfirmRequest = () => useSyncExternalStore(subscribe, () => request);
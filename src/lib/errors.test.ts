@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { DataError, getErrorMessage } from './errors';
+
+describe('getErrorMessage', () => {
+  it('reads the message of an error or an InsForge envelope', () => {
+    expect(getErrorMessage(new Error('Vote budget used up'), 'Failed to vote.')).toBe('Vote budget used up');
+    expect(getErrorMessage({ error: { message: 'Not allowed' } }, 'Failed to vote.')).toBe('Not allowed');
+    expect(getErrorMessage(null, 'Failed to vote.')).toBe('Failed to vote.');
+  });
+
+  it("prefers the caller's message over a repository catch-all", () => {
+    expect(getErrorMessage(new DataError('Failed to add vote.', { generic: true }), '投票できませんでした。')).toBe(
+      '投票できませんでした。'
+    );
+    expect(getErrorMessage(new DataError('Vote budget used up'), '投票できませんでした。')).toBe('Vote budget used up');
+  });
+});
@@ -0,0 +1,21 @@
+// InsForge returns either an Error-like object or a `{ error: { message } }` envelope. A
+// `DataError` that only carries the repository's own generic message gives way to `fallback`.
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof DataError && error.generic) {
+    return fallback;
+  }
+  const err = error as { message?: string; error?: { message?: string } } | null | undefined;
+  return err?.message || err?.error?.message || fallback;
+}
+
+// Thrown by the data repositories (see `repository.ts`), whichever backend rejected the request.
+export class DataError extends Error {
+  // True when the backend gave no reason, so the message is the repository's catch-all
+  readonly generic: boolean;
+
+  constructor(message: string, options?: ErrorOptions & { generic?: boolean }) {
+    super(message, options);
+    this.name = 'DataError';
+    this.generic = options?.generic ?? false;
+  }
+}
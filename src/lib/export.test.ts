@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { exportFileName, parseBoardExport, toBoardExport, toCsv, toMarkdown } from './export';
+import type { BoardColumn, ItemGroup, RetroBoard, RetroItem } from '../types';
+
+const column: BoardColumn = {
+  id: 'column',
+  board_id: 'board',
+  label: 'Went Well',
+  color: 'green',
+  placeholder: null,
+  position: 0,
+};
+
+const item = (id: string, content: string): RetroItem => ({
+  id,
+  board_id: 'board',
+  column_id: 'column',
+  content,
+  created_by: 'alice',
+  created_at: '2025-01-01T10:00:00Z',
+  edited_at: null,
+  hidden_at: null,
+  group_id: null,
+  users: { nickname: 'Alice' },
+  votes: [],
+  comments: [],
+});
+
+const board: RetroBoard = {
+  id: 'board',
+  name: 'Sprint 12',
+  sprint_label: null,
+  starts_on: null,
+  ends_on: null,
+  created_by: 'alice',
+  created_at: '2025-01-01T09:00:00Z',
+  phase: 'done',
+  vote_budget: 5,
+  max_votes_per_item: 1,
+  anonymity: 'none',
+  present_item_id: null,
+  present_ends_at: null,
+  topic_minutes: 5,
+  previous_board_id: null,
+};
+
+describe('toMarkdown', () => {
+  it('counts votes per card and per group', () => {
+    const group: ItemGroup = {
+      id: 'g',
+      board_id: 'board',
+      name: 'Deploys',
+      created_by: 'alice',
+      created_at: '2025-01-01T10:00:00Z',
+    };
+    const voted = (id: string, count: number, groupId: string | null) => ({
+      ...item(id, id),
+      group_id: groupId,
+      votes: Array.from({ length: count }, (_, index) => ({
+        id: `${id}-${index}`,
+        board_id: 'board',
+        retro_item_id: id,
+        user_id: null,
+      })),
+    });
+    const empty: BoardColumn = { ...column, id: 'empty', label: 'To Improve', position: 1 };
+
+    expect(toMarkdown(board, [column, empty], [voted('a', 1, 'g'), voted('b', 0, 'g'), voted('c', 2, null)], [group]))
+      .toBe(`# Sprint 12
+
+## Went Well
+
+- **Deploys** (group, 1 vote)
+  - **a** (1 vote) — Alice
+  - **b** (0 votes) — Alice
+- **c** (2 votes) — Alice
+
+## To Improve
+
+_No items_
+`);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const [, row] = toCsv([column], [item('a', 'Fast, "stable"\nbuilds')], []).split('\r\n');
+    expect(row).toBe('Went Well,"Fast, ""stable""\nbuilds",0,Alice,,0,2025-01-01T10:00:00Z');
+  });
+
+  it('keeps spreadsheets from reading card text as a formula', () => {
+    const rows = toCsv([column], [item('a', '=HYPERLINK("x")'), item('b', '+1'), item('c', '-2'), item('d', '@me')], [])
+      .split('\r\n')
+      .slice(1)
+      .map((row) => row.split(',')[1]);
+    expect(rows).toEqual(['"\'=HYPERLINK(""x"")"', "'+1", "'-2", "'@me"]);
+  });
+
+  it('also guards a leading tab or carriage return', () => {
+    const rows = toCsv([column], [item('a', '\t=1+1'), item('b', '\r=1+1')], [])
+      .split('\r\n')
+      .slice(1)
+      .map((row) => row.split(',')[1]);
+    expect(rows).toEqual(["'\t=1+1", '"\'\r=1+1"']);
+  });
+});
+
+describe('toBoardExport', () => {
+
+  it('keeps comment threads and reactions', () => {
+    const comment = (id: string, parentId: string | null) => ({
+      id,
+      board_id: 'board',
+      retro_item_id: 'a',
+      user_id: 'alice',
+      content: id,
+      created_at: '2025-01-01T10:00:00Z',
+      edited_at: null,
+      parent_id: parentId,
+    });
+    const reaction = (id: string, commentId: string | null) => ({
+      id,
+      board_id: 'board',
+      retro_item_id: 'a',
+      comment_id: commentId,
+      user_id: 'bob',
+      emoji: '👍',
+      created_at: '2025-01-01T10:00:00Z',
+      users: { nickname: 'Bob' },
+    });
+    const card = {
+      ...item('a', 'Card'),
+      comments: [comment('question', null), comment('answer', 'question')],
+      reactions: [reaction('on-card', null), reaction('on-answer', 'answer')],
+    };
+
+    const [exported] = toBoardExport(board, [column], [card], []).items;
+    expect(exported.reactions).toEqual([{ emoji: '👍', user_id: 'bob', reactor: 'Bob' }]);
+    expect(exported.comments.map(({ id, parent_id, reactions }) => [id, parent_id, reactions.length])).toEqual([
+      ['question', null, 0],
+      ['answer', 'question', 1],
+    ]);
+  });
+
+  it('reads back what it wrote, and older exports', () => {
+    const json = JSON.stringify(toBoardExport(board, [column], [item('a', 'Card')], []));
+    expect(parseBoardExport(json).items).toHaveLength(1);
+    expect(parseBoardExport(json.replace('"version":2', '"version":1')).version).toBe(1);
+    expect(() => parseBoardExport(json.replace('"version":2', '"version":3'))).toThrow();
+  });
+});
+
+describe('exportFileName', () => {
+  it('keeps letters from any script in the slug', () => {
+    expect(exportFileName({ name: 'Sprint Retro!', sprint_label: 'S-12' }, 'md')).toBe('sprint-retro-s-12.md');
+    expect(exportFileName({ name: 'チーム振り返り', sprint_label: null }, 'csv')).toBe('チーム振り返り.csv');
+  });
+
+  it('falls back to "retro" when nothing is left', () => {
+    expect(exportFileName({ name: '!!!', sprint_label: null }, 'json')).toBe('retro.json');
+  });
+});
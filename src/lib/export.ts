@@ -0,0 +1,239 @@
+import { getColumnLabel } from './columns';
+import { t } from './i18n';
+import { clusterItems, getCommentThreads } from './items';
+import type { BoardColumn, ItemGroup, Reaction, RetroBoard, RetroItem } from '../types';
+
+// Bump `EXPORT_VERSION` whenever the shape changes, and teach `import_board`
+// (db/migrations/022_import_threads.sql) to read the new version.
+export const EXPORT_FORMAT = 'sprint-retro-board';
+export const EXPORT_VERSION = 2;
+
+// Version 1 had no comment ids or reactions; its comments import without threads.
+const READABLE_VERSIONS: number[] = [1, EXPORT_VERSION];
+
+export interface ExportedReaction {
+  emoji: string;
+  user_id: string | null;
+  reactor: string | null;
+}
+
+export interface ExportedItem {
+  id: string;
+  column_id: string;
+  group_id: string | null;
+  content: string;
+  // null when the board hid the author from whoever exported it
+  created_by: string | null;
+  author: string | null;
+  created_at: string;
+  edited_at: string | null;
+  votes: { user_id: string | null; voter: string | null }[];
+  // Reactions to the card itself; reactions to a comment are listed on the comment
+  reactions: ExportedReaction[];
+  comments: {
+    id: string;
+    // The comment this one replies to
+    parent_id: string | null;
+    user_id: string | null;
+    author: string | null;
+    content: string;
+    created_at: string;
+    edited_at: string | null;
+    reactions: ExportedReaction[];
+  }[];
+}
+
+export interface BoardExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  board: Pick<
+    RetroBoard,
+    'name' | 'sprint_label' | 'starts_on' | 'ends_on' | 'phase' | 'vote_budget' | 'max_votes_per_item' | 'anonymity'
+  >;
+  columns: Pick<BoardColumn, 'id' | 'label' | 'color' | 'placeholder' | 'position'>[];
+  groups: Pick<ItemGroup, 'id' | 'name'>[];
+  items: ExportedItem[];
+}
+
+const authorName = (users: RetroItem['users']) => users?.nickname || t('common.anonymous');
+
+const toExportedReactions = (reactions: Reaction[], commentId: string | null): ExportedReaction[] =>
+  reactions
+    .filter((reaction) => reaction.comment_id === commentId)
+    .map((reaction) => ({ emoji: reaction.emoji, user_id: reaction.user_id, reactor: reaction.users?.nickname ?? null }));
+
+// Keeps card text on its list line; Markdown would otherwise start a new paragraph.
+const inline = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+export function toBoardExport(
+  board: RetroBoard,
+  columns: BoardColumn[],
+  items: RetroItem[],
+  groups: ItemGroup[]
+): BoardExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    board: {
+      name: board.name,
+      sprint_label: board.sprint_label,
+      starts_on: board.starts_on,
+      ends_on: board.ends_on,
+      phase: board.phase,
+      vote_budget: board.vote_budget,
+      max_votes_per_item: board.max_votes_per_item,
+      anonymity: board.anonymity,
+    },
+    columns: columns.map(({ id, label, color, placeholder, position }) => ({ id, label, color, placeholder, position })),
+    groups: groups.map(({ id, name }) => ({ id, name })),
+    items: items.map((item) => ({
+      id: item.id,
+      column_id: item.column_id,
+      group_id: item.group_id,
+      content: item.content,
+      created_by: item.created_by,
+      author: item.users?.nickname ?? null,
+      created_at: item.created_at,
+      edited_at: item.edited_at,
+      votes: (item.votes || []).map((vote) => ({ user_id: vote.user_id, voter: vote.users?.nickname ?? null })),
+      reactions: toExportedReactions(item.reactions || [], null),
+      comments: (item.comments || []).map((comment) => ({
+        id: comment.id,
+        parent_id: comment.parent_id,
+        user_id: comment.user_id,
+        author: comment.users?.nickname ?? null,
+        content: comment.content,
+        created_at: comment.created_at,
+        edited_at: comment.edited_at,
+        reactions: toExportedReactions(item.reactions || [], comment.id),
+      })),
+    })),
+  };
+}
+
+/**
+ * One section per column with cards in ranking order (groups by combined votes), images
+ * and comments nested under their card and replies under their comment. Expects `items` as sorted by `sortItems`.
+ */
+export function toMarkdown(board: RetroBoard, columns: BoardColumn[], items: RetroItem[], groups: ItemGroup[]) {
+  const lines = [`# ${inline(board.name)}`, ''];
+  const details = [board.sprint_label, board.starts_on && board.ends_on ? `${board.starts_on} – ${board.ends_on}` : null];
+  if (details.some(Boolean)) {
+    lines.push(details.filter(Boolean).join(' · '), '');
+  }
+
+  const writeCard = (item: RetroItem, indent: string) => {
+    const votes = item.votes?.length || 0;
+    lines.push(`${indent}- **${inline(item.content)}** (${t('export.votes', { count: votes })}) — ${authorName(item.users)}`);
+    for (const attachment of item.attachments || []) {
+      lines.push(`${indent}  - ![${inline(attachment.file_name)}](${attachment.url})`);
+    }
+    for (const { comment, replies } of getCommentThreads(item.comments || [])) {
+      lines.push(`${indent}  - ${inline(comment.content)} — _${authorName(comment.users)}_`);
+      for (const reply of replies) {
+        lines.push(`${indent}    - ${inline(reply.content)} — _${authorName(reply.users)}_`);
+      }
+    }
+  };
+
+  for (const column of columns) {
+    lines.push(`## ${inline(getColumnLabel(column))}`, '');
+    const clusters = clusterItems(items.filter((item) => item.column_id === column.id));
+    if (clusters.length === 0) {
+      lines.push(`_${t('export.emptyColumn')}_`);
+    }
+    for (const { groupId, items: members } of clusters) {
+      if (!groupId) {
+        writeCard(members[0], '');
+        continue;
+      }
+      const name = groups.find((group) => group.id === groupId)?.name ?? t('groups.untitled');
+      const votes = members.reduce((total, member) => total + (member.votes?.length || 0), 0);
+      lines.push(`- **${inline(name)}** (${t('export.groupVotes', { count: votes })})`);
+      members.forEach((member) => writeCard(member, '  '));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+// A leading `'` stops spreadsheets from running card text that looks like a formula.
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_HEADER_KEYS = [
+  'export.csv.column',
+  'export.csv.item',
+  'export.csv.votes',
+  'export.csv.author',
+  'export.csv.group',
+  'export.csv.comments',
+  'export.csv.createdAt',
+] as const;
+
+// One row per card, with the headers in the current language.
+export function toCsv(columns: BoardColumn[], items: RetroItem[], groups: ItemGroup[]) {
+  const rows = columns.flatMap((column) =>
+    items
+      .filter((item) => item.column_id === column.id)
+      .map((item) => [
+        getColumnLabel(column),
+        item.content,
+        item.votes?.length || 0,
+        authorName(item.users),
+        groups.find((group) => group.id === item.group_id)?.name ?? '',
+        item.comments?.length || 0,
+        item.created_at,
+      ])
+  );
+  return [CSV_HEADER_KEYS.map((key) => t(key)), ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/** Checks an uploaded file is a board export this version of the app can import. */
+export function parseBoardExport(text: string): BoardExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('export.invalidJson'));
+  }
+
+  const candidate = data as Partial<BoardExport> | null;
+  if (candidate?.format !== EXPORT_FORMAT) {
+    throw new Error(t('export.notAnExport'));
+  }
+  if (!READABLE_VERSIONS.includes(candidate.version as number)) {
+    throw new Error(t('export.unsupportedVersion', { version: String(candidate.version) }));
+  }
+  if (!candidate.board?.name || !Array.isArray(candidate.columns) || candidate.columns.length === 0) {
+    throw new Error(t('export.noColumns'));
+  }
+  if (!Array.isArray(candidate.items) || !Array.isArray(candidate.groups)) {
+    throw new Error(t('export.noItems'));
+  }
+  return candidate as BoardExport;
+}
+
+export const exportFileName = (board: Pick<RetroBoard, 'name' | 'sprint_label'>, extension: string) => {
+  const slug = [board.name, board.sprint_label]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'retro'}.${extension}`;
+};
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
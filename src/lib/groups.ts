@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { insforge } from './insforge';
+import { getErrorMessage } from './errors';
+import { t } from './i18n';
+import { useBoardEvent } from './realtime';
+import { showToast } from './toast';
+import type { ItemGroup } from '../types';
+
+// Published by the grouping functions in db/migrations/008_item_groups.sql.
+const GROUPS_CHANGED_EVENT = 'board.groups_changed';
+
+/**
+ * The board's card groups. Membership lives on `retro_items.group_id`, so `onMembershipChange`
+ * is called whenever grouping changes, here or on another participant's screen, to reload items.
+ */
+export function useItemGroups(boardId: string, onMembershipChange: () => void) {
+  const [groups, setGroups] = useState<ItemGroup[]>([]);
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const { data, error } = await insforge.database.from('item_groups').select('*').eq('board_id', boardId);
+
+      if (error) throw error;
+      setGroups(data || []);
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load groups.'));
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  useBoardEvent(boardId, GROUPS_CHANGED_EVENT, () => {
+    fetchGroups();
+    onMembershipChange();
+  });
+
+  const groupItems = async (itemIds: string[], targetItemId: string) => {
+    try {
+      const { error } = await insforge.database.rpc('group_items', {
+        item_ids: itemIds,
+        target_item_id: targetItemId,
+      });
+
+      if (error) throw error;
+      fetchGroups();
+      onMembershipChange();
+    } catch (error) {
+      console.error('Error grouping items:', error);
+      showToast(getErrorMessage(error, t('groups.groupFailed')));
+    }
+  };
+
+  const ungroupItems = async (itemIds: string[]) => {
+    try {
+      const { error } = await insforge.database.rpc('ungroup_items', { item_ids: itemIds });
+
+      if (error) throw error;
+      fetchGroups();
+      onMembershipChange();
+    } catch (error) {
+      console.error('Error ungrouping items:', error);
+      showToast(getErrorMessage(error, t('groups.ungroupFailed')));
+    }
+  };
+
+  const renameGroup = async (group: ItemGroup, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === group.name) return;
+
+    try {
+      const { error } = await insforge.database.rpc('rename_item_group', { group_id: group.id, name: trimmed });
+
+      if (error) throw error;
+      setGroups((current) => current.map((row) => (row.id === group.id ? { ...row, name: trimmed } : row)));
+    } catch (error) {
+      console.error('Error renaming group:', error);
+      showToast(getErrorMessage(error, t('groups.renameFailed')));
+    }
+  };
+
+  return { groups, refresh: fetchGroups, groupItems, ungroupItems, renameGroup };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { formatChange, getHealthTrends, getMetricLabels } from './health';
+import type { HealthResult } from '../types';
+
+const result = (
+  boardId: string,
+  boardCreatedAt: string,
+  label: string,
+  average: number | null,
+  overrides: Partial<HealthResult> = {}
+): HealthResult => ({
+  board_id: boardId,
+  board_created_at: boardCreatedAt,
+  metric_id: `${boardId}-${label}`,
+  label,
+  position: 0,
+  response_count: average === null ? 1 : 4,
+  average,
+  counts: average === null ? null : [0, 1, 1, 1, 1],
+  ...overrides,
+});
+
+describe('getHealthTrends', () => {
+  const results = [
+    result('sprint-1', '2025-01-01T10:00:00Z', 'Pace', 2.5),
+    result('sprint-2', '2025-01-15T10:00:00Z', 'pace ', 3),
+    result('sprint-3', '2025-01-29T10:00:00Z', 'Pace', null),
+    result('sprint-4', '2025-02-12T10:00:00Z', 'Pace', 3.75),
+    result('sprint-4', '2025-02-12T10:00:00Z', 'Fun', 4, { position: 1 }),
+  ];
+
+  it('compares each metric with the last earlier board that has an average for it', () => {
+    const [pace, fun] = getHealthTrends(results, 'sprint-4');
+    expect(pace.previous?.board_id).toBe('sprint-2');
+    expect(pace.change).toBe(0.75);
+    expect(pace.history.map((point) => point.board_id)).toEqual(['sprint-1', 'sprint-2', 'sprint-4']);
+    expect(fun.previous).toBeNull();
+    expect(fun.change).toBeNull();
+  });
+
+  it('ignores later boards and has no change while the totals are hidden', () => {
+    const [pace] = getHealthTrends(results, 'sprint-3');
+    expect(pace.previous?.board_id).toBe('sprint-2');
+    expect(pace.change).toBeNull();
+  });
+
+  it('keeps at most `limit` boards in the history', () => {
+    const [pace] = getHealthTrends(results, 'sprint-4', 2);
+    expect(pace.history.map((point) => point.board_id)).toEqual(['sprint-2', 'sprint-4']);
+  });
+});
+
+describe('getMetricLabels', () => {
+  it('lists each metric once, in the order first asked, under its latest label', () => {
+    const labels = getMetricLabels([
+      result('sprint-2', '2025-01-15T10:00:00Z', 'fun', 3, { position: 1 }),
+      result('sprint-2', '2025-01-15T10:00:00Z', 'Pace', 3),
+      result('sprint-1', '2025-01-01T10:00:00Z', 'Fun', 3),
+    ]);
+    expect(labels).toEqual(['fun', 'Pace']);
+  });
+});
+
+describe('formatChange', () => {
+  it('signs changes and rounds to one decimal', () => {
+    expect(formatChange(0.75)).toBe('+0.8');
+    expect(formatChange(-1.24)).toBe('-1.2');
+    expect(formatChange(0.02)).toBe('±0.0');
+  });
+});
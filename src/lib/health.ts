@@ -0,0 +1,104 @@
+import { translateDefault, type MessageKey } from './i18n';
+import type { HealthMetric, HealthResult } from '../types';
+
+export type HealthMetricTemplate = Pick<HealthMetric, 'label' | 'description'>;
+
+export const MAX_HEALTH_SCORE = 5;
+
+export const HEALTH_SCORES = Array.from({ length: MAX_HEALTH_SCORE }, (_, index) => index + 1);
+
+export const SCORE_LABELS: Record<number, MessageKey> = {
+  1: 'health.score.1',
+  2: 'health.score.2',
+  3: 'health.score.3',
+  4: 'health.score.4',
+  5: 'health.score.5',
+};
+
+// Totals stay hidden until the health check closes and this many people have answered a metric,
+// see db/migrations/027_health_results_when_closed.sql.
+export const MIN_HEALTH_RESPONSES = 3;
+
+// What every new board asks; the facilitator can change the list in the board settings.
+export const DEFAULT_HEALTH_METRICS: HealthMetricTemplate[] = [
+  { label: 'Pace', description: 'Are we working at a speed we can keep up?' },
+  { label: 'Fun', description: 'Do we enjoy working on this team?' },
+  { label: 'Codebase health', description: 'Is our code easy to work with?' },
+  { label: 'Teamwork', description: 'Do we help each other out?' },
+  { label: 'Learning', description: 'Are we learning new things?' },
+];
+
+// Like the template columns, the default metrics are stored in English and shown in the reader's
+// language. Trends still match metrics by their stored label.
+export const DEFAULT_METRIC_TEXT = new Map<string, MessageKey>([
+  ['Pace', 'health.pace'],
+  ['Are we working at a speed we can keep up?', 'health.pace.description'],
+  ['Fun', 'health.fun'],
+  ['Do we enjoy working on this team?', 'health.fun.description'],
+  ['Codebase health', 'health.codebaseHealth'],
+  ['Is our code easy to work with?', 'health.codebaseHealth.description'],
+  ['Teamwork', 'health.teamwork'],
+  ['Do we help each other out?', 'health.teamwork.description'],
+  ['Learning', 'health.learning'],
+  ['Are we learning new things?', 'health.learning.description'],
+]);
+
+export const getMetricText = (text: string) => translateDefault(text, DEFAULT_METRIC_TEXT);
+
+export interface MetricTrend {
+  result: HealthResult;
+  // The last earlier board that asked the same question and has an average
+  previous: HealthResult | null;
+  // Average now minus the previous one, null unless both are known
+  change: number | null;
+  // Averages of up to `limit` boards ending with this one, oldest first
+  history: HealthResult[];
+}
+
+// Metrics on different boards count as the same question when their labels match.
+export const getMetricKey = (label: string) => label.trim().toLocaleLowerCase();
+
+/** How each of a board's metrics compares with the same metric on the boards before it. */
+export function getHealthTrends(results: HealthResult[], boardId: string, limit = 6): MetricTrend[] {
+  const current = results.filter((result) => result.board_id === boardId).sort((a, b) => a.position - b.position);
+  const createdAt = current[0]?.board_created_at;
+
+  return current.map((result) => {
+    const earlier = results
+      .filter(
+        (candidate) =>
+          candidate.board_created_at < createdAt &&
+          candidate.average !== null &&
+          getMetricKey(candidate.label) === getMetricKey(result.label)
+      )
+      .sort((a, b) => a.board_created_at.localeCompare(b.board_created_at));
+    const previous = earlier.at(-1) ?? null;
+
+    return {
+      result,
+      previous,
+      change: result.average !== null && previous?.average != null ? result.average - previous.average : null,
+      history: [...earlier.slice(-(limit - 1)), result],
+    };
+  });
+}
+
+/** Every question asked across `results`, once each, in the order they were first asked. */
+export function getMetricLabels(results: HealthResult[]): string[] {
+  const labels = new Map<string, string>();
+  const ordered = [...results].sort(
+    (a, b) => a.board_created_at.localeCompare(b.board_created_at) || a.position - b.position
+  );
+  for (const result of ordered) {
+    labels.set(getMetricKey(result.label), result.label.trim());
+  }
+  return [...labels.values()];
+}
+
+export const formatScore = (score: number) => score.toFixed(1);
+
+export function formatChange(change: number) {
+  const rounded = Math.round(change * 10) / 10;
+  if (rounded === 0) return '±0.0';
+  return rounded > 0 ? `+${rounded.toFixed(1)}` : rounded.toFixed(1);
+}
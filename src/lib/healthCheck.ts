@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from './insforge';
+import { getErrorMessage } from './errors';
+import { getHealthTrends, type HealthMetricTemplate } from './health';
+import { t } from './i18n';
+import { isReadOnly } from './phases';
+import { useBoardEvent } from './realtime';
+import { showToast } from './toast';
+import type { HealthMetric, HealthResponse, HealthResult, RetroBoard } from '../types';
+
+// Published by the `publish_health_change` trigger, see db/migrations/016_health_checks.sql.
+const HEALTH_CHANGED_EVENT = 'board.health_changed';
+
+// A metric being edited; `id` is missing for metrics that haven't been saved yet.
+export type HealthMetricDraft = HealthMetricTemplate & { id?: string };
+
+export async function createHealthMetrics(boardId: string, metrics: HealthMetricTemplate[]) {
+  const { error } = await insforge.database
+    .from('health_metrics')
+    .insert(metrics.map((metric, position) => ({ ...metric, board_id: boardId, position })));
+
+  if (error) throw error;
+}
+
+/**
+ * Brings a board's health metrics in line with the edited list: removed metrics are deleted
+ * (together with their answers), the rest are updated or inserted in list order.
+ */
+export async function saveHealthMetrics(boardId: string, existing: HealthMetric[], drafts: HealthMetricDraft[]) {
+  const keptIds = new Set(drafts.map((draft) => draft.id).filter(Boolean));
+  const removedIds = existing.filter((metric) => !keptIds.has(metric.id)).map((metric) => metric.id);
+
+  if (removedIds.length > 0) {
+    const { error } = await insforge.database.from('health_metrics').delete().in('id', removedIds);
+    if (error) throw error;
+  }
+
+  for (const [position, draft] of drafts.entries()) {
+    const values = {
+      label: draft.label.trim(),
+      description: draft.description?.trim() || null,
+      position,
+    };
+    const { error } = draft.id
+      ? await insforge.database.from('health_metrics').update(values).eq('id', draft.id).eq('board_id', boardId)
+      : await insforge.database.from('health_metrics').insert([{ ...values, board_id: boardId }]);
+    if (error) throw error;
+  }
+}
+
+/**
+ * The board's health check: its metrics, the signed-in user's own answers, and the totals
+ * for this board and the boards before it, which `trends` compares. This board's totals only
+ * come back once the retro is done, so they're fetched again when it closes.
+ */
+export function useHealthCheck(board: RetroBoard | null) {
+  const { user } = useUser();
+  const [metrics, setMetrics] = useState<HealthMetric[]>([]);
+  const [responses, setResponses] = useState<HealthResponse[]>([]);
+  const [results, setResults] = useState<HealthResult[]>([]);
+  const boardId = board?.id;
+  const boardCreatedAt = board?.created_at;
+  const isClosed = board ? isReadOnly(board.phase) : false;
+  const userId = user?.id;
+
+  const fetchHealthCheck = useCallback(async () => {
+    if (!boardId || !boardCreatedAt || !userId) return;
+
+    try {
+      const [metricsResult, responsesResult, resultsResult] = await Promise.all([
+        insforge.database
+          .from('health_metrics')
+          .select('*')
+          .eq('board_id', boardId)
+          .order('position', { ascending: true }),
+        insforge.database.from('health_responses').select('*').eq('board_id', boardId).eq('user_id', userId),
+        insforge.database
+          .from('board_health_results')
+          .select('*')
+          .lte('board_created_at', boardCreatedAt)
+          .order('board_created_at', { ascending: true }),
+      ]);
+
+      if (metricsResult.error) throw metricsResult.error;
+      if (responsesResult.error) throw responsesResult.error;
+      if (resultsResult.error) throw resultsResult.error;
+      setMetrics(metricsResult.data || []);
+      setResponses(responsesResult.data || []);
+      setResults(resultsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching health check:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load the health check.'));
+    }
+  }, [boardId, boardCreatedAt, userId]);
+
+  useEffect(() => {
+    fetchHealthCheck();
+  }, [fetchHealthCheck, isClosed]);
+
+  useBoardEvent(boardId ?? '', HEALTH_CHANGED_EVENT, () => {
+    fetchHealthCheck();
+  });
+
+  const answer = async (metric: HealthMetric, score: number) => {
+    if (!userId) return;
+
+    const previous = responses;
+    // Show the choice straight away; answering again replaces the earlier answer
+    setResponses((current) => [
+      ...current.filter((response) => response.metric_id !== metric.id),
+      { id: '', board_id: metric.board_id, metric_id: metric.id, user_id: userId, score },
+    ]);
+
+    try {
+      const { data, error } = await insforge.database
+        .from('health_responses')
+        .upsert([{ board_id: metric.board_id, metric_id: metric.id, user_id: userId, score }], {
+          onConflict: 'metric_id,user_id',
+        })
+        .select('*')
+        .single<HealthResponse>();
+
+      if (error) throw error;
+      setResponses((current) => [...current.filter((response) => response.metric_id !== metric.id), data]);
+    } catch (error) {
+      console.error('Error answering health check:', error);
+      setResponses(previous);
+      showToast(getErrorMessage(error, t('healthCheck.answerFailed')));
+    }
+  };
+
+  const trends = boardId ? getHealthTrends(results, boardId) : [];
+
+  return { metrics, responses, trends, refresh: fetchHealthCheck, answer };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { detectLocale, formatRelativeTime, translate, translateDefault } from './i18n';
+import { getColumnLabel } from './columns';
+
+describe('translate', () => {
+  it('fills in params and picks the plural form by count', () => {
+    expect(translate('en', 'board.queued', { count: 1 })).toBe('1 change waiting');
+    expect(translate('en', 'board.queued', { count: 3 })).toBe('3 changes waiting');
+    expect(translate('ja', 'board.queued', { count: 3 })).toBe('3件の変更が送信待ち');
+    expect(translate('en', 'board.backTo', { phase: 'Vote' })).toBe('Back to Vote');
+  });
+
+  it('leaves placeholders without a param as they are', () => {
+    expect(translate('en', 'board.backTo')).toBe('Back to {phase}');
+  });
+});
+
+describe('detectLocale', () => {
+  it('takes the first preferred language there is a catalog for', () => {
+    expect(detectLocale(['fr-FR', 'ja-JP', 'en-US'])).toBe('ja');
+    expect(detectLocale(['EN-gb'])).toBe('en');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLocale(['de'])).toBe('en');
+    expect(detectLocale([])).toBe('en');
+  });
+});
+
+describe('translateDefault', () => {
+  it('translates built-in text and keeps what people typed', () => {
+    const defaults = new Map([['Good', 'templates.good' as const]]);
+    expect(translateDefault('Good', defaults)).toBe('Good');
+    expect(translateDefault('Kudos', defaults)).toBe('Kudos');
+    expect(getColumnLabel({ label: 'Longed For' })).toBe('Longed For');
+  });
+});
+
+describe('formatRelativeTime', () => {
+  const now = Date.parse('2026-03-10T12:00:00Z');
+
+  it('counts back in the largest whole unit', () => {
+    expect(formatRelativeTime('2026-03-10T11:55:00Z', 'en', now)).toBe('5 minutes ago');
+    expect(formatRelativeTime('2026-03-10T09:00:00Z', 'en', now)).toBe('3 hours ago');
+    expect(formatRelativeTime('2026-03-09T12:00:00Z', 'en', now)).toBe('yesterday');
+    expect(formatRelativeTime('2026-02-24T12:00:00Z', 'en', now)).toBe('2 weeks ago');
+  });
+
+  it('reads anything under a minute as now', () => {
+    expect(formatRelativeTime('2026-03-10T11:59:30Z', 'en', now)).toBe('now');
+    expect(formatRelativeTime('2026-03-10T12:00:10Z', 'en', now)).toBe('now');
+  });
+
+  it('uses the wording of the locale', () => {
+    expect(formatRelativeTime('2026-03-07T12:00:00Z', 'ja', now)).toBe('3 日前');
+  });
+});
@@ -0,0 +1,123 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import en from '../locales/en';
+import ja from '../locales/ja';
+
+export type Locale = 'en' | 'ja';
+
+// Keep in sync with the `locale` check in db/migrations/018_user_preferences.sql.
+export const LOCALES: Locale[] = ['en', 'ja'];
+
+// Each language under its own name, so it can be found whatever the current language is.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ja: '日本語',
+};
+
+// A string, or its plural forms picked by `count`. `{name}` is replaced by the `name` param.
+export type Message = string | { one: string; other: string };
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Catalog> = { en, ja };
+
+const STORAGE_KEY = 'retro-board:locale';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+/** The first of the browser's preferred languages we have a catalog for, or English. */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+}
+
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[locale][key];
+  const template =
+    typeof message === 'string'
+      ? message
+      : message[new Intl.PluralRules(locale).select(Number(params.count)) === 'one' ? 'one' : 'other'];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+const readStoredLocale = () => {
+  try {
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+let locale: Locale =
+  readStoredLocale() ?? detectLocale(typeof navigator === 'undefined' ? [] : navigator.languages);
+const listeners = new Set<() => void>();
+
+if (typeof document !== 'undefined') {
+  document.documentElement.lang = locale;
+}
+
+export const getLocale = () => locale;
+
+/** Switches the whole app to `next` and remembers it in this browser. */
+export function setLocale(next: Locale) {
+  if (next === locale) return;
+  locale = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Private browsing can refuse storage; the choice then only lasts for this visit
+  }
+  document.documentElement.lang = next;
+  listeners.forEach((listener) => listener());
+}
+
+/** Translates `key` into the current language, for code outside of components such as toasts. */
+export const t: Translate = (key, params) => translate(locale, key, params);
+
+/** Stored text that came from a built-in default, in the current language; anything else as written. */
+export const translateDefault = (text: string, defaults: ReadonlyMap<string, MessageKey>) => {
+  const key = defaults.get(text);
+  return key ? t(key) : text;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useLocale = () => useSyncExternalStore(subscribe, getLocale);
+
+/** `t` for components, which re-render when the language changes. */
+export function useTranslation() {
+  const current = useLocale();
+  const translateCurrent = useCallback<Translate>((key, params) => translate(current, key, params), [current]);
+  return { t: translateCurrent, locale: current };
+}
+
+// Largest unit first; anything under a minute reads as "now".
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+/** E.g. "5 minutes ago", "yesterday" or "3日前", counted from `now`. */
+export function formatRelativeTime(date: string | Date, currentLocale: Locale, now = Date.now()): string {
+  const seconds = Math.round((new Date(date).getTime() - now) / 1000);
+  const format = new Intl.RelativeTimeFormat(currentLocale, { numeric: 'auto' });
+
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= size) return format.format(Math.trunc(seconds / size), unit);
+  }
+  return format.format(0, 'second');
+}
@@ -0,0 +1,181 @@
+import { insforge } from './insforge';
+import { ATTACHMENT_BUCKET, getAttachmentKey } from './attachments';
+import { DataError, getErrorMessage } from './errors';
+import { assembleItems } from './items';
+import type { RetroRepository } from './repository';
+import type { Attachment, Comment, Reaction, RetroItem, Vote } from '../types';
+
+// Writes go to the base tables and read the author's nickname back through the foreign key.
+const ITEM_SELECT = '*, users!retro_items_created_by_fkey (nickname)';
+const VOTE_SELECT = 'id, board_id, retro_item_id, user_id, users!votes_user_id_fkey (nickname)';
+const COMMENT_SELECT =
+  'id, board_id, retro_item_id, user_id, content, created_at, edited_at, parent_id, users!comments_user_id_fkey (nickname)';
+const REACTION_SELECT =
+  'id, board_id, retro_item_id, comment_id, user_id, emoji, created_at, users!reactions_user_id_fkey (nickname)';
+const ATTACHMENT_SELECT = '*, users!attachments_user_id_fkey (nickname)';
+
+interface Result<T> {
+  data: T | null;
+  error: unknown;
+}
+
+// `fallback` is only used when the backend gave no reason; callers can swap in their own.
+function toDataError(error: unknown, fallback: string) {
+  const message = getErrorMessage(error, '');
+  return new DataError(message || fallback, { cause: error, generic: !message });
+}
+
+function unwrap<T>({ data, error }: Result<T>, fallback: string): T {
+  if (error || data === null) {
+    throw toDataError(error, fallback);
+  }
+  return data;
+}
+
+function check({ error }: Pick<Result<unknown>, 'error'>, fallback: string) {
+  if (error) {
+    throw toDataError(error, fallback);
+  }
+}
+
+export const insforgeRepository: RetroRepository = {
+  async listItems(boardId) {
+    // The board_* views mask identities according to the board's anonymity setting
+    const [itemsResult, votesResult, commentsResult, reactionsResult, attachmentsResult] = await Promise.all([
+      insforge.database.from('board_items').select('*').eq('board_id', boardId),
+      insforge.database.from('board_votes').select('*').eq('board_id', boardId),
+      insforge.database.from('board_comments').select('*').eq('board_id', boardId),
+      insforge.database.from('board_reactions').select('*').eq('board_id', boardId),
+      insforge.database.from('board_attachments').select('*').eq('board_id', boardId).order('created_at'),
+    ]);
+
+    return assembleItems(
+      unwrap<RetroItem[]>(itemsResult, 'Failed to load items.'),
+      unwrap<Vote[]>(votesResult, 'Failed to load votes.'),
+      unwrap<Comment[]>(commentsResult, 'Failed to load comments.'),
+      unwrap<Reaction[]>(reactionsResult, 'Failed to load reactions.'),
+      unwrap<Attachment[]>(attachmentsResult, 'Failed to load attachments.')
+    );
+  },
+
+  async createItem(item) {
+    const result = await insforge.database.from('retro_items').insert([item]).select(ITEM_SELECT).single<RetroItem>();
+    return unwrap(result, 'Failed to add item.');
+  },
+
+  async updateItem(item, content) {
+    const result = await insforge.database
+      .from('retro_items')
+      .update({ content })
+      .eq('id', item.id)
+      .eq('created_by', item.created_by)
+      .select(ITEM_SELECT)
+      .single<RetroItem>();
+    return unwrap(result, 'Failed to save your edit.');
+  },
+
+  async deleteItem(item) {
+    const result = await insforge.database.from('retro_items').delete().eq('id', item.id).eq('board_id', item.board_id);
+    check(result, 'Failed to delete item.');
+
+    // The attachment records go with the card; their files would otherwise stay reachable by URL
+    const keys = (item.attachments || []).map((attachment) => attachment.storage_key);
+    if (keys.length > 0) {
+      const removed = await Promise.all(keys.map((key) => insforge.storage.from(ATTACHMENT_BUCKET).remove(key)));
+      for (const { error } of removed) {
+        if (error) {
+          console.error('Error deleting image file:', error);
+        }
+      }
+    }
+  },
+
+  async setItemHidden(item, hidden) {
+    const result = await insforge.database.rpc('set_item_hidden', { item_id: item.id, hidden });
+    check(result, hidden ? 'Failed to hide item.' : 'Failed to show item.');
+  },
+
+  async addVote(vote) {
+    const result = await insforge.database.from('votes').insert([vote]).select(VOTE_SELECT).single<Vote>();
+    return unwrap(result, 'Failed to vote.');
+  },
+
+  async removeVote(vote) {
+    const result = await insforge.database.from('votes').delete().eq('id', vote.id).eq('board_id', vote.board_id);
+    check(result, 'Failed to remove vote.');
+  },
+
+  async addComment(comment) {
+    const result = await insforge.database.from('comments').insert([comment]).select(COMMENT_SELECT).single<Comment>();
+    return unwrap(result, 'Failed to add comment.');
+  },
+
+  async updateComment(comment, content) {
+    const result = await insforge.database
+      .from('comments')
+      .update({ content })
+      .eq('id', comment.id)
+      .eq('user_id', comment.user_id)
+      .select(COMMENT_SELECT)
+      .single<Comment>();
+    return unwrap(result, 'Failed to save your edit.');
+  },
+
+  async deleteComment(comment) {
+    const result = await insforge.database.from('comments').delete().eq('id', comment.id).eq('board_id', comment.board_id);
+    check(result, 'Failed to delete comment.');
+  },
+
+  async addReaction(reaction) {
+    const result = await insforge.database.from('reactions').insert([reaction]).select(REACTION_SELECT).single<Reaction>();
+    return unwrap(result, 'Failed to add reaction.');
+  },
+
+  async removeReaction(reaction) {
+    const result = await insforge.database.from('reactions').delete().eq('id', reaction.id).eq('board_id', reaction.board_id);
+    check(result, 'Failed to remove reaction.');
+  },
+
+  async addAttachment(attachment, file) {
+    const bucket = insforge.storage.from(ATTACHMENT_BUCKET);
+    const uploaded = unwrap(
+      await bucket.upload(getAttachmentKey(attachment.board_id, file.name), file),
+      'Failed to upload image.'
+    );
+
+    const result = await insforge.database
+      .from('attachments')
+      .insert([
+        {
+          ...attachment,
+          storage_key: uploaded.key,
+          url: uploaded.url,
+          file_name: file.name,
+          mime_type: file.type,
+          size: file.size,
+        },
+      ])
+      .select(ATTACHMENT_SELECT)
+      .single<Attachment>();
+    if (result.error) {
+      // Don't leave a file behind that no card points at
+      await bucket.remove(uploaded.key);
+    }
+    return unwrap(result, 'Failed to attach image.');
+  },
+
+  async removeAttachment(attachment) {
+    const result = await insforge.database
+      .from('attachments')
+      .delete()
+      .eq('id', attachment.id)
+      .eq('board_id', attachment.board_id);
+    check(result, 'Failed to remove image.');
+
+    // The image is already gone from the card; a file left in the bucket isn't worth an error
+    const removed = await insforge.storage.from(ATTACHMENT_BUCKET).remove(attachment.storage_key);
+    if (removed.error) {
+      console.error('Error deleting image file:', removed.error);
+    }
+  },
+};
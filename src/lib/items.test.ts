@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import { applyBoardChange, assembleItems, clusterItems, getCommentThreads, sortItems } from './items';
+import type { Comment, Reaction, RetroItem, Vote } from '../types';
+
+const item = (id: string, overrides: Partial<RetroItem> = {}): RetroItem => ({
+  id,
+  board_id: 'board',
+  column_id: 'column',
+  content: id,
+  created_by: 'alice',
+  created_at: '2025-01-01T10:00:00Z',
+  edited_at: null,
+  hidden_at: null,
+  group_id: null,
+  votes: [],
+  comments: [],
+  ...overrides,
+});
+
+const votes = (itemId: string, count: number): Vote[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `${itemId}-vote-${index}`,
+    board_id: 'board',
+    retro_item_id: itemId,
+    user_id: `voter-${index}`,
+  }));
+
+const comment = (id: string, createdAt: string, parentId: string | null = null): Comment => ({
+  id,
+  board_id: 'board',
+  retro_item_id: 'a',
+  content: id,
+  user_id: 'alice',
+  created_at: createdAt,
+  edited_at: null,
+  parent_id: parentId,
+});
+
+const reaction = (id: string, userId: string | null): Reaction => ({
+  id,
+  board_id: 'board',
+  retro_item_id: 'a',
+  comment_id: null,
+  user_id: userId,
+  emoji: '🎉',
+  created_at: '2025-01-01T10:00:00Z',
+});
+
+const ids = (items: { id: string }[]) => items.map((row) => row.id);
+
+describe('sortItems', () => {
+  it('puts the most voted items first', () => {
+    const sorted = sortItems([item('a', { votes: votes('a', 1) }), item('b', { votes: votes('b', 3) }), item('c')]);
+    expect(ids(sorted)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('breaks ties with the newest item first', () => {
+    const sorted = sortItems([
+      item('old', { created_at: '2025-01-01T09:00:00Z' }),
+      item('new', { created_at: '2025-01-01T11:00:00Z' }),
+    ]);
+    expect(ids(sorted)).toEqual(['new', 'old']);
+  });
+
+  it('ranks a group by its combined votes and keeps its cards together', () => {
+    const sorted = sortItems([
+      item('single', { votes: votes('single', 3) }),
+      item('grouped-1', { group_id: 'group', votes: votes('grouped-1', 2) }),
+      item('other', { votes: votes('other', 1) }),
+      item('grouped-2', { group_id: 'group', votes: votes('grouped-2', 2) }),
+    ]);
+    expect(ids(sorted)).toEqual(['grouped-1', 'grouped-2', 'single', 'other']);
+  });
+
+  it('sorts by age in the newest and oldest modes', () => {
+    const items = [
+      item('middle', { created_at: '2025-01-01T10:00:00Z', votes: votes('middle', 2) }),
+      item('old', { created_at: '2025-01-01T09:00:00Z' }),
+      item('new', { created_at: '2025-01-01T11:00:00Z' }),
+    ];
+    expect(ids(sortItems(items, 'newest'))).toEqual(['new', 'middle', 'old']);
+    expect(ids(sortItems(items, 'oldest'))).toEqual(['old', 'middle', 'new']);
+  });
+
+  it('puts the most discussed items first, counting replies', () => {
+    const sorted = sortItems(
+      [
+        item('quiet', { votes: votes('quiet', 3) }),
+        item('busy', { comments: [comment('c1', '2025-01-01T10:00:00Z'), comment('c2', '2025-01-01T10:01:00Z', 'c1')] }),
+        item('some', { comments: [comment('c3', '2025-01-01T10:00:00Z')] }),
+      ],
+      'discussed'
+    );
+    expect(ids(sorted)).toEqual(['busy', 'some', 'quiet']);
+  });
+
+  it('dates a group by its newest card in the newest mode', () => {
+    const sorted = sortItems(
+      [
+        item('grouped-old', { group_id: 'group', created_at: '2025-01-01T08:00:00Z' }),
+        item('single', { created_at: '2025-01-01T10:00:00Z' }),
+        item('grouped-new', { group_id: 'group', created_at: '2025-01-01T11:00:00Z' }),
+      ],
+      'newest'
+    );
+    expect(ids(sorted)).toEqual(['grouped-new', 'grouped-old', 'single']);
+  });
+
+  it('does not change the array it is given', () => {
+    const items = [item('a'), item('b', { votes: votes('b', 1) })];
+    sortItems(items);
+    expect(ids(items)).toEqual(['a', 'b']);
+  });
+});
+
+describe('clusterItems', () => {
+  it('splits sorted items into single cards and groups', () => {
+    const clusters = clusterItems(
+      sortItems([item('a', { group_id: 'group' }), item('b'), item('c', { group_id: 'group' })])
+    );
+    expect(clusters.map((cluster) => [cluster.groupId, ids(cluster.items)])).toEqual([
+      ['group', ['a', 'c']],
+      [null, ['b']],
+    ]);
+  });
+});
+
+describe('assembleItems', () => {
+  it('puts votes and comments under their items and sorts the result', () => {
+    const assembled = assembleItems([item('a', { votes: undefined }), item('b', { votes: undefined })], votes('b', 2), []);
+    expect(ids(assembled)).toEqual(['b', 'a']);
+    expect(assembled[0].votes).toHaveLength(2);
+    expect(assembled[1].votes).toEqual([]);
+  });
+});
+
+describe('getCommentThreads', () => {
+  it('puts replies under the comment they answer, oldest first', () => {
+    const threads = getCommentThreads([
+      comment('second', '2025-01-01T11:00:00Z'),
+      comment('late-reply', '2025-01-01T13:00:00Z', 'first'),
+      comment('first', '2025-01-01T10:00:00Z'),
+      comment('early-reply', '2025-01-01T12:00:00Z', 'first'),
+    ]);
+    expect(threads.map((thread) => [thread.comment.id, ids(thread.replies)])).toEqual([
+      ['first', ['early-reply', 'late-reply']],
+      ['second', []],
+    ]);
+  });
+
+  it('leaves out replies to a deleted comment', () => {
+    const threads = getCommentThreads([comment('orphan', '2025-01-01T10:00:00Z', 'deleted')]);
+    expect(threads).toEqual([]);
+  });
+});
+
+describe('applyBoardChange', () => {
+  it('re-sorts the board when a vote arrives', () => {
+    const items = [item('a', { votes: votes('a', 1) }), item('b')];
+    const [vote] = votes('b', 1);
+    const next = applyBoardChange(applyBoardChange(items, { entity: 'vote', action: 'created', record: vote }), {
+      entity: 'vote',
+      action: 'created',
+      record: { ...vote, id: 'another' },
+    });
+    expect(ids(next)).toEqual(['b', 'a']);
+  });
+
+  it('ignores the realtime echo of a change it already has', () => {
+    const [vote] = votes('a', 1);
+    const once = applyBoardChange([item('a')], { entity: 'vote', action: 'created', record: vote });
+    const twice = applyBoardChange(once, { entity: 'vote', action: 'created', record: vote });
+    expect(twice[0].votes).toHaveLength(1);
+  });
+
+  it('keeps the identity when a masked copy of our own row arrives', () => {
+    const own = item('a', { created_by: 'alice', users: { nickname: 'Alice' } });
+    const masked = { ...own, created_by: null, users: null };
+    const next = applyBoardChange([own], { entity: 'item', action: 'created', record: masked });
+    expect(next[0].created_by).toBe('alice');
+  });
+
+  it('ignores an edit older than the one already shown', () => {
+    const current = item('a', { content: 'newer', edited_at: '2025-01-01T12:00:00Z' });
+    const next = applyBoardChange([current], {
+      entity: 'item',
+      action: 'updated',
+      record: { ...current, content: 'older', edited_at: '2025-01-01T11:00:00Z' },
+    });
+    expect(next[0].content).toBe('newer');
+  });
+
+  it('adds and takes back reactions without re-sorting', () => {
+    const items = [item('a'), item('b', { created_at: '2025-01-01T09:00:00Z' })];
+    const added = applyBoardChange(items, { entity: 'reaction', action: 'created', record: reaction('r', 'bob') });
+    expect(ids(added)).toEqual(['a', 'b']);
+    expect(added[0].reactions).toHaveLength(1);
+
+    const removed = applyBoardChange(added, { entity: 'reaction', action: 'deleted', record: reaction('r', null) });
+    expect(removed[0].reactions).toEqual([]);
+  });
+});
@@ -0,0 +1,226 @@
+import type { Attachment, Comment, Reaction, RetroItem, Vote } from '../types';
+
+export type BoardChange =
+  | { entity: 'item'; action: 'created' | 'updated' | 'deleted'; record: RetroItem }
+  | { entity: 'vote'; action: 'created' | 'deleted'; record: Vote }
+  | { entity: 'comment'; action: 'created' | 'updated' | 'deleted'; record: Comment }
+  | { entity: 'reaction'; action: 'created' | 'deleted'; record: Reaction }
+  | { entity: 'attachment'; action: 'created' | 'deleted'; record: Attachment };
+
+// Edits only change the text; the rest of the record may be masked, so it isn't copied over.
+// An older edit arriving late (e.g. our own response after a newer echo) is ignored.
+const applyEdit = <T extends { content: string; edited_at: string | null }>(row: T, record: T): T => {
+  if (row.edited_at && record.edited_at && record.edited_at < row.edited_at) {
+    return row;
+  }
+  return { ...row, content: record.content, edited_at: record.edited_at };
+};
+
+// A single card, or the cards of one group, in board order.
+export interface ItemCluster {
+  groupId: string | null;
+  items: RetroItem[];
+}
+
+export type SortMode = 'votes' | 'newest' | 'oldest' | 'discussed';
+
+const createdTime = (item: RetroItem) => new Date(item.created_at).getTime();
+
+// What a card, or a group by all of its cards, is ranked by in each mode; higher comes first.
+const RANKS: Record<SortMode, (cards: RetroItem[]) => number> = {
+  votes: (cards) => cards.reduce((total, card) => total + (card.votes?.length || 0), 0),
+  newest: (cards) => Math.max(...cards.map(createdTime)),
+  oldest: (cards) => -Math.min(...cards.map(createdTime)),
+  discussed: (cards) => cards.reduce((total, card) => total + (card.comments?.length || 0), 0),
+};
+
+/**
+ * Sort items by vote count (descending), then by created_at (descending) as tiebreaker, or
+ * by another `mode`. Grouped cards rank by their group as a whole and are kept next to
+ * each other.
+ */
+export function sortItems(items: RetroItem[], mode: SortMode = 'votes'): RetroItem[] {
+  const groups = new Map<string, RetroItem[]>();
+  for (const item of items) {
+    if (item.group_id) {
+      groups.set(item.group_id, [...(groups.get(item.group_id) || []), item]);
+    }
+  }
+  const groupRanks = new Map([...groups].map(([groupId, cards]) => [groupId, RANKS[mode](cards)]));
+  const rank = (item: RetroItem) => (item.group_id ? groupRanks.get(item.group_id) || 0 : RANKS[mode]([item]));
+
+  const ranked = [...items].sort((a, b) => {
+    const aRank = rank(a);
+    const bRank = rank(b);
+    if (bRank !== aRank) {
+      return bRank - aRank;
+    }
+    return mode === 'oldest' ? createdTime(a) - createdTime(b) : createdTime(b) - createdTime(a);
+  });
+
+  const placedGroups = new Set<string>();
+  const sorted: RetroItem[] = [];
+  for (const item of ranked) {
+    if (!item.group_id) {
+      sorted.push(item);
+    } else if (!placedGroups.has(item.group_id)) {
+      placedGroups.add(item.group_id);
+      sorted.push(...ranked.filter((candidate) => candidate.group_id === item.group_id));
+    }
+  }
+  return sorted;
+}
+
+// Splits sorted items into single cards and groups, keeping their order.
+export function clusterItems(items: RetroItem[]): ItemCluster[] {
+  const clusters: ItemCluster[] = [];
+  for (const item of items) {
+    const last = clusters.at(-1);
+    if (item.group_id && last?.groupId === item.group_id) {
+      last.items.push(item);
+    } else {
+      clusters.push({ groupId: item.group_id, items: [item] });
+    }
+  }
+  return clusters;
+}
+
+// The cards that share a vote count with `item`: its whole group, or just the card itself.
+export const getGroupMembers = (items: RetroItem[], item: RetroItem) =>
+  item.group_id ? items.filter((candidate) => candidate.group_id === item.group_id) : [item];
+
+const groupByItem = <T extends { retro_item_id: string }>(rows: T[]) => {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    groups.set(row.retro_item_id, [...(groups.get(row.retro_item_id) || []), row]);
+  }
+  return groups;
+};
+
+// Groups the flat rows returned by the board_* views under their items.
+export function assembleItems(
+  items: RetroItem[],
+  votes: Vote[],
+  comments: Comment[],
+  reactions: Reaction[] = [],
+  attachments: Attachment[] = []
+): RetroItem[] {
+  const votesByItem = groupByItem(votes);
+  const commentsByItem = groupByItem(comments);
+  const reactionsByItem = groupByItem(reactions);
+  const attachmentsByItem = groupByItem(attachments);
+  return sortItems(
+    items.map((item) => ({
+      ...item,
+      votes: votesByItem.get(item.id) || [],
+      comments: commentsByItem.get(item.id) || [],
+      reactions: reactionsByItem.get(item.id) || [],
+      attachments: attachmentsByItem.get(item.id) || [],
+    }))
+  );
+}
+
+// A top-level comment and its replies.
+export interface CommentThread {
+  comment: Comment;
+  replies: Comment[];
+}
+
+const byCreatedAt = (a: Comment, b: Comment) => a.created_at.localeCompare(b.created_at);
+
+/**
+ * Arranges a card's comments into threads, oldest first. Replies to a comment that is no
+ * longer there are left out; the server deletes them along with it.
+ */
+export function getCommentThreads(comments: Comment[]): CommentThread[] {
+  const sorted = [...comments].sort(byCreatedAt);
+  return sorted
+    .filter((comment) => !comment.parent_id)
+    .map((comment) => ({ comment, replies: sorted.filter((reply) => reply.parent_id === comment.id) }));
+}
+
+const updateItem = (items: RetroItem[], itemId: string, update: (item: RetroItem) => RetroItem) =>
+  items.map((item) => (item.id === itemId ? update(item) : item));
+
+/**
+ * Adds `record` unless a copy is already there. The realtime echo of our own write can
+ * arrive before or after the write's response and may have the author masked out by the
+ * board's anonymity setting, so a copy that carries the identity always wins.
+ */
+function upsertRecord<T extends { id: string }>(rows: T[], record: T, identity: keyof T, prepend = false): T[] {
+  const existing = rows.find((row) => row.id === record.id);
+  if (!existing) {
+    return prepend ? [record, ...rows] : [...rows, record];
+  }
+  if (existing[identity] === null && record[identity] !== null) {
+    return rows.map((row) => (row.id === record.id ? { ...row, ...record } : row));
+  }
+  return rows;
+}
+
+/**
+ * Applies a single insert/edit/delete to the board state. Changes arrive both from our own
+ * writes and from the realtime channel, so every case is idempotent.
+ */
+export function applyBoardChange(items: RetroItem[], change: BoardChange): RetroItem[] {
+  switch (change.entity) {
+    case 'item': {
+      const { record } = change;
+      if (change.action === 'deleted') {
+        return items.filter((item) => item.id !== record.id);
+      }
+      if (change.action === 'updated') {
+        return updateItem(items, record.id, (item) => applyEdit(item, record));
+      }
+      return sortItems(upsertRecord(items, record, 'created_by', true));
+    }
+    case 'vote': {
+      const { record } = change;
+      return sortItems(
+        updateItem(items, record.retro_item_id, (item) => {
+          const votes = item.votes || [];
+          if (change.action === 'deleted') {
+            return { ...item, votes: votes.filter((vote) => vote.id !== record.id) };
+          }
+          return { ...item, votes: upsertRecord(votes, record, 'user_id') };
+        })
+      );
+    }
+    case 'comment': {
+      const { record } = change;
+      return updateItem(items, record.retro_item_id, (item) => {
+        const comments = item.comments || [];
+        if (change.action === 'deleted') {
+          return { ...item, comments: comments.filter((comment) => comment.id !== record.id) };
+        }
+        if (change.action === 'updated') {
+          return {
+            ...item,
+            comments: comments.map((comment) => (comment.id === record.id ? applyEdit(comment, record) : comment)),
+          };
+        }
+        return { ...item, comments: upsertRecord(comments, record, 'user_id') };
+      });
+    }
+    case 'reaction': {
+      const { record } = change;
+      return updateItem(items, record.retro_item_id, (item) => {
+        const reactions = item.reactions || [];
+        if (change.action === 'deleted') {
+          return { ...item, reactions: reactions.filter((reaction) => reaction.id !== record.id) };
+        }
+        return { ...item, reactions: upsertRecord(reactions, record, 'user_id') };
+      });
+    }
+    case 'attachment': {
+      const { record } = change;
+      return updateItem(items, record.retro_item_id, (item) => {
+        const attachments = item.attachments || [];
+        if (change.action === 'deleted') {
+          return { ...item, attachments: attachments.filter((attachment) => attachment.id !== record.id) };
+        }
+        return { ...item, attachments: upsertRecord(attachments, record, 'user_id') };
+      });
+    }
+  }
+}
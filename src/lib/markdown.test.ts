@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { getMentionQuery, getSafeHref, parseInline, parseMarkdown, toMentionHandle } from './markdown';
+
+describe('parseInline', () => {
+  it('reads emphasis, code and strikethrough', () => {
+    expect(parseInline('**Deploys** were *slow* and `npm ci` ~~failed~~')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'Deploys' }] },
+      { type: 'text', text: ' were ' },
+      { type: 'em', children: [{ type: 'text', text: 'slow' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'code', text: 'npm ci' },
+      { type: 'text', text: ' ' },
+      { type: 'strike', children: [{ type: 'text', text: 'failed' }] },
+    ]);
+  });
+
+  it('links web addresses but leaves trailing punctuation out', () => {
+    expect(parseInline('See https://status.example.com/incidents.')).toEqual([
+      { type: 'text', text: 'See ' },
+      {
+        type: 'link',
+        href: 'https://status.example.com/incidents',
+        children: [{ type: 'text', text: 'https://status.example.com/incidents' }],
+      },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('never links a script URL', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: '[click](javascript:alert(1))' }]);
+  });
+
+  it('finds mentions but not e-mail addresses or snake_case', () => {
+    expect(parseInline('Thanks @Alice, mail bob@example.com about some_flag_name')).toEqual([
+      { type: 'text', text: 'Thanks ' },
+      { type: 'mention', handle: 'Alice' },
+      { type: 'text', text: ', mail bob@example.com about some_flag_name' },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits text into paragraphs, lists, quotes and code blocks', () => {
+    const blocks = parseMarkdown('Two things:\n- one\n- two\n\n> quoted\n\n```\n<b>raw</b>\n```\n1. first');
+    expect(blocks.map((block) => block.type)).toEqual(['paragraph', 'list', 'quote', 'code', 'list']);
+    expect(blocks[3]).toEqual({ type: 'code', text: '<b>raw</b>' });
+    expect(blocks[4]).toMatchObject({ ordered: true });
+  });
+
+  it('keeps the lines of a paragraph apart', () => {
+    expect(parseMarkdown('first\nsecond')).toEqual([
+      { type: 'paragraph', lines: [[{ type: 'text', text: 'first' }], [{ type: 'text', text: 'second' }]] },
+    ]);
+  });
+});
+
+describe('mentions', () => {
+  it('turns a nickname into the handle typed after "@"', () => {
+    expect(toMentionHandle('Mary Jane')).toBe('MaryJane');
+  });
+
+  it('finds the handle being typed before the caret', () => {
+    expect(getMentionQuery('Ask @Ma', 7)).toEqual({ query: 'Ma', start: 4 });
+    expect(getMentionQuery('mail bob@ex', 11)).toBeNull();
+  });
+
+  it('only accepts web and mail links', () => {
+    expect(getSafeHref('mailto:team@example.com')).toBe('mailto:team@example.com');
+    expect(getSafeHref('data:text/html,hi')).toBeNull();
+  });
+});
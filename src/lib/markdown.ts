@@ -0,0 +1,184 @@
+// A small Markdown subset for card and comment text. It parses into plain nodes that
+// `RichText` turns into React elements, so no HTML from the text is ever rendered.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; handle: string };
+
+export type BlockNode =
+  // One entry per line; the lines of a paragraph are kept apart by line breaks
+  | { type: 'paragraph'; lines: InlineNode[][] }
+  | { type: 'quote'; lines: InlineNode[][] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'code'; text: string };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only web and mail links are rendered; anything else (e.g. `javascript:`) stays plain text.
+export function getSafeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const HANDLE = '[\\p{L}\\p{N}_](?:[\\p{L}\\p{N}_.-]*[\\p{L}\\p{N}_])?';
+
+// The text typed after "@" for a person; spaces and punctuation in nicknames are dropped.
+export const toMentionHandle = (nickname: string) => nickname.replace(/[^\p{L}\p{N}_.-]+/gu, '');
+
+const INLINE_PATTERN = new RegExp(
+  [
+    '`([^`]+)`',
+    '\\*\\*(.+?)\\*\\*',
+    '~~(.+?)~~',
+    '\\*([^*\\s](?:[^*]*[^*\\s])?)\\*',
+    '_([^_\\s](?:[^_]*[^_\\s])?)_',
+    '\\[([^\\]]+)\\]\\(([^)\\s]+)\\)',
+    // Trailing punctuation usually ends the sentence rather than the URL
+    '(https?://[^\\s<]*[^\\s<.,:;"\')\\]!?])',
+    `@(${HANDLE})`,
+  ].join('|'),
+  'u'
+);
+
+// "_" and "@" only count at the start of a word, so snake_case and e-mail addresses stay as typed
+const startsWord = (text: string, index: number) => index === 0 || !/[\p{L}\p{N}_]/u.test(text[index - 1]);
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+  let pending = '';
+
+  const flush = () => {
+    if (pending) nodes.push({ type: 'text', text: pending });
+    pending = '';
+  };
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) break;
+
+    const [whole, code, strong, strike, star, underscore, label, url, bareUrl, handle] = match;
+    const before = rest.slice(0, match.index);
+    const consumed = pending + before;
+    rest = rest.slice(match.index + whole.length);
+
+    let node: InlineNode | null = null;
+    if (code !== undefined) {
+      node = { type: 'code', text: code };
+    } else if (strong !== undefined) {
+      node = { type: 'strong', children: parseInline(strong) };
+    } else if (strike !== undefined) {
+      node = { type: 'strike', children: parseInline(strike) };
+    } else if (star !== undefined) {
+      node = { type: 'em', children: parseInline(star) };
+    } else if (underscore !== undefined) {
+      node = startsWord(consumed, consumed.length) ? { type: 'em', children: parseInline(underscore) } : null;
+    } else if (label !== undefined) {
+      const href = getSafeHref(url);
+      node = href ? { type: 'link', href, children: parseInline(label) } : null;
+    } else if (bareUrl !== undefined) {
+      const href = getSafeHref(bareUrl);
+      node = href ? { type: 'link', href, children: [{ type: 'text', text: bareUrl }] } : null;
+    } else if (handle !== undefined) {
+      node = startsWord(consumed, consumed.length) ? { type: 'mention', handle } : null;
+    }
+
+    if (node) {
+      pending = consumed;
+      flush();
+      nodes.push(node);
+    } else {
+      // Not markup after all: keep the first character and look again from the next one
+      pending = consumed + whole[0];
+      rest = whole.slice(1) + rest;
+    }
+  }
+
+  pending += rest;
+  flush();
+  return nodes;
+}
+
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^\s*```/;
+
+export function parseMarkdown(text: string): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const body: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        body.push(lines[index]);
+        index += 1;
+      }
+      // Skip the closing fence; an unclosed block runs to the end of the text
+      index += 1;
+      blocks.push({ type: 'code', text: body.join('\n') });
+      continue;
+    }
+
+    const listPattern = BULLET.test(line) ? BULLET : NUMBERED.test(line) ? NUMBERED : null;
+    if (listPattern) {
+      const items: InlineNode[][] = [];
+      while (index < lines.length && listPattern.test(lines[index])) {
+        items.push(parseInline(listPattern.exec(lines[index])![1]));
+        index += 1;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === NUMBERED, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: InlineNode[][] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(parseInline(QUOTE.exec(lines[index])![1]));
+        index += 1;
+      }
+      blocks.push({ type: 'quote', lines: quoted });
+      continue;
+    }
+
+    const paragraph: InlineNode[][] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !FENCE.test(lines[index]) &&
+      !BULLET.test(lines[index]) &&
+      !NUMBERED.test(lines[index]) &&
+      !QUOTE.test(lines[index])
+    ) {
+      paragraph.push(parseInline(lines[index]));
+      index += 1;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+}
+
+// The "@" handle being typed just before the caret, if any, for mention autocomplete.
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = new RegExp(`(^|[^\\p{L}\\p{N}_])@([\\p{L}\\p{N}_.-]*)$`, 'u').exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from './insforge';
+import { confirmAction } from './confirm';
+import { getErrorMessage } from './errors';
+import { t } from './i18n';
+import { useBoardEvent } from './realtime';
+import { showToast } from './toast';
+import type { BoardInvite, BoardMember, BoardRole } from '../types';
+
+const MEMBER_SELECT = '*, users!board_members_user_id_fkey (nickname)';
+
+// Published by the `publish_members_change` trigger, see db/migrations/013_board_roles.sql.
+const MEMBERS_CHANGED_EVENT = 'board.members_changed';
+
+/**
+ * Who is on the board and the signed-in user's own role. `role` is null until the members
+ * have loaded, and for anyone who isn't a member: the database only shows a board's
+ * members to its members.
+ */
+export function useBoardMembers(boardId: string) {
+  const { user } = useUser();
+  const [members, setMembers] = useState<BoardMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const { data, error } = await insforge.database
+        .from('board_members')
+        .select(MEMBER_SELECT)
+        .eq('board_id', boardId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error('Error fetching members:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load members.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  useBoardEvent(boardId, MEMBERS_CHANGED_EVENT, () => {
+    fetchMembers();
+  });
+
+  const role: BoardRole | null = members.find((member) => member.user_id === user?.id)?.role ?? null;
+
+  const changeRole = async (member: BoardMember, nextRole: BoardRole) => {
+    if (member.role === nextRole) return;
+
+    try {
+      const { data, error } = await insforge.database
+        .from('board_members')
+        .update({ role: nextRole })
+        .eq('board_id', member.board_id)
+        .eq('user_id', member.user_id)
+        .select(MEMBER_SELECT)
+        .single<BoardMember>();
+
+      if (error) throw error;
+      setMembers((current) => current.map((row) => (row.user_id === data.user_id ? data : row)));
+    } catch (error) {
+      console.error('Error changing role:', error);
+      showToast(getErrorMessage(error, t('members.roleFailed')));
+    }
+  };
+
+  const removeMember = async (member: BoardMember) => {
+    const isSelf = member.user_id === user?.id;
+    const question = isSelf
+      ? t('members.leaveConfirm')
+      : t('members.removeConfirm', { name: member.users?.nickname || t('members.thisMember') });
+    if (!(await confirmAction(question, { confirmLabel: isSelf ? t('members.leave') : t('common.remove') }))) {
+      return;
+    }
+
+    try {
+      const { error } = await insforge.database
+        .from('board_members')
+        .delete()
+        .eq('board_id', member.board_id)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+      setMembers((current) => current.filter((row) => row.user_id !== member.user_id));
+    } catch (error) {
+      console.error('Error removing member:', error);
+      showToast(getErrorMessage(error, t('members.removeFailed')));
+    }
+  };
+
+  return { members, role, loading, refresh: fetchMembers, changeRole, removeMember };
+}
+
+/** The board's open invite links. Only facilitators can see or create them. */
+export function useBoardInvites(boardId: string) {
+  const { user } = useUser();
+  const [invites, setInvites] = useState<BoardInvite[]>([]);
+
+  const fetchInvites = useCallback(async () => {
+    try {
+      const { data, error } = await insforge.database
+        .from('board_invites')
+        .select('*')
+        .eq('board_id', boardId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setInvites(data || []);
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load invite links.'));
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [fetchInvites]);
+
+  const createInvite = async (role: BoardRole) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await insforge.database
+        .from('board_invites')
+        .insert([{ board_id: boardId, role, created_by: user.id }])
+        .select('*')
+        .single<BoardInvite>();
+
+      if (error) throw error;
+      setInvites((current) => [...current, data]);
+      return data;
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      showToast(getErrorMessage(error, t('members.inviteFailed')));
+      return null;
+    }
+  };
+
+  const revokeInvite = async (invite: BoardInvite) => {
+    if (
+      !(await confirmAction(t('members.revokeConfirm'), {
+        confirmLabel: t('members.revoke'),
+      }))
+    ) {
+      return;
+    }
+
+    try {
+      const { error } = await insforge.database.from('board_invites').delete().eq('id', invite.id);
+
+      if (error) throw error;
+      setInvites((current) => current.filter((row) => row.id !== invite.id));
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      showToast(getErrorMessage(error, t('members.revokeFailed')));
+    }
+  };
+
+  return { invites, createInvite, revokeInvite };
+}
@@ -0,0 +1,408 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DataError } from './errors';
+import { createMemoryRepository, createMemoryStore, type MemoryBoard, type MemoryStore } from './memoryRepository';
+import type { RetroRepository } from './repository';
+import type { BoardRole } from '../types';
+
+const BOARD = 'board';
+const COLUMN = 'column';
+
+let store: MemoryStore;
+
+const setup = (board: Partial<MemoryBoard> = {}) => {
+  store = createMemoryStore({
+    boards: [{ id: BOARD, phase: 'write', vote_budget: 3, max_votes_per_item: 1, anonymity: 'none', ...board }],
+    users: [
+      { id: 'alice', nickname: 'Alice' },
+      { id: 'bob', nickname: 'Bob' },
+      { id: 'carol', nickname: 'Carol' },
+    ],
+    members: [
+      { board_id: BOARD, user_id: 'alice', role: 'participant' },
+      { board_id: BOARD, user_id: 'bob', role: 'participant' },
+    ],
+  });
+  return { alice: createMemoryRepository(store, 'alice'), bob: createMemoryRepository(store, 'bob') };
+};
+
+const setRole = (userId: string, role: BoardRole) => {
+  store.members = [
+    ...store.members.filter((member) => member.user_id !== userId),
+    { board_id: BOARD, user_id: userId, role },
+  ];
+};
+
+const setPhase = (phase: MemoryBoard['phase']) => {
+  store.boards[0].phase = phase;
+};
+
+const addCard = (repository: RetroRepository, userId: string, content: string) =>
+  repository.createItem({ board_id: BOARD, column_id: COLUMN, content, created_by: userId });
+
+describe('memory repository', () => {
+  let alice: RetroRepository;
+  let bob: RetroRepository;
+
+  beforeEach(() => {
+    ({ alice, bob } = setup());
+  });
+
+  describe('items', () => {
+    it('returns new cards with their author', async () => {
+      const card = await addCard(alice, 'alice', 'Deploys were smooth');
+      expect(card).toMatchObject({ content: 'Deploys were smooth', created_by: 'alice', users: { nickname: 'Alice' } });
+      expect(await bob.listItems(BOARD)).toHaveLength(1);
+    });
+
+    it('only accepts new cards in the write phase', async () => {
+      setPhase('vote');
+      await expect(addCard(alice, 'alice', 'Too late')).rejects.toThrow('not available during the vote phase');
+    });
+
+    it('rejects cards added on behalf of someone else', async () => {
+      await expect(addCard(alice, 'bob', 'Not mine')).rejects.toBeInstanceOf(DataError);
+    });
+
+    it('rejects writes without a signed-in user', async () => {
+      const signedOut = createMemoryRepository(store, null);
+      await expect(signedOut.listItems(BOARD)).resolves.toEqual([]);
+      await expect(addCard(signedOut, 'alice', 'Hello')).rejects.toThrow('signed in');
+    });
+  });
+
+  describe('ownership', () => {
+    it('lets authors edit their own cards and records the edit', async () => {
+      const card = await addCard(alice, 'alice', 'Typo');
+      const edited = await alice.updateItem(card, 'Fixed');
+      expect(edited.content).toBe('Fixed');
+      expect(edited.edited_at).not.toBeNull();
+    });
+
+    it("does not let anyone edit or delete someone else's card", async () => {
+      const card = await addCard(alice, 'alice', 'Mine');
+      await expect(bob.updateItem(card, 'Hijacked')).rejects.toThrow('your own cards');
+      await expect(bob.deleteItem(card)).rejects.toThrow('your own cards');
+      expect((await alice.listItems(BOARD))[0].content).toBe('Mine');
+    });
+
+    it("does not let anyone edit, delete or take back someone else's comment or vote", async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const comment = await alice.addComment({ board_id: BOARD, retro_item_id: card.id, user_id: 'alice', content: 'Hi' });
+      await expect(bob.updateComment(comment, 'Changed')).rejects.toThrow('your own comments');
+      await expect(bob.deleteComment(comment)).rejects.toThrow('your own comments');
+
+      setPhase('vote');
+      const vote = await alice.addVote({ board_id: BOARD, retro_item_id: card.id, user_id: 'alice' });
+      await expect(bob.removeVote(vote)).rejects.toThrow('your own votes');
+    });
+
+    it('deletes the votes and comments of a deleted card', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      await bob.addComment({ board_id: BOARD, retro_item_id: card.id, user_id: 'bob', content: 'Agreed' });
+      await alice.deleteItem(card);
+      expect(store.items).toEqual([]);
+      expect(store.comments).toEqual([]);
+    });
+
+    it('keeps a finished board read-only, even for authors', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      setPhase('done');
+      await expect(alice.updateItem(card, 'Later')).rejects.toThrow('not available during the done phase');
+      await expect(alice.deleteItem(card)).rejects.toThrow('not available during the done phase');
+    });
+
+    it("hides other people's names on anonymous boards but not the caller's own", async () => {
+      store.boards[0].anonymity = 'both';
+      const card = await addCard(alice, 'alice', 'Secret');
+      setPhase('vote');
+      await bob.addVote({ board_id: BOARD, retro_item_id: card.id, user_id: 'bob' });
+
+      const [seenByBob] = await bob.listItems(BOARD);
+      expect(seenByBob).toMatchObject({ created_by: null, users: null });
+      expect(seenByBob.votes?.[0]).toMatchObject({ user_id: 'bob', users: { nickname: 'Bob' } });
+
+      const [seenByAlice] = await alice.listItems(BOARD);
+      expect(seenByAlice).toMatchObject({ created_by: 'alice', users: { nickname: 'Alice' } });
+      expect(seenByAlice.votes?.[0]).toMatchObject({ user_id: null, users: null });
+    });
+
+    it("scrambles other people's text until the write phase ends", async () => {
+      await addCard(alice, 'alice', 'Slow CI builds');
+
+      expect((await alice.listItems(BOARD))[0].content).toBe('Slow CI builds');
+      expect((await bob.listItems(BOARD))[0].content).toBe('xxxx xx xxxxxx');
+
+      setPhase('group');
+      expect((await bob.listItems(BOARD))[0].content).toBe('Slow CI builds');
+    });
+  });
+
+  describe('roles', () => {
+    it('lets observers read the board but not write to it', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      setRole('bob', 'observer');
+
+      expect(await bob.listItems(BOARD)).toHaveLength(1);
+      await expect(addCard(bob, 'bob', 'Mine')).rejects.toThrow('Observers can only read');
+      await expect(
+        bob.addComment({ board_id: BOARD, retro_item_id: card.id, user_id: 'bob', content: 'Hi' })
+      ).rejects.toThrow('Observers can only read');
+
+      setPhase('vote');
+      await expect(bob.addVote({ board_id: BOARD, retro_item_id: card.id, user_id: 'bob' })).rejects.toThrow(
+        'Observers can only read'
+      );
+    });
+
+    it('shows nothing to people who are not on the board', async () => {
+      await addCard(alice, 'alice', 'Card');
+      const carol = createMemoryRepository(store, 'carol');
+
+      expect(await carol.listItems(BOARD)).toEqual([]);
+      await expect(addCard(carol, 'carol', 'Hello')).rejects.toThrow('not a member');
+    });
+
+    it("lets facilitators delete anyone's cards and comments", async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const comment = await alice.addComment({ board_id: BOARD, retro_item_id: card.id, user_id: 'alice', content: 'Hi' });
+      setRole('bob', 'facilitator');
+
+      await bob.deleteComment(comment);
+      expect(store.comments).toEqual([]);
+      await bob.deleteItem(card);
+      expect(store.items).toEqual([]);
+    });
+
+    it('shows hidden cards only to their author and the facilitators', async () => {
+      const card = await addCard(alice, 'alice', 'Off topic');
+      const carol = createMemoryRepository(store, 'carol');
+      setRole('carol', 'participant');
+      setRole('bob', 'facilitator');
+
+      await bob.setItemHidden(card, true);
+      expect(await carol.listItems(BOARD)).toEqual([]);
+      expect((await alice.listItems(BOARD))[0].hidden_at).not.toBeNull();
+      expect(await bob.listItems(BOARD)).toHaveLength(1);
+
+      await bob.setItemHidden(card, false);
+      expect(await carol.listItems(BOARD)).toHaveLength(1);
+    });
+
+    it('only lets facilitators hide cards', async () => {
+      const card = await addCard(bob, 'bob', 'Card');
+      await expect(alice.setItemHidden(card, true)).rejects.toThrow('Only facilitators');
+      expect(store.items[0].hidden_at).toBeNull();
+    });
+  });
+
+  describe('threads and reactions', () => {
+    const comment = (repository: RetroRepository, userId: string, itemId: string, parentId: string | null = null) =>
+      repository.addComment({ board_id: BOARD, retro_item_id: itemId, user_id: userId, content: 'Hi', parent_id: parentId });
+
+    const react = (repository: RetroRepository, userId: string, itemId: string, commentId: string | null = null) =>
+      repository.addReaction({ board_id: BOARD, retro_item_id: itemId, comment_id: commentId, user_id: userId, emoji: '👍' });
+
+    it('files a reply to a reply under the thread it belongs to', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const root = await comment(alice, 'alice', card.id);
+      const reply = await comment(bob, 'bob', card.id, root.id);
+      const nested = await comment(alice, 'alice', card.id, reply.id);
+      expect(reply.parent_id).toBe(root.id);
+      expect(nested.parent_id).toBe(root.id);
+    });
+
+    it('keeps replies on the card of the comment they answer', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const other = await addCard(alice, 'alice', 'Other');
+      const root = await comment(alice, 'alice', card.id);
+      await expect(comment(bob, 'bob', other.id, root.id)).rejects.toThrow('same card');
+    });
+
+    it('deletes the replies and reactions of a deleted comment', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const root = await comment(alice, 'alice', card.id);
+      await comment(bob, 'bob', card.id, root.id);
+      await react(bob, 'bob', card.id, root.id);
+      await alice.deleteComment(root);
+      expect(store.comments).toEqual([]);
+      expect(store.reactions).toEqual([]);
+    });
+
+    it('accepts one reaction per emoji and person on a card or comment', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const root = await comment(alice, 'alice', card.id);
+      await react(bob, 'bob', card.id);
+      await react(bob, 'bob', card.id, root.id);
+      await expect(react(bob, 'bob', card.id)).rejects.toThrow('already reacted');
+
+      const [listed] = await alice.listItems(BOARD);
+      expect(listed.reactions).toHaveLength(2);
+      expect(listed.votes).toEqual([]);
+    });
+
+    it('rejects reactions on a comment from another card', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const other = await addCard(alice, 'alice', 'Other');
+      const root = await comment(alice, 'alice', card.id);
+      await expect(react(bob, 'bob', other.id, root.id)).rejects.toThrow('is not on retro item');
+    });
+
+    it("does not let observers react or anyone take back someone else's reaction", async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const reaction = await react(alice, 'alice', card.id);
+      await expect(bob.removeReaction(reaction)).rejects.toThrow('your own reactions');
+
+      setRole('bob', 'observer');
+      await expect(react(bob, 'bob', card.id)).rejects.toThrow('Observers');
+    });
+
+    it('hides who reacted when the board hides its voters', async () => {
+      store.boards[0].anonymity = 'voters';
+      const card = await addCard(alice, 'alice', 'Card');
+      await react(bob, 'bob', card.id);
+
+      const [seenByAlice] = await alice.listItems(BOARD);
+      expect(seenByAlice.reactions?.[0]).toMatchObject({ user_id: null, users: null, emoji: '👍' });
+      const [seenByBob] = await bob.listItems(BOARD);
+      expect(seenByBob.reactions?.[0]).toMatchObject({ user_id: 'bob', users: { nickname: 'Bob' } });
+    });
+  });
+
+  describe('attachments', () => {
+    const image = (name = 'screenshot.png', type = 'image/png', size = 1024) =>
+      new File([new Uint8Array(size)], name, { type });
+
+    const attach = (repository: RetroRepository, userId: string, itemId: string, file = image()) =>
+      repository.addAttachment({ board_id: BOARD, retro_item_id: itemId, user_id: userId }, file);
+
+    it('attaches images to a card and lists them with it', async () => {
+      const card = await addCard(alice, 'alice', 'Dashboard broke');
+      const attachment = await attach(alice, 'alice', card.id);
+      expect(attachment).toMatchObject({ file_name: 'screenshot.png', mime_type: 'image/png', users: { nickname: 'Alice' } });
+      expect(attachment.storage_key.startsWith(`${BOARD}/`)).toBe(true);
+      expect((await bob.listItems(BOARD))[0].attachments).toHaveLength(1);
+    });
+
+    it("only lets the card's author or a facilitator attach images", async () => {
+      const card = await addCard(alice, 'alice', 'Dashboard broke');
+      await expect(attach(bob, 'bob', card.id)).rejects.toThrow("Only the card's author and facilitators");
+
+      setRole('bob', 'facilitator');
+      expect(await attach(bob, 'bob', card.id)).toMatchObject({ users: { nickname: 'Bob' } });
+    });
+
+    it('only accepts images of a limited size and number', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      await expect(attach(alice, 'alice', card.id, image('notes.txt', 'text/plain'))).rejects.toThrow('images can be attached');
+      await expect(attach(alice, 'alice', card.id, image('huge.png', 'image/png', 6 * 1024 * 1024))).rejects.toThrow(
+        'at most 5.0 MB'
+      );
+      for (let count = 0; count < 4; count += 1) {
+        await attach(alice, 'alice', card.id);
+      }
+      await expect(attach(alice, 'alice', card.id)).rejects.toThrow('at most 4 images');
+    });
+
+    it('lets only the uploader or a facilitator remove an image', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      const attachment = await attach(alice, 'alice', card.id);
+      await expect(bob.removeAttachment(attachment)).rejects.toThrow('images you attached');
+
+      setRole('bob', 'facilitator');
+      await bob.removeAttachment(attachment);
+      expect(store.attachments).toEqual([]);
+    });
+
+    it('removes the images of a deleted card', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      await attach(alice, 'alice', card.id);
+      await alice.deleteItem(card);
+      expect(store.attachments).toEqual([]);
+    });
+  });
+
+  describe('voting', () => {
+    const vote = (repository: RetroRepository, userId: string, itemId: string) =>
+      repository.addVote({ board_id: BOARD, retro_item_id: itemId, user_id: userId });
+
+    it('only accepts votes in the vote phase', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      await expect(vote(alice, 'alice', card.id)).rejects.toThrow('not available during the write phase');
+    });
+
+    it('enforces the per-person vote budget across the board', async () => {
+      const cards = [];
+      for (const content of ['One', 'Two', 'Three', 'Four']) {
+        cards.push(await addCard(alice, 'alice', content));
+      }
+      setPhase('vote');
+
+      for (const card of cards.slice(0, 3)) {
+        await vote(bob, 'bob', card.id);
+      }
+      await expect(vote(bob, 'bob', cards[3].id)).rejects.toThrow('used all 3 of your votes');
+      // Alice's budget is her own
+      await expect(vote(alice, 'alice', cards[3].id)).resolves.toMatchObject({ user_id: 'alice' });
+    });
+
+    it('limits the votes one person can stack on a card', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      setPhase('vote');
+      await vote(bob, 'bob', card.id);
+      await expect(vote(bob, 'bob', card.id)).rejects.toThrow('at most 1 vote(s) on one card');
+
+      store.boards[0].max_votes_per_item = 2;
+      await expect(vote(bob, 'bob', card.id)).resolves.toBeDefined();
+    });
+
+    it('counts the per-card limit over a whole group', async () => {
+      const first = await addCard(alice, 'alice', 'Slow CI');
+      const second = await addCard(bob, 'bob', 'CI takes forever');
+      for (const row of store.items) row.group_id = 'group';
+      setPhase('vote');
+
+      await vote(alice, 'alice', first.id);
+      await expect(vote(alice, 'alice', second.id)).rejects.toThrow('on one card');
+    });
+
+    it('gives a vote back when it is removed', async () => {
+      const card = await addCard(alice, 'alice', 'Card');
+      setPhase('vote');
+      const cast = await vote(bob, 'bob', card.id);
+      await bob.removeVote(cast);
+      expect((await bob.listItems(BOARD))[0].votes).toEqual([]);
+      await expect(vote(bob, 'bob', card.id)).resolves.toBeDefined();
+    });
+  });
+
+  describe('sorting', () => {
+    it('lists cards by votes, newest first on a tie', async () => {
+      const row = (id: string, created_at: string) => ({
+        id,
+        board_id: BOARD,
+        column_id: COLUMN,
+        content: id,
+        created_by: 'alice',
+        created_at,
+        edited_at: null,
+        hidden_at: null,
+        group_id: null,
+      });
+      store.items.push(
+        row('old', '2025-01-01T09:00:00Z'),
+        row('new', '2025-01-01T11:00:00Z'),
+        row('top', '2025-01-01T08:00:00Z')
+      );
+      setPhase('vote');
+      await alice.addVote({ board_id: BOARD, retro_item_id: 'top', user_id: 'alice' });
+
+      expect((await alice.listItems(BOARD)).map((item) => item.id)).toEqual(['top', 'new', 'old']);
+    });
+
+    it('only lists the cards of the requested board', async () => {
+      await addCard(alice, 'alice', 'Here');
+      store.items.push({ ...store.items[0], id: 'elsewhere', board_id: 'other-board' });
+      expect((await alice.listItems(BOARD)).map((item) => item.content)).toEqual(['Here']);
+    });
+  });
+});
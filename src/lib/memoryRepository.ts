@@ -0,0 +1,394 @@
+import { getAttachmentError, getAttachmentKey } from './attachments';
+import { DataError } from './errors';
+import { assembleItems, getGroupMembers } from './items';
+import { REACTION_EMOJIS } from './reactions';
+import { canWriteBoard } from './roles';
+import { collectVotes, countUserVotes } from './votes';
+import type { RetroRepository } from './repository';
+import type {
+  Anonymity,
+  Attachment,
+  BoardMember,
+  Comment,
+  Reaction,
+  RetroBoard,
+  RetroItem,
+  RetroPhase,
+  UserSummary,
+  Vote,
+} from '../types';
+
+export type MemoryBoard = Pick<RetroBoard, 'id' | 'phase' | 'vote_budget' | 'max_votes_per_item' | 'anonymity'>;
+
+// Rows are kept unmasked and without joined data, like the base tables.
+export interface MemoryStore {
+  boards: MemoryBoard[];
+  users: UserSummary[];
+  members: Pick<BoardMember, 'board_id' | 'user_id' | 'role'>[];
+  items: Omit<RetroItem, 'votes' | 'comments' | 'users'>[];
+  votes: Omit<Vote, 'users'>[];
+  comments: Omit<Comment, 'users'>[];
+  reactions: Omit<Reaction, 'users'>[];
+  attachments: Omit<Attachment, 'users'>[];
+}
+
+export const createMemoryStore = (seed: Partial<MemoryStore> = {}): MemoryStore => ({
+  boards: [],
+  users: [],
+  members: [],
+  items: [],
+  votes: [],
+  comments: [],
+  reactions: [],
+  attachments: [],
+  ...seed,
+});
+
+// The phases each kind of write is allowed in, as in db/migrations/003_phases.sql.
+const ITEM_INSERT_PHASES: RetroPhase[] = ['write'];
+const ITEM_CHANGE_PHASES: RetroPhase[] = ['write', 'group', 'vote', 'discuss'];
+const VOTE_PHASES: RetroPhase[] = ['vote'];
+const COMMENT_PHASES: RetroPhase[] = ['write', 'group', 'vote', 'discuss'];
+const REACTION_PHASES: RetroPhase[] = ['write', 'group', 'vote', 'discuss'];
+const ATTACHMENT_PHASES: RetroPhase[] = ['write', 'group', 'vote', 'discuss'];
+
+const hidesAuthors = (anonymity: Anonymity | undefined) => anonymity === 'authors' || anonymity === 'both';
+const hidesVoters = (anonymity: Anonymity | undefined) => anonymity === 'voters' || anonymity === 'both';
+
+/**
+ * A `RetroRepository` over plain arrays, for tests. `userId` plays the part
+ * of the signed-in user: it applies the same membership, ownership, phase and vote budget
+ * rules as the database policies and triggers, and masks other people's identities and
+ * leaves out hidden cards the way the board_* views do. Several repositories can share
+ * one store to act as different participants.
+ */
+export function createMemoryRepository(store: MemoryStore, userId: string | null): RetroRepository {
+  const findBoard = (boardId: string) => store.boards.find((board) => board.id === boardId);
+
+  const withUser = (id: string | null) => {
+    const user = id ? store.users.find((candidate) => candidate.id === id) : undefined;
+    return user ? { nickname: user.nickname } : null;
+  };
+
+  const requireUser = () => {
+    if (!userId) throw new DataError('You must be signed in');
+    return userId;
+  };
+
+  // Like the phase triggers, a board that isn't in the store doesn't restrict anything.
+  const requirePhase = (boardId: string, phases: RetroPhase[]) => {
+    const board = findBoard(boardId);
+    if (board && !phases.includes(board.phase)) {
+      throw new DataError(`This action is not available during the ${board.phase} phase`);
+    }
+  };
+
+  const roleOn = (boardId: string) =>
+    store.members.find((member) => member.board_id === boardId && member.user_id === userId)?.role ?? null;
+
+  const isFacilitator = (boardId: string) => !!findBoard(boardId) && roleOn(boardId) === 'facilitator';
+
+  // As with phases, boards that aren't in the store have no members to check.
+  const requireWriteAccess = (boardId: string) => {
+    if (!findBoard(boardId)) return;
+    const role = roleOn(boardId);
+    if (!role) throw new DataError('You are not a member of this board');
+    if (!canWriteBoard(role)) throw new DataError('Observers can only read this board');
+  };
+
+  // Like `can_see_item` in db/migrations/013_board_roles.sql
+  const canSee = (row: MemoryStore['items'][number]) => {
+    if (!findBoard(row.board_id)) return true;
+    if (!roleOn(row.board_id)) return false;
+    return !row.hidden_at || row.created_by === userId || isFacilitator(row.board_id);
+  };
+
+  const findItem = (itemId: string) => {
+    const item = store.items.find((candidate) => candidate.id === itemId);
+    if (!item) throw new DataError(`Retro item ${itemId} does not exist`);
+    return item;
+  };
+
+  // Other people's text is scrambled while writing, as in db/migrations/028_write_phase_masking.sql
+  const toItem = (row: MemoryStore['items'][number]): RetroItem => {
+    const board = findBoard(row.board_id);
+    const masked = hidesAuthors(board?.anonymity) && row.created_by !== userId;
+    const scrambled = board?.phase === 'write' && row.created_by !== userId;
+    return {
+      ...row,
+      content: scrambled ? row.content.replace(/\S/g, 'x') : row.content,
+      created_by: masked ? null : row.created_by,
+      users: masked ? null : withUser(row.created_by),
+    };
+  };
+
+  const toVote = (row: MemoryStore['votes'][number]): Vote => {
+    const masked = hidesVoters(findBoard(row.board_id)?.anonymity) && row.user_id !== userId;
+    return { ...row, user_id: masked ? null : row.user_id, users: masked ? null : withUser(row.user_id) };
+  };
+
+  const toComment = (row: MemoryStore['comments'][number]): Comment => {
+    const masked = hidesAuthors(findBoard(row.board_id)?.anonymity) && row.user_id !== userId;
+    return { ...row, user_id: masked ? null : row.user_id, users: masked ? null : withUser(row.user_id) };
+  };
+
+  // Reactions are masked along with the voters, as in db/migrations/014_threads_reactions.sql
+  const toReaction = (row: MemoryStore['reactions'][number]): Reaction => {
+    const masked = hidesVoters(findBoard(row.board_id)?.anonymity) && row.user_id !== userId;
+    return { ...row, user_id: masked ? null : row.user_id, users: masked ? null : withUser(row.user_id) };
+  };
+
+  const toAttachment = (row: MemoryStore['attachments'][number]): Attachment => {
+    const masked = hidesAuthors(findBoard(row.board_id)?.anonymity) && row.user_id !== userId;
+    return { ...row, user_id: masked ? null : row.user_id, users: masked ? null : withUser(row.user_id) };
+  };
+
+  const editedContent = (content: string) => {
+    if (!content.trim()) throw new DataError('Content cannot be empty');
+    return { content, edited_at: new Date().toISOString() };
+  };
+
+  return {
+    async listItems(boardId) {
+      const visible = store.items.filter((item) => item.board_id === boardId && canSee(item));
+      const visibleIds = new Set(visible.map((item) => item.id));
+      return assembleItems(
+        visible.map(toItem),
+        store.votes.filter((vote) => visibleIds.has(vote.retro_item_id)).map(toVote),
+        store.comments.filter((comment) => visibleIds.has(comment.retro_item_id)).map(toComment),
+        store.reactions.filter((reaction) => visibleIds.has(reaction.retro_item_id)).map(toReaction),
+        store.attachments.filter((attachment) => visibleIds.has(attachment.retro_item_id)).map(toAttachment)
+      );
+    },
+
+    async createItem(item) {
+      if (item.created_by !== requireUser()) throw new DataError('You can only add cards as yourself');
+      requireWriteAccess(item.board_id);
+      requirePhase(item.board_id, ITEM_INSERT_PHASES);
+
+      const row = {
+        ...item,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+        edited_at: null,
+        hidden_at: null,
+        group_id: null,
+      };
+      store.items.push(row);
+      return toItem(row);
+    },
+
+    async updateItem(item, content) {
+      const row = findItem(item.id);
+      if (row.created_by !== requireUser()) throw new DataError('You can only edit your own cards');
+      requireWriteAccess(row.board_id);
+      requirePhase(row.board_id, ITEM_CHANGE_PHASES);
+
+      if (content !== row.content) {
+        Object.assign(row, editedContent(content));
+      }
+      return toItem(row);
+    },
+
+    async deleteItem(item) {
+      const row = findItem(item.id);
+      // Facilitators can delete any card on their board
+      if (row.created_by !== requireUser() && !isFacilitator(row.board_id)) {
+        throw new DataError('You can only delete your own cards');
+      }
+      requireWriteAccess(row.board_id);
+      requirePhase(row.board_id, ITEM_CHANGE_PHASES);
+
+      // Everything on the card goes with it, as with the foreign key cascade
+      store.items = store.items.filter((candidate) => candidate.id !== row.id);
+      store.votes = store.votes.filter((vote) => vote.retro_item_id !== row.id);
+      store.comments = store.comments.filter((comment) => comment.retro_item_id !== row.id);
+      store.reactions = store.reactions.filter((reaction) => reaction.retro_item_id !== row.id);
+      store.attachments = store.attachments.filter((attachment) => attachment.retro_item_id !== row.id);
+    },
+
+    async setItemHidden(item, hidden) {
+      requireUser();
+      const row = findItem(item.id);
+      if (findBoard(row.board_id) && !isFacilitator(row.board_id)) {
+        throw new DataError('Only facilitators can hide cards');
+      }
+
+      row.hidden_at = hidden ? (row.hidden_at ?? new Date().toISOString()) : null;
+    },
+
+    async addVote(vote) {
+      if (vote.user_id !== requireUser()) throw new DataError('You can only vote as yourself');
+      const item = findItem(vote.retro_item_id);
+      requireWriteAccess(item.board_id);
+      requirePhase(item.board_id, VOTE_PHASES);
+
+      const board = findBoard(item.board_id);
+      if (board) {
+        const boardVotes = store.votes.filter((row) => row.board_id === item.board_id);
+        if (countUserVotes(boardVotes, vote.user_id) >= board.vote_budget) {
+          throw new DataError(`You have used all ${board.vote_budget} of your votes on this board`);
+        }
+
+        // The per-card limit counts the whole group, see db/migrations/008_item_groups.sql
+        const members = getGroupMembers(store.items, item).map((member) => ({
+          ...member,
+          votes: boardVotes.filter((row) => row.retro_item_id === member.id),
+        }));
+        if (countUserVotes(collectVotes(members), vote.user_id) >= board.max_votes_per_item) {
+          throw new DataError(`You can put at most ${board.max_votes_per_item} vote(s) on one card`);
+        }
+      }
+
+      // Votes always live on their item's board, whatever the caller sent
+      const row = { ...vote, id: crypto.randomUUID(), board_id: item.board_id };
+      store.votes.push(row);
+      return toVote(row);
+    },
+
+    async removeVote(vote) {
+      const row = store.votes.find((candidate) => candidate.id === vote.id);
+      if (!row) return;
+      if (row.user_id !== requireUser()) throw new DataError('You can only take back your own votes');
+      requireWriteAccess(row.board_id);
+      requirePhase(row.board_id, VOTE_PHASES);
+
+      store.votes = store.votes.filter((candidate) => candidate.id !== row.id);
+    },
+
+    async addComment(comment) {
+      if (comment.user_id !== requireUser()) throw new DataError('You can only comment as yourself');
+      const item = findItem(comment.retro_item_id);
+      requireWriteAccess(item.board_id);
+      requirePhase(item.board_id, COMMENT_PHASES);
+
+      // A reply to a reply joins its thread, like the `set_comment_thread` trigger
+      let parentId = comment.parent_id ?? null;
+      if (parentId) {
+        const parent = store.comments.find((candidate) => candidate.id === parentId);
+        if (!parent || parent.retro_item_id !== item.id) {
+          throw new DataError('Replies must be on the same card as the comment they answer');
+        }
+        parentId = parent.parent_id ?? parent.id;
+      }
+
+      const row = {
+        ...comment,
+        id: crypto.randomUUID(),
+        board_id: item.board_id,
+        created_at: new Date().toISOString(),
+        edited_at: null,
+        parent_id: parentId,
+      };
+      store.comments.push(row);
+      return toComment(row);
+    },
+
+    async updateComment(comment, content) {
+      const row = store.comments.find((candidate) => candidate.id === comment.id);
+      if (!row || row.user_id !== requireUser()) throw new DataError('You can only edit your own comments');
+      requireWriteAccess(row.board_id);
+      requirePhase(row.board_id, COMMENT_PHASES);
+
+      if (content !== row.content) {
+        Object.assign(row, editedContent(content));
+      }
+      return toComment(row);
+    },
+
+    async deleteComment(comment) {
+      const row = store.comments.find((candidate) => candidate.id === comment.id);
+      if (!row) return;
+      if (row.user_id !== requireUser() && !isFacilitator(row.board_id)) {
+        throw new DataError('You can only delete your own comments');
+      }
+      requireWriteAccess(row.board_id);
+      requirePhase(row.board_id, COMMENT_PHASES);
+
+      // Replies and reactions go with the comment
+      const replyIds = store.comments.filter((reply) => reply.parent_id === row.id).map((reply) => reply.id);
+      const removed = new Set([row.id, ...replyIds]);
+      store.comments = store.comments.filter((candidate) => !removed.has(candidate.id));
+      store.reactions = store.reactions.filter((reaction) => !reaction.comment_id || !removed.has(reaction.comment_id));
+    },
+
+    async addReaction(reaction) {
+      if (reaction.user_id !== requireUser()) throw new DataError('You can only react as yourself');
+      if (!REACTION_EMOJIS.includes(reaction.emoji)) throw new DataError(`${reaction.emoji} is not a reaction`);
+      const item = findItem(reaction.retro_item_id);
+      if (
+        reaction.comment_id &&
+        !store.comments.some((comment) => comment.id === reaction.comment_id && comment.retro_item_id === item.id)
+      ) {
+        throw new DataError(`Comment ${reaction.comment_id} is not on retro item ${item.id}`);
+      }
+      requireWriteAccess(item.board_id);
+      requirePhase(item.board_id, REACTION_PHASES);
+
+      const duplicate = store.reactions.some(
+        (row) =>
+          row.retro_item_id === item.id &&
+          row.comment_id === reaction.comment_id &&
+          row.user_id === reaction.user_id &&
+          row.emoji === reaction.emoji
+      );
+      if (duplicate) throw new DataError(`You already reacted with ${reaction.emoji}`);
+
+      const row = { ...reaction, id: crypto.randomUUID(), board_id: item.board_id, created_at: new Date().toISOString() };
+      store.reactions.push(row);
+      return toReaction(row);
+    },
+
+    async removeReaction(reaction) {
+      const row = store.reactions.find((candidate) => candidate.id === reaction.id);
+      if (!row) return;
+      if (row.user_id !== requireUser()) throw new DataError('You can only take back your own reactions');
+      requireWriteAccess(row.board_id);
+      requirePhase(row.board_id, REACTION_PHASES);
+
+      store.reactions = store.reactions.filter((candidate) => candidate.id !== row.id);
+    },
+
+    // The file is kept as an object URL for as long as the page is open
+    async addAttachment(attachment, file) {
+      if (attachment.user_id !== requireUser()) throw new DataError('You can only attach images as yourself');
+      const item = findItem(attachment.retro_item_id);
+      requireWriteAccess(item.board_id);
+      if (item.created_by !== attachment.user_id && !isFacilitator(item.board_id)) {
+        throw new DataError("Only the card's author and facilitators can attach images");
+      }
+      requirePhase(item.board_id, ATTACHMENT_PHASES);
+
+      const attachedCount = store.attachments.filter((row) => row.retro_item_id === item.id).length;
+      const invalid = getAttachmentError(file, attachedCount);
+      if (invalid) throw new DataError(invalid);
+
+      const row = {
+        ...attachment,
+        id: crypto.randomUUID(),
+        board_id: item.board_id,
+        storage_key: getAttachmentKey(item.board_id, file.name),
+        url: URL.createObjectURL(file),
+        file_name: file.name,
+        mime_type: file.type,
+        size: file.size,
+        created_at: new Date().toISOString(),
+      };
+      store.attachments.push(row);
+      return toAttachment(row);
+    },
+
+    async removeAttachment(attachment) {
+      const row = store.attachments.find((candidate) => candidate.id === attachment.id);
+      if (!row) return;
+      if (row.user_id !== requireUser() && !isFacilitator(row.board_id)) {
+        throw new DataError('You can only remove images you attached');
+      }
+      requireWriteAccess(row.board_id);
+      requirePhase(row.board_id, ATTACHMENT_PHASES);
+
+      store.attachments = store.attachments.filter((candidate) => candidate.id !== row.id);
+      URL.revokeObjectURL(row.url);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { MessageKey } from './i18n';
+import type { RetroPhase } from '../types';
+
+// Keep in sync with the `retro_boards.phase` check and `enforce_board_phase` trigger args.
+export const PHASES: RetroPhase[] = ['write', 'group', 'vote', 'discuss', 'done'];
+
+export const PHASE_LABELS: Record<RetroPhase, MessageKey> = {
+  write: 'phases.write',
+  group: 'phases.group',
+  vote: 'phases.vote',
+  discuss: 'phases.discuss',
+  done: 'phases.done',
+};
+
+export const PHASE_DESCRIPTIONS: Record<RetroPhase, MessageKey> = {
+  write: 'phases.write.description',
+  group: 'phases.group.description',
+  vote: 'phases.vote.description',
+  discuss: 'phases.discuss.description',
+  done: 'phases.done.description',
+};
+
+export const getAdjacentPhase = (phase: RetroPhase, direction: 1 | -1): RetroPhase | null =>
+  PHASES[PHASES.indexOf(phase) + direction] ?? null;
+
+export const canAddItems = (phase: RetroPhase) => phase === 'write';
+
+export const canGroup = (phase: RetroPhase) => phase === 'group';
+
+export const canVote = (phase: RetroPhase) => phase === 'vote';
+
+export const isReadOnly = (phase: RetroPhase) => phase === 'done';
+
+export const hidesOthersItems = (phase: RetroPhase) => phase === 'write';
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from './insforge';
+import { getErrorMessage } from './errors';
+import { isLocale, setLocale, t, useLocale, type Locale } from './i18n';
+import { showToast } from './toast';
+
+/**
+ * The app's language. Signed-in users get the one they picked last, on any browser; before
+ * that (and when signed out) the browser's own choice is used.
+ */
+export function useLocalePreference() {
+  const { user } = useUser();
+  const locale = useLocale();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    const fetchPreference = async () => {
+      try {
+        const { data, error } = await insforge.database
+          .from('user_preferences')
+          .select('locale')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!cancelled && isLocale(data?.locale)) setLocale(data.locale);
+      } catch (error) {
+        console.error('Error fetching preferences:', error);
+        console.error('Error details:', getErrorMessage(error, 'Failed to load preferences.'));
+      }
+    };
+
+    fetchPreference();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const changeLocale = async (next: Locale) => {
+    setLocale(next);
+    if (!userId) return;
+
+    try {
+      const { error } = await insforge.database
+        .from('user_preferences')
+        .upsert([{ user_id: userId, locale: next, updated_at: new Date().toISOString() }], { onConflict: 'user_id' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving language:', error);
+      showToast(getErrorMessage(error, t('preferences.saveFailed')));
+    }
+  };
+
+  return { locale, changeLocale };
+}
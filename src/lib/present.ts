@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from './insforge';
+import { getErrorMessage } from './errors';
+import { t } from './i18n';
+import { clusterItems, type ItemCluster } from './items';
+import { useBoardEvent } from './realtime';
+import { showToast } from './toast';
+import type { RetroItem, TopicVote, TopicVoteChoice } from '../types';
+
+export const TOPIC_MINUTE_OPTIONS = [2, 3, 5, 10, 15];
+export const EXTEND_MINUTES = 2;
+
+// Published by the `publish_topic_vote_change` trigger, see db/migrations/011_present_mode.sql.
+const TOPIC_VOTE_CHANGED_EVENT = 'topic_vote.changed';
+
+// Topics in discussion order: the vote ranking of `sortItems`, with a group as one topic.
+export const getTopics = (items: RetroItem[]): ItemCluster[] => clusterItems(items);
+
+export const findTopicIndex = (topics: ItemCluster[], itemId: string | null) =>
+  itemId ? topics.findIndex((topic) => topic.items.some((item) => item.id === itemId)) : -1;
+
+export const getTopicEndsAt = (minutes: number, from = Date.now()) => new Date(from + minutes * 60_000).toISOString();
+
+// "4:05", or "+0:30" once the time is up.
+export function formatCountdown(seconds: number) {
+  const absolute = Math.abs(seconds);
+  const text = `${Math.floor(absolute / 60)}:${String(absolute % 60).padStart(2, '0')}`;
+  return seconds < 0 ? `+${text}` : text;
+}
+
+/** Seconds left until `endsAt`, updated every second; negative once it has passed. */
+export function useCountdown(endsAt: string | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!endsAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [endsAt]);
+
+  return endsAt ? Math.ceil((new Date(endsAt).getTime() - now) / 1000) : null;
+}
+
+/** Everyone's "extend" / "move on" votes for the topic on screen. */
+export function useTopicVotes(boardId: string, itemId: string | null) {
+  const { user } = useUser();
+  const [votes, setVotes] = useState<TopicVote[]>([]);
+
+  const fetchVotes = useCallback(async () => {
+    if (!itemId) {
+      setVotes([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await insforge.database
+        .from('topic_votes')
+        .select('board_id, retro_item_id, user_id, choice')
+        .eq('board_id', boardId)
+        .eq('retro_item_id', itemId);
+
+      if (error) throw error;
+      setVotes(data || []);
+    } catch (error) {
+      console.error('Error fetching topic votes:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load topic votes.'));
+    }
+  }, [boardId, itemId]);
+
+  useEffect(() => {
+    fetchVotes();
+  }, [fetchVotes]);
+
+  useBoardEvent(boardId, TOPIC_VOTE_CHANGED_EVENT, () => {
+    fetchVotes();
+  });
+
+  const ownChoice = votes.find((vote) => vote.user_id === user?.id)?.choice ?? null;
+
+  // Picking the same choice again withdraws it.
+  const cast = async (choice: TopicVoteChoice) => {
+    if (!user || !itemId) return;
+
+    try {
+      const { error } =
+        ownChoice === choice
+          ? await insforge.database
+              .from('topic_votes')
+              .delete()
+              .eq('board_id', boardId)
+              .eq('retro_item_id', itemId)
+              .eq('user_id', user.id)
+          : await insforge.database
+              .from('topic_votes')
+              .upsert(
+                [{ board_id: boardId, retro_item_id: itemId, user_id: user.id, choice }],
+                { onConflict: 'board_id,retro_item_id,user_id' }
+              );
+
+      if (error) throw error;
+      fetchVotes();
+    } catch (error) {
+      console.error('Error casting topic vote:', error);
+      showToast(getErrorMessage(error, t('present.voteFailed')));
+    }
+  };
+
+  const tally = {
+    extend: votes.filter((vote) => vote.choice === 'extend').length,
+    move_on: votes.filter((vote) => vote.choice === 'move_on').length,
+  };
+
+  return { tally, ownChoice, cast };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { describeReaction, reactionsOn, summarizeReactions } from './reactions';
+import type { Reaction } from '../types';
+
+const reaction = (id: string, emoji: string, userId: string | null, commentId: string | null = null): Reaction => ({
+  id,
+  board_id: 'board',
+  retro_item_id: 'item',
+  comment_id: commentId,
+  user_id: userId,
+  users: userId ? { nickname: userId } : null,
+  emoji,
+  created_at: '2025-01-01T10:00:00Z',
+});
+
+describe('summarizeReactions', () => {
+  it('counts each emoji in picker order and finds our own reaction', () => {
+    const summaries = summarizeReactions(
+      [reaction('1', '🎉', 'alice'), reaction('2', '👍', 'bob'), reaction('3', '🎉', 'bob')],
+      'alice'
+    );
+    expect(summaries.map(({ emoji, count, names }) => [emoji, count, names])).toEqual([
+      ['👍', 1, ['bob']],
+      ['🎉', 2, ['alice', 'bob']],
+    ]);
+    expect(summaries[0].own).toBeUndefined();
+    expect(summaries[1].own?.id).toBe('1');
+  });
+
+  it('counts anonymous reactions without naming anyone', () => {
+    const [summary] = summarizeReactions([reaction('1', '👀', null), reaction('2', '👀', 'alice')], 'alice');
+    expect(summary.count).toBe(2);
+    expect(describeReaction(summary)).toBe('Eyes: alice and 1 other');
+    expect(describeReaction({ ...summary, names: [] })).toBe('Eyes: 2 people');
+  });
+});
+
+describe('reactionsOn', () => {
+  it('tells reactions on the card apart from reactions on its comments', () => {
+    const reactions = [reaction('1', '👍', 'alice'), reaction('2', '👍', 'alice', 'comment')];
+    expect(reactionsOn(reactions, null).map((row) => row.id)).toEqual(['1']);
+    expect(reactionsOn(reactions, 'comment').map((row) => row.id)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,55 @@
+import { t, type MessageKey } from './i18n';
+import type { Reaction } from '../types';
+
+// Keep in sync with the `reactions.emoji` check in db/migrations/014_threads_reactions.sql.
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '🤔', '👀'];
+
+export const REACTION_LABELS: Record<string, MessageKey> = {
+  '👍': 'reactions.thumbsUp',
+  '❤️': 'reactions.heart',
+  '😂': 'reactions.laughing',
+  '🎉': 'reactions.party',
+  '🤔': 'reactions.thinking',
+  '👀': 'reactions.eyes',
+};
+
+export const getReactionLabel = (emoji: string) => (emoji in REACTION_LABELS ? t(REACTION_LABELS[emoji]) : emoji);
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  // Who reacted, in order; people hidden by the board's anonymity setting are left out
+  names: string[];
+  // The signed-in user's own reaction with this emoji, if any
+  own: Reaction | undefined;
+}
+
+// The reactions on a card itself (`commentId` null) or on one of its comments.
+export const reactionsOn = (reactions: Reaction[] | undefined, commentId: string | null) =>
+  (reactions || []).filter((reaction) => reaction.comment_id === commentId);
+
+/** One entry per emoji that has been used, in the order of `REACTION_EMOJIS`. */
+export function summarizeReactions(reactions: Reaction[], userId: string | undefined): ReactionSummary[] {
+  return REACTION_EMOJIS.map((emoji) => {
+    const matching = reactions.filter((reaction) => reaction.emoji === emoji);
+    return {
+      emoji,
+      count: matching.length,
+      names: matching.filter((reaction) => reaction.user_id).map((reaction) => reaction.users?.nickname || t('common.anonymous')),
+      own: userId ? matching.find((reaction) => reaction.user_id === userId) : undefined,
+    };
+  }).filter((summary) => summary.count > 0);
+}
+
+// "Thumbs up: Alice, Bob and 2 others" — the others being people the board keeps anonymous.
+export function describeReaction({ emoji, count, names }: ReactionSummary) {
+  const label = getReactionLabel(emoji);
+  const hidden = count - names.length;
+  if (names.length === 0) {
+    return t('reactions.people', { label, count });
+  }
+  if (hidden === 0) {
+    return t('reactions.names', { label, names: names.join(', ') });
+  }
+  return t('reactions.namesAndOthers', { label, names: names.join(', '), count: hidden });
+}
@@ -0,0 +1,205 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SocketMessage } from '@insforge/sdk';
+import { insforge } from './insforge';
+import type { BoardChange } from './items';
+import type { Attachment, Comment, Reaction, RetroBoard, RetroItem, Vote } from '../types';
+
+export type ConnectionStatus = 'connecting' | 'live' | 'reconnecting';
+
+interface BoardChannelHandlers {
+  onChange: (change: BoardChange) => void;
+  onBoardUpdated: (board: RetroBoard) => void;
+  // Called after a dropped connection comes back, since changes made meanwhile were missed.
+  onResync: () => void;
+}
+
+// Published by the `publish_board_update` trigger, see db/migrations/003_phases.sql.
+const BOARD_UPDATED_EVENT = 'board.updated';
+
+const RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+export const boardChannel = (boardId: string) => `board:${boardId}`;
+
+const stripMeta = (message: SocketMessage): Record<string, unknown> => {
+  const record: Record<string, unknown> = { ...message };
+  delete record.meta;
+  return record;
+};
+
+// The fields a payload must carry, and their types, to be taken as a row of T. Payloads come
+// from our own triggers, so this catches a schema drifting from the app rather than forgery.
+type PayloadFields<T> = Partial<Record<keyof T & string, 'string' | 'number'>>;
+
+const hasFields = <T>(
+  record: Record<string, unknown>,
+  fields: PayloadFields<T>
+): record is Record<string, unknown> & T =>
+  Object.entries(fields).every(([field, type]) => typeof record[field] === type);
+
+const BOARD_FIELDS: PayloadFields<RetroBoard> = {
+  id: 'string',
+  name: 'string',
+  phase: 'string',
+  vote_budget: 'number',
+};
+const ITEM_FIELDS: PayloadFields<RetroItem> = {
+  id: 'string',
+  board_id: 'string',
+  column_id: 'string',
+  content: 'string',
+};
+const VOTE_FIELDS: PayloadFields<Vote> = { id: 'string', board_id: 'string', retro_item_id: 'string' };
+const COMMENT_FIELDS: PayloadFields<Comment> = { id: 'string', retro_item_id: 'string', content: 'string' };
+const REACTION_FIELDS: PayloadFields<Reaction> = { id: 'string', retro_item_id: 'string', emoji: 'string' };
+const ATTACHMENT_FIELDS: PayloadFields<Attachment> = { id: 'string', retro_item_id: 'string', url: 'string' };
+
+// Published by the `publish_board_change` trigger, see db/migrations/002_realtime.sql, plus
+// db/migrations/014_threads_reactions.sql for reactions and 015_attachments.sql for images.
+const CHANGE_PARSERS: Record<string, (record: Record<string, unknown>) => BoardChange | null> = {
+  'item.created': (record) =>
+    hasFields<RetroItem>(record, ITEM_FIELDS) ? { entity: 'item', action: 'created', record } : null,
+  'item.updated': (record) =>
+    hasFields<RetroItem>(record, ITEM_FIELDS) ? { entity: 'item', action: 'updated', record } : null,
+  'item.deleted': (record) =>
+    hasFields<RetroItem>(record, ITEM_FIELDS) ? { entity: 'item', action: 'deleted', record } : null,
+  'vote.created': (record) =>
+    hasFields<Vote>(record, VOTE_FIELDS) ? { entity: 'vote', action: 'created', record } : null,
+  'vote.deleted': (record) =>
+    hasFields<Vote>(record, VOTE_FIELDS) ? { entity: 'vote', action: 'deleted', record } : null,
+  'comment.created': (record) =>
+    hasFields<Comment>(record, COMMENT_FIELDS) ? { entity: 'comment', action: 'created', record } : null,
+  'comment.updated': (record) =>
+    hasFields<Comment>(record, COMMENT_FIELDS) ? { entity: 'comment', action: 'updated', record } : null,
+  'comment.deleted': (record) =>
+    hasFields<Comment>(record, COMMENT_FIELDS) ? { entity: 'comment', action: 'deleted', record } : null,
+  'reaction.created': (record) =>
+    hasFields<Reaction>(record, REACTION_FIELDS) ? { entity: 'reaction', action: 'created', record } : null,
+  'reaction.deleted': (record) =>
+    hasFields<Reaction>(record, REACTION_FIELDS) ? { entity: 'reaction', action: 'deleted', record } : null,
+  'attachment.created': (record) =>
+    hasFields<Attachment>(record, ATTACHMENT_FIELDS) ? { entity: 'attachment', action: 'created', record } : null,
+  'attachment.deleted': (record) =>
+    hasFields<Attachment>(record, ATTACHMENT_FIELDS) ? { entity: 'attachment', action: 'deleted', record } : null,
+};
+
+export function useBoardChannel(boardId: string, handlers: BoardChannelHandlers): ConnectionStatus {
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const realtime = insforge.realtime;
+    const channel = boardChannel(boardId);
+    let cancelled = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let missedChanges = false;
+
+    const subscribe = async () => {
+      const response = await realtime.subscribe(channel);
+      if (cancelled) return;
+
+      if (response.ok) {
+        attempt = 0;
+        setStatus('live');
+        if (missedChanges) {
+          missedChanges = false;
+          handlersRef.current.onResync();
+        }
+        return;
+      }
+
+      console.error('Error subscribing to board channel:', response.error.message);
+      missedChanges = true;
+      setStatus('reconnecting');
+      const delay = RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length - 1)];
+      attempt += 1;
+      retryTimer = setTimeout(subscribe, delay);
+    };
+
+    const listeners = Object.entries(CHANGE_PARSERS).map(([event, parse]) => {
+      const listener = (message: SocketMessage) => {
+        if (message.meta.channel !== channel) return;
+        const change = parse(stripMeta(message));
+        if (!change) {
+          console.error('Ignoring malformed board change:', event);
+          return;
+        }
+        handlersRef.current.onChange(change);
+      };
+      realtime.on(event, listener);
+      return [event, listener] as const;
+    });
+
+    const handleBoardUpdated = (message: SocketMessage) => {
+      if (message.meta.channel !== channel) return;
+      const record = stripMeta(message);
+      if (!hasFields<RetroBoard>(record, BOARD_FIELDS)) {
+        console.error('Ignoring malformed board update');
+        return;
+      }
+      handlersRef.current.onBoardUpdated(record);
+    };
+
+    // The socket reconnects and resubscribes by itself; we only track state and resync.
+    const handleDisconnect = () => {
+      missedChanges = true;
+      setStatus('reconnecting');
+    };
+    const handleConnect = () => {
+      if (!missedChanges) return;
+      clearTimeout(retryTimer);
+      subscribe();
+    };
+    // Browsers report network recovery before socket.io's backoff would retry.
+    const handleOnline = () => {
+      if (realtime.isConnected) return;
+      clearTimeout(retryTimer);
+      subscribe();
+    };
+
+    realtime.on(BOARD_UPDATED_EVENT, handleBoardUpdated);
+    realtime.on('disconnect', handleDisconnect);
+    realtime.on('connect', handleConnect);
+    window.addEventListener('online', handleOnline);
+    subscribe();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+      listeners.forEach(([event, listener]) => realtime.off(event, listener));
+      realtime.off(BOARD_UPDATED_EVENT, handleBoardUpdated);
+      realtime.off('disconnect', handleDisconnect);
+      realtime.off('connect', handleConnect);
+      window.removeEventListener('online', handleOnline);
+      realtime.unsubscribe(channel);
+    };
+  }, [boardId]);
+
+  return status;
+}
+
+/**
+ * Listens for one custom event on a board's channel. The subscription itself is owned by
+ * `useBoardChannel`, so this only attaches a listener.
+ */
+export function useBoardEvent<T>(boardId: string, event: string, handler: (payload: T) => void) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    const channel = boardChannel(boardId);
+    const listener = (message: SocketMessage) => {
+      if (message.meta.channel !== channel) return;
+      handlerRef.current(stripMeta(message) as T);
+    };
+    insforge.realtime.on(event, listener);
+    return () => insforge.realtime.off(event, listener);
+  }, [boardId, event]);
+}
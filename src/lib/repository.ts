@@ -0,0 +1,45 @@
+import { insforgeRepository } from './insforgeRepository';
+import type { Attachment, Comment, Reaction, RetroItem, Vote } from '../types';
+
+export type NewItem = Pick<RetroItem, 'board_id' | 'column_id' | 'content'> & { created_by: string };
+export type NewVote = Pick<Vote, 'board_id' | 'retro_item_id'> & { user_id: string };
+export type NewComment = Pick<Comment, 'board_id' | 'retro_item_id' | 'content'> & {
+  user_id: string;
+  // Set for a reply
+  parent_id?: string | null;
+};
+export type NewReaction = Pick<Reaction, 'board_id' | 'retro_item_id' | 'comment_id' | 'emoji'> & { user_id: string };
+export type NewAttachment = Pick<Attachment, 'board_id' | 'retro_item_id'> & { user_id: string };
+
+/**
+ * Reads and writes a board's items, votes, comments, reactions and attachments. Every
+ * method rejects with a `DataError` when the backend refuses the request, e.g. a vote over
+ * budget, an edit of someone else's card or any write by an observer. Records come back
+ * the way the board_* views return them: identities are masked per the board's anonymity
+ * setting, except on the caller's own rows, and hidden cards are left out for everyone but
+ * their authors and the facilitators.
+ */
+export interface RetroRepository {
+  // The board's items with everything on them, in `sortItems` order.
+  listItems(boardId: string): Promise<RetroItem[]>;
+  createItem(item: NewItem): Promise<RetroItem>;
+  updateItem(item: RetroItem, content: string): Promise<RetroItem>;
+  deleteItem(item: RetroItem): Promise<void>;
+  // Facilitators only. A hidden card stays visible to its author and the facilitators.
+  setItemHidden(item: RetroItem, hidden: boolean): Promise<void>;
+  addVote(vote: NewVote): Promise<Vote>;
+  removeVote(vote: Vote): Promise<void>;
+  addComment(comment: NewComment): Promise<Comment>;
+  updateComment(comment: Comment, content: string): Promise<Comment>;
+  deleteComment(comment: Comment): Promise<void>;
+  addReaction(reaction: NewReaction): Promise<Reaction>;
+  removeReaction(reaction: Reaction): Promise<void>;
+  // Stores the image file, then records it on the card. Check it with `getAttachmentError` first.
+  // Only the card's author and facilitators can attach images.
+  addAttachment(attachment: NewAttachment, file: File): Promise<Attachment>;
+  // The uploader or a facilitator; the stored file is deleted along with the record
+  removeAttachment(attachment: Attachment): Promise<void>;
+}
+
+/** The repository the app reads and writes through. `createMemoryRepository` implements the same interface for tests. */
+export const useRepository = (): RetroRepository => insforgeRepository;
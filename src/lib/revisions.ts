@@ -0,0 +1,23 @@
+import { insforge } from './insforge';
+import type { Revision } from '../types';
+
+export type RevisionSubject = 'item' | 'comment';
+
+// Written by the `record_revision` trigger, see db/migrations/010_edit_history.sql.
+const REVISION_SOURCES: Record<RevisionSubject, { table: string; column: string }> = {
+  item: { table: 'retro_item_revisions', column: 'retro_item_id' },
+  comment: { table: 'comment_revisions', column: 'comment_id' },
+};
+
+// Earlier texts of an item or comment, newest first.
+export async function fetchRevisions(subject: RevisionSubject, id: string): Promise<Revision[]> {
+  const { table, column } = REVISION_SOURCES[subject];
+  const { data, error } = await insforge.database
+    .from(table)
+    .select('id, content, written_at, replaced_at')
+    .eq(column, id)
+    .order('replaced_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,20 @@
+import type { MessageKey } from './i18n';
+import type { BoardRole } from '../types';
+
+// Keep in sync with the `board_members.role` check in db/migrations/013_board_roles.sql.
+export const ROLES: BoardRole[] = ['facilitator', 'participant', 'observer'];
+
+export const ROLE_LABELS: Record<BoardRole, MessageKey> = {
+  facilitator: 'roles.facilitator',
+  participant: 'roles.participant',
+  observer: 'roles.observer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<BoardRole, MessageKey> = {
+  facilitator: 'roles.facilitator.description',
+  participant: 'roles.participant.description',
+  observer: 'roles.observer.description',
+};
+
+// Mirrors `can_write_board` in the migration: observers and non-members only read.
+export const canWriteBoard = (role: BoardRole | null) => role === 'facilitator' || role === 'participant';
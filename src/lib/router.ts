@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+
+export type Route =
+  | { name: 'boards' }
+  | { name: 'board'; boardId: string }
+  | { name: 'history' }
+  | { name: 'webhooks' }
+  | { name: 'invite'; token: string };
+
+const BOARD_PATH = /^\/boards\/([^/]+)\/?$/;
+const INVITE_PATH = /^\/invite\/([^/]+)\/?$/;
+export const HISTORY_PATH = '/history';
+export const WEBHOOKS_PATH = '/webhooks';
+
+export function parseRoute(pathname: string): Route {
+  const match = pathname.match(BOARD_PATH);
+  if (match) {
+    return { name: 'board', boardId: decodeURIComponent(match[1]) };
+  }
+  const invite = pathname.match(INVITE_PATH);
+  if (invite) {
+    return { name: 'invite', token: decodeURIComponent(invite[1]) };
+  }
+  if (pathname.replace(/\/$/, '') === HISTORY_PATH) {
+    return { name: 'history' };
+  }
+  if (pathname.replace(/\/$/, '') === WEBHOOKS_PATH) {
+    return { name: 'webhooks' };
+  }
+  return { name: 'boards' };
+}
+
+export function boardPath(boardId: string) {
+  return `/boards/${encodeURIComponent(boardId)}`;
+}
+
+export function invitePath(token: string) {
+  return `/invite/${encodeURIComponent(token)}`;
+}
+
+export function navigate(path: string) {
+  if (path === window.location.pathname) return;
+  window.history.pushState(null, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+export function useRoute(): Route {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return route;
+}
@@ -0,0 +1,84 @@
+import type { MessageKey } from './i18n';
+import type { BoardColumn } from '../types';
+
+export type ColumnTemplate = Pick<BoardColumn, 'label' | 'color' | 'placeholder'>;
+
+export interface BoardTemplate {
+  id: string;
+  name: MessageKey;
+  columns: ColumnTemplate[];
+}
+
+// The first template matches the columns every board had before templates existed.
+export const BOARD_TEMPLATES: BoardTemplate[] = [
+  {
+    id: 'good-bad-better',
+    name: 'templates.goodBadBetter',
+    columns: [
+      { label: 'Good', color: 'green', placeholder: 'What went well?' },
+      { label: 'Bad', color: 'red', placeholder: "What didn't go well?" },
+      { label: 'Better', color: 'blue', placeholder: 'What can be improved?' },
+    ],
+  },
+  {
+    id: 'start-stop-continue',
+    name: 'templates.startStopContinue',
+    columns: [
+      { label: 'Start', color: 'green', placeholder: 'What should we start doing?' },
+      { label: 'Stop', color: 'red', placeholder: 'What should we stop doing?' },
+      { label: 'Continue', color: 'blue', placeholder: 'What should we keep doing?' },
+    ],
+  },
+  {
+    id: '4ls',
+    name: 'templates.4ls',
+    columns: [
+      { label: 'Liked', color: 'green', placeholder: 'What did you like?' },
+      { label: 'Learned', color: 'blue', placeholder: 'What did you learn?' },
+      { label: 'Lacked', color: 'orange', placeholder: 'What was missing?' },
+      { label: 'Longed For', color: 'purple', placeholder: 'What do you wish we had?' },
+    ],
+  },
+  {
+    id: 'mad-sad-glad',
+    name: 'templates.madSadGlad',
+    columns: [
+      { label: 'Mad', color: 'red', placeholder: 'What made you mad?' },
+      { label: 'Sad', color: 'blue', placeholder: 'What made you sad?' },
+      { label: 'Glad', color: 'green', placeholder: 'What made you glad?' },
+    ],
+  },
+];
+
+export const DEFAULT_TEMPLATE = BOARD_TEMPLATES[0];
+
+// Columns keep the English text they were created with. These keys show that text in each reader's
+// language; they must match the text above as it was when boards were created, not as it reads now.
+export const TEMPLATE_TEXT = new Map<string, MessageKey>([
+  ['Good', 'templates.good'],
+  ['What went well?', 'templates.good.prompt'],
+  ['Bad', 'templates.bad'],
+  ["What didn't go well?", 'templates.bad.prompt'],
+  ['Better', 'templates.better'],
+  ['What can be improved?', 'templates.better.prompt'],
+  ['Start', 'templates.start'],
+  ['What should we start doing?', 'templates.start.prompt'],
+  ['Stop', 'templates.stop'],
+  ['What should we stop doing?', 'templates.stop.prompt'],
+  ['Continue', 'templates.continue'],
+  ['What should we keep doing?', 'templates.continue.prompt'],
+  ['Liked', 'templates.liked'],
+  ['What did you like?', 'templates.liked.prompt'],
+  ['Learned', 'templates.learned'],
+  ['What did you learn?', 'templates.learned.prompt'],
+  ['Lacked', 'templates.lacked'],
+  ['What was missing?', 'templates.lacked.prompt'],
+  ['Longed For', 'templates.longedFor'],
+  ['What do you wish we had?', 'templates.longedFor.prompt'],
+  ['Mad', 'templates.mad'],
+  ['What made you mad?', 'templates.mad.prompt'],
+  ['Sad', 'templates.sad'],
+  ['What made you sad?', 'templates.sad.prompt'],
+  ['Glad', 'templates.glad'],
+  ['What made you glad?', 'templates.glad.prompt'],
+]);
@@ -0,0 +1,39 @@
+import { useSyncExternalStore } from 'react';
+
+export type ToastTone = 'error' | 'info';
+
+export interface Toast {
+  id: number;
+  message: string;
+  tone: ToastTone;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+export function dismissToast(id: number) {
+  toasts = toasts.filter((toast) => toast.id !== id);
+  emit();
+}
+
+/** Shows a message in the corner of the screen for a few seconds, without blocking the page like `alert()`. */
+export function showToast(message: string, tone: ToastTone = 'error') {
+  const id = nextId++;
+  toasts = [...toasts, { id, message, tone }];
+  emit();
+  setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useToasts = () => useSyncExternalStore(subscribe, () => toasts);
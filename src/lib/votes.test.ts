@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { countVotesUsed, formatVoterNames, getVotesRemaining } from './votes';
+import type { RetroItem, Vote } from '../types';
+
+const vote = (id: string, userId: string | null, nickname = userId): Vote => ({
+  id,
+  board_id: 'board',
+  retro_item_id: 'item',
+  user_id: userId,
+  users: nickname ? { nickname } : null,
+});
+
+const item = (id: string, votes: Vote[]): RetroItem => ({
+  id,
+  board_id: 'board',
+  column_id: 'column',
+  content: id,
+  created_by: 'alice',
+  created_at: '2025-01-01T10:00:00Z',
+  edited_at: null,
+  hidden_at: null,
+  group_id: null,
+  votes,
+});
+
+describe('getVotesRemaining', () => {
+  const items = [item('a', [vote('1', 'alice'), vote('2', 'bob')]), item('b', [vote('3', 'alice')])];
+
+  it('subtracts the votes a user has spent across the board', () => {
+    expect(countVotesUsed(items, 'alice')).toBe(2);
+    expect(getVotesRemaining({ vote_budget: 5 }, items, 'alice')).toBe(3);
+    expect(getVotesRemaining({ vote_budget: 5 }, items, 'carol')).toBe(5);
+  });
+
+  it('never goes below zero after the budget is lowered', () => {
+    expect(getVotesRemaining({ vote_budget: 1 }, items, 'alice')).toBe(0);
+  });
+});
+
+describe('formatVoterNames', () => {
+  it('lists each voter once with their number of dots', () => {
+    expect(formatVoterNames([vote('1', 'alice', 'Alice'), vote('2', 'bob', 'Bob'), vote('3', 'alice', 'Alice')])).toBe(
+      'Alice ×2, Bob'
+    );
+  });
+
+  it('leaves out voters hidden by the board', () => {
+    expect(formatVoterNames([vote('1', null, null), vote('2', 'bob', 'Bob')])).toBe('Bob');
+  });
+});
@@ -0,0 +1,36 @@
+import { t } from './i18n';
+import type { RetroBoard, RetroItem, Vote } from '../types';
+
+// Keep in sync with the column defaults in db/migrations/004_vote_budget.sql.
+export const DEFAULT_VOTE_BUDGET = 5;
+export const DEFAULT_MAX_VOTES_PER_ITEM = 1;
+
+export const countUserVotes = (votes: Vote[] | undefined, userId: string) =>
+  votes?.filter((vote) => vote.user_id === userId).length || 0;
+
+// All votes on a set of cards, e.g. the members of a group.
+export const collectVotes = (items: RetroItem[]) => items.flatMap((item) => item.votes || []);
+
+export const countVotesUsed = (items: RetroItem[], userId: string) =>
+  items.reduce((total, item) => total + countUserVotes(item.votes, userId), 0);
+
+export const getVotesRemaining = (board: Pick<RetroBoard, 'vote_budget'>, items: RetroItem[], userId: string) =>
+  Math.max(board.vote_budget - countVotesUsed(items, userId), 0);
+
+// "Alice ×2, Bob" — one entry per voter in first-vote order, with their dot count.
+// Votes whose voter is hidden by the board's anonymity setting are left out.
+export function formatVoterNames(votes: Vote[] | undefined) {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const vote of votes || []) {
+    if (!vote.user_id) continue;
+    const entry = counts.get(vote.user_id);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      counts.set(vote.user_id, { name: vote.users?.nickname || t('common.anonymous'), count: 1 });
+    }
+  }
+  return [...counts.values()]
+    .map(({ name, count }) => (count > 1 ? `${name} ×${count}` : name))
+    .join(', ');
+}
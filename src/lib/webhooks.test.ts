@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getWebhookUrlError } from './webhooks';
+
+describe('getWebhookUrlError', () => {
+  it('accepts public web addresses', () => {
+    expect(getWebhookUrlError('https://hooks.slack.com/services/T0/B0/x')).toBeNull();
+    expect(getWebhookUrlError('http://203.0.113.7:8080/hook')).toBeNull();
+  });
+
+  it('refuses other protocols and malformed URLs', () => {
+    expect(getWebhookUrlError('ftp://example.com/hook')).toMatch('https://');
+    expect(getWebhookUrlError('hooks.slack.com')).toMatch('full URL');
+  });
+
+  it('refuses loopback, private and link-local addresses', () => {
+    for (const url of [
+      'http://localhost:8787',
+      'http://127.0.0.1/',
+      'http://2130706433/',
+      'http://10.0.0.5/',
+      'http://172.20.1.1/',
+      'http://192.168.1.10/',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/',
+      'http://[fd00::1]/',
+      'http://host.docker.internal:8787',
+      'http://metadata/',
+    ]) {
+      expect(getWebhookUrlError(url), url).toMatch('public addresses');
+    }
+  });
+});
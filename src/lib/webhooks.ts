@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useUser } from '@insforge/react';
+import { insforge } from './insforge';
+import { confirmAction } from './confirm';
+import { getErrorMessage } from './errors';
+import { t, type MessageKey } from './i18n';
+import { showToast } from './toast';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '../types';
+
+// Keep in sync with the `events` check in db/migrations/017_webhooks.sql.
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['board.created', 'board.phase_changed', 'retro.completed', 'action_item.assigned'];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, MessageKey> = {
+  'board.created': 'webhooks.event.boardCreated',
+  'board.phase_changed': 'webhooks.event.phaseChanged',
+  'retro.completed': 'webhooks.event.retroCompleted',
+  'action_item.assigned': 'webhooks.event.actionItemAssigned',
+};
+
+export const DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, MessageKey> = {
+  pending: 'webhooks.status.pending',
+  sending: 'webhooks.status.sending',
+  delivered: 'webhooks.status.delivered',
+  failed: 'webhooks.status.failed',
+};
+
+// Only the latest deliveries are shown; older ones stay in the table.
+const DELIVERY_LOG_SIZE = 50;
+
+export type WebhookChanges = Partial<Pick<Webhook, 'name' | 'url' | 'events' | 'active'>>;
+
+// Addresses on the database's own network, which webhooks must not reach. Keep in sync with
+// `is_public_webhook_url` in db/migrations/024_webhook_url_hosts.sql.
+const PRIVATE_IPV4 = [
+  /^0\./,
+  /^10\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+];
+const PRIVATE_IPV6 = [/^::1?$/, /^::ffff:/, /^f[cd]/, /^fe[89ab]/];
+const LOCAL_NAME = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)\.?$/;
+// A dot and a top-level label that starts with a letter, so bare intranet names are refused
+const PUBLIC_NAME = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z][a-z0-9-]*\.?$/;
+
+const isPublicHost = (hostname: string) => {
+  if (hostname.startsWith('[')) {
+    const address = hostname.slice(1, -1);
+    return !PRIVATE_IPV6.some((pattern) => pattern.test(address));
+  }
+  if (/^[\d.]+$/.test(hostname)) {
+    return !PRIVATE_IPV4.some((pattern) => pattern.test(hostname));
+  }
+  return PUBLIC_NAME.test(hostname) && !LOCAL_NAME.test(hostname);
+};
+
+export function getWebhookUrlError(url: string): string | null {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      return t('webhooks.urlProtocol');
+    }
+    return isPublicHost(hostname) ? null : t('webhooks.urlPrivate');
+  } catch {
+    return t('webhooks.urlInvalid');
+  }
+}
+
+/** The signed-in user's webhooks and their latest deliveries, newest first. */
+export function useWebhooks() {
+  const { user } = useUser();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const [webhooksResult, deliveriesResult] = await Promise.all([
+        insforge.database.from('webhooks').select('*').order('created_at', { ascending: true }),
+        insforge.database
+          .from('webhook_deliveries')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(DELIVERY_LOG_SIZE),
+      ]);
+
+      if (webhooksResult.error) throw webhooksResult.error;
+      if (deliveriesResult.error) throw deliveriesResult.error;
+      setWebhooks(webhooksResult.data || []);
+      setDeliveries(deliveriesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to load webhooks.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const create = async (webhook: Pick<Webhook, 'name' | 'url' | 'events'>) => {
+    if (!user) return false;
+
+    try {
+      const { data, error } = await insforge.database
+        .from('webhooks')
+        .insert([{ ...webhook, created_by: user.id, app_url: window.location.origin }])
+        .select('*')
+        .single<Webhook>();
+
+      if (error) throw error;
+      setWebhooks((current) => [...current, data]);
+      return true;
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      showToast(getErrorMessage(error, t('webhooks.createFailed')));
+      return false;
+    }
+  };
+
+  const update = async (webhook: Webhook, changes: WebhookChanges) => {
+    try {
+      const { data, error } = await insforge.database
+        .from('webhooks')
+        .update(changes)
+        .eq('id', webhook.id)
+        .select('*')
+        .single<Webhook>();
+
+      if (error) throw error;
+      setWebhooks((current) => current.map((row) => (row.id === data.id ? data : row)));
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      showToast(getErrorMessage(error, t('webhooks.updateFailed')));
+    }
+  };
+
+  const remove = async (webhook: Webhook) => {
+    if (!(await confirmAction(t('webhooks.confirmDelete', { name: webhook.name })))) {
+      return;
+    }
+
+    try {
+      const { error } = await insforge.database.from('webhooks').delete().eq('id', webhook.id);
+
+      if (error) throw error;
+      setWebhooks((current) => current.filter((row) => row.id !== webhook.id));
+      setDeliveries((current) => current.filter((row) => row.webhook_id !== webhook.id));
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      showToast(getErrorMessage(error, t('webhooks.deleteFailed')));
+    }
+  };
+
+  const sendTest = async (webhook: Webhook) => {
+    try {
+      const { error } = await insforge.database.rpc('test_webhook', { target_webhook_id: webhook.id });
+
+      if (error) throw error;
+      await fetchWebhooks();
+    } catch (error) {
+      console.error('Error sending test message:', error);
+      showToast(getErrorMessage(error, t('webhooks.testFailed')));
+    }
+  };
+
+  const retry = async (delivery: WebhookDelivery) => {
+    try {
+      const { error } = await insforge.database.rpc('retry_webhook_delivery', { delivery_id: delivery.id });
+
+      if (error) throw error;
+      await fetchWebhooks();
+    } catch (error) {
+      console.error('Error retrying delivery:', error);
+      showToast(getErrorMessage(error, t('webhooks.retryFailed')));
+    }
+  };
+
+  return { webhooks, deliveries, loading, refresh: fetchWebhooks, create, update, remove, sendTest, retry };
+}
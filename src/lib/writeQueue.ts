@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore, type Dispatch, type SetStateAction } from 'react';
+import { getErrorMessage } from './errors';
+import { applyBoardChange, type BoardChange } from './items';
+import { showToast } from './toast';
+import type { RetroRepository } from './repository';
+import type { RetroItem } from '../types';
+
+const PENDING_ID_PREFIX = 'pending-';
+
+// How long to wait before replaying again when the board couldn't be read back while online
+const REPLAY_RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+// Stands in for the id of a record the server hasn't confirmed yet.
+export const createPendingId = () => `${PENDING_ID_PREFIX}${crypto.randomUUID()}`;
+
+export const isPendingId = (id: string) => id.startsWith(PENDING_ID_PREFIX);
+
+/**
+ * A write shown on the board before the server has confirmed it. The confirmed change
+ * replaces `change` once `send` resolves; `rollback` undoes it if the server says no.
+ */
+export interface OptimisticWrite {
+  change: BoardChange;
+  rollback: BoardChange;
+  send: () => Promise<BoardChange>;
+  failureMessage: string;
+  // The card a queued write depends on. If someone deleted it while we were offline the
+  // write is dropped, with `conflictMessage` (if any) telling the user why.
+  itemId?: string;
+  conflictMessage?: string;
+}
+
+interface PendingWrite {
+  write: OptimisticWrite;
+  // Waiting for the connection to come back rather than already sent
+  queued: boolean;
+}
+
+const subscribeToNetwork = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+/** Whether the browser thinks it has a network connection. */
+export const useOnlineStatus = () => useSyncExternalStore(subscribeToNetwork, () => navigator.onLine);
+
+interface WriteQueueOptions {
+  boardId: string;
+  repository: RetroRepository;
+  setItems: Dispatch<SetStateAction<RetroItem[]>>;
+  // Called after queued writes have been replayed, to reload the board from the server
+  onSynced: () => void;
+}
+
+/**
+ * Applies writes to the board optimistically. While the browser is offline writes are queued
+ * in order and replayed when the connection comes back, retrying with backoff if the board
+ * can't be read at that point; a failed write is rolled back and reported with a toast.
+ */
+export function useWriteQueue({ boardId, repository, setItems, onSynced }: WriteQueueOptions) {
+  const pendingRef = useRef<PendingWrite[]>([]);
+  const flushingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const retryAttemptRef = useRef(0);
+  // Bumped to replay again; the connection coming back isn't the only reason to
+  const [replayRequest, setReplayRequest] = useState(0);
+  const onSyncedRef = useRef(onSynced);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const online = useOnlineStatus();
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  });
+
+  const updateQueuedCount = useCallback(() => {
+    setQueuedCount(pendingRef.current.filter((entry) => entry.queued).length);
+  }, []);
+
+  const forget = useCallback((entry: PendingWrite) => {
+    pendingRef.current = pendingRef.current.filter((candidate) => candidate !== entry);
+  }, []);
+
+  const settle = useCallback(
+    (entry: PendingWrite, update: (items: RetroItem[]) => RetroItem[]) => {
+      forget(entry);
+      setItems(update);
+    },
+    [forget, setItems]
+  );
+
+  const send = useCallback(
+    async (entry: PendingWrite) => {
+      const { write } = entry;
+      try {
+        const confirmed = await write.send();
+        // Swap the optimistic change for the server's version in one render
+        settle(entry, (items) => applyBoardChange(applyBoardChange(items, write.rollback), confirmed));
+      } catch (error) {
+        if (!navigator.onLine) {
+          // The connection dropped mid-request; try again once it's back
+          entry.queued = true;
+          updateQueuedCount();
+          return;
+        }
+        console.error('Error saving change:', error);
+        settle(entry, (items) => applyBoardChange(items, write.rollback));
+        showToast(getErrorMessage(error, write.failureMessage));
+      }
+    },
+    [settle, updateQueuedCount]
+  );
+
+  const perform = (write: OptimisticWrite) => {
+    setItems((items) => applyBoardChange(items, write.change));
+    const entry: PendingWrite = { write, queued: false };
+    pendingRef.current = [...pendingRef.current, entry];
+
+    // Anything written after a queued write waits behind it, so replays keep their order
+    if (!navigator.onLine || pendingRef.current.some((candidate) => candidate.queued)) {
+      entry.queued = true;
+      updateQueuedCount();
+      return;
+    }
+    send(entry);
+  };
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    clearTimeout(retryTimerRef.current);
+    let failed = false;
+
+    try {
+      let queued = pendingRef.current.filter((entry) => entry.queued);
+      while (queued.length > 0 && navigator.onLine) {
+        // Cards deleted by someone else while we were away can no longer take our writes
+        const existingIds = new Set((await repository.listItems(boardId)).map((item) => item.id));
+        for (const entry of queued) {
+          if (!navigator.onLine) break;
+          const { itemId, conflictMessage } = entry.write;
+          if (itemId && !existingIds.has(itemId)) {
+            // The reload after the replay takes the card, and this write's change, off the board
+            forget(entry);
+            if (conflictMessage) showToast(conflictMessage);
+            continue;
+          }
+          entry.queued = false;
+          await send(entry);
+        }
+        updateQueuedCount();
+        queued = pendingRef.current.filter((entry) => entry.queued);
+      }
+      retryAttemptRef.current = 0;
+    } catch (error) {
+      failed = true;
+      console.error('Error replaying offline changes:', error);
+      console.error('Error details:', getErrorMessage(error, 'Failed to sync offline changes.'));
+    } finally {
+      flushingRef.current = false;
+      updateQueuedCount();
+      if (failed && navigator.onLine && pendingRef.current.some((entry) => entry.queued)) {
+        // Still online, so no `online` event will come along to try again
+        const delay = REPLAY_RETRY_DELAYS_MS[Math.min(retryAttemptRef.current, REPLAY_RETRY_DELAYS_MS.length - 1)];
+        retryAttemptRef.current += 1;
+        retryTimerRef.current = setTimeout(() => setReplayRequest((request) => request + 1), delay);
+      } else {
+        onSyncedRef.current();
+      }
+    }
+  }, [boardId, repository, forget, send, updateQueuedCount]);
+
+  useEffect(() => {
+    if (online && pendingRef.current.some((entry) => entry.queued)) {
+      flush();
+    }
+  }, [online, flush, replayRequest]);
+
+  useEffect(() => () => clearTimeout(retryTimerRef.current), []);
+
+  // Puts writes that aren't confirmed yet back on top of freshly loaded items.
+  const reapplyPending = useCallback(
+    (items: RetroItem[]) => pendingRef.current.reduce((current, entry) => applyBoardChange(current, entry.write.change), items),
+    []
+  );
+
+  return { perform, reapplyPending, queuedCount, online };
+}
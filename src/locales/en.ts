@@ -0,0 +1,510 @@
+import type { Message } from '../lib/i18n';
+
+// The English catalog is the source: every key used in the app is defined here first.
+const en = {
+  // Shared
+  'common.loading': 'Loading...',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.remove': 'Remove',
+  'common.close': 'Close',
+  'common.dismiss': 'Dismiss',
+  'common.allBoards': 'All Boards',
+  'common.anonymous': 'Anonymous',
+  'common.saving': 'Saving...',
+  'common.refresh': 'Refresh',
+  'common.name': 'Name',
+
+  // App
+  'app.title': 'Retro Board',
+  'app.signIn': 'Sign In',
+  'app.signInPrompt': 'Please sign in to participate in the retro meeting',
+  'app.language': 'Language',
+
+  // Board list
+  'boardList.newRetro': 'New Retro',
+  'boardList.namePlaceholder': 'Team Phoenix retro',
+  'boardList.sprint': 'Sprint',
+  'boardList.sprintPlaceholder': 'Sprint 42',
+  'boardList.start': 'Start',
+  'boardList.end': 'End',
+  'boardList.template': 'Template',
+  'boardList.previousBoard': 'Follows on from',
+  'boardList.noPreviousBoard': 'No earlier retro',
+  'boardList.votesPerPerson': 'Votes per person',
+  'boardList.create': 'Create Board',
+  'boardList.importing': 'Importing...',
+  'boardList.import': 'Import From JSON Export',
+  'boardList.history': 'History & Trends',
+  'boardList.webhooks': 'Webhooks',
+  'boardList.loading': 'Loading boards...',
+  'boardList.empty': 'No retro boards yet. Create one to get started.',
+  'boardList.created': 'Created {date}',
+  'boardList.endBeforeStart': 'The end date must be on or after the start date.',
+  'boardList.invalidBudget': 'Votes per person must be a whole number of at least 1.',
+  'boardList.createFailed': 'Failed to create board. Please try again.',
+  'boardList.importFailed': 'Failed to import board. Please try again.',
+  'boardList.importNote': 'Cards, comments and groups are imported as yours. Votes, reactions and attached images are not carried over.',
+
+  // Templates. Boards store the English text; these show it in each reader's language.
+  'templates.goodBadBetter': 'Good / Bad / Better',
+  'templates.startStopContinue': 'Start / Stop / Continue',
+  'templates.4ls': '4Ls',
+  'templates.madSadGlad': 'Mad / Sad / Glad',
+  'templates.good': 'Good',
+  'templates.good.prompt': 'What went well?',
+  'templates.bad': 'Bad',
+  'templates.bad.prompt': "What didn't go well?",
+  'templates.better': 'Better',
+  'templates.better.prompt': 'What can be improved?',
+  'templates.start': 'Start',
+  'templates.start.prompt': 'What should we start doing?',
+  'templates.stop': 'Stop',
+  'templates.stop.prompt': 'What should we stop doing?',
+  'templates.continue': 'Continue',
+  'templates.continue.prompt': 'What should we keep doing?',
+  'templates.liked': 'Liked',
+  'templates.liked.prompt': 'What did you like?',
+  'templates.learned': 'Learned',
+  'templates.learned.prompt': 'What did you learn?',
+  'templates.lacked': 'Lacked',
+  'templates.lacked.prompt': 'What was missing?',
+  'templates.longedFor': 'Longed For',
+  'templates.longedFor.prompt': 'What do you wish we had?',
+  'templates.mad': 'Mad',
+  'templates.mad.prompt': 'What made you mad?',
+  'templates.sad': 'Sad',
+  'templates.sad.prompt': 'What made you sad?',
+  'templates.glad': 'Glad',
+  'templates.glad.prompt': 'What made you glad?',
+  'columns.placeholder': 'Add something to {label}...',
+
+  // Phases, roles and anonymity
+  'phases.write': 'Write',
+  'phases.group': 'Group',
+  'phases.vote': 'Vote',
+  'phases.discuss': 'Discuss',
+  'phases.done': 'Done',
+  'phases.write.description': "Add your cards. Other people's cards stay hidden until the facilitator moves on.",
+  'phases.group.description': 'All cards are revealed. Drag duplicate cards onto each other to group them before voting starts.',
+  'phases.vote.description': 'Vote for the cards you want to discuss.',
+  'phases.discuss.description': 'Talk through the top-voted cards and capture comments.',
+  'phases.done.description': 'This retro is finished. The board is read-only.',
+  'roles.facilitator': 'Facilitator',
+  'roles.participant': 'Participant',
+  'roles.observer': 'Observer',
+  'roles.facilitator.description': 'Runs the retro: changes settings and phases, and can delete or hide any card.',
+  'roles.participant.description': 'Adds cards, votes and comments.',
+  'roles.observer.description': 'Can follow along but not add, vote or comment.',
+  'anonymity.none': 'Show everyone',
+  'anonymity.authors': 'Hide authors',
+  'anonymity.voters': 'Hide voters',
+  'anonymity.both': 'Hide authors and voters',
+  'boards.from': 'From {date}',
+  'boards.until': 'Until {date}',
+
+  // Health check
+  'health.score.1': 'Awful',
+  'health.score.2': 'Poor',
+  'health.score.3': 'Okay',
+  'health.score.4': 'Good',
+  'health.score.5': 'Great',
+  'health.pace': 'Pace',
+  'health.pace.description': 'Are we working at a speed we can keep up?',
+  'health.fun': 'Fun',
+  'health.fun.description': 'Do we enjoy working on this team?',
+  'health.codebaseHealth': 'Codebase health',
+  'health.codebaseHealth.description': 'Is our code easy to work with?',
+  'health.teamwork': 'Teamwork',
+  'health.teamwork.description': 'Do we help each other out?',
+  'health.learning': 'Learning',
+  'health.learning.description': 'Are we learning new things?',
+
+  // Webhooks
+  'webhooks.event.boardCreated': 'Board created',
+  'webhooks.event.phaseChanged': 'Phase changed',
+  'webhooks.event.retroCompleted': 'Retro completed, with the top items',
+  'webhooks.event.actionItemAssigned': 'Action item assigned',
+  'webhooks.status.pending': 'Retrying',
+  'webhooks.status.sending': 'Sending',
+  'webhooks.status.delivered': 'Delivered',
+  'webhooks.status.failed': 'Failed',
+  'webhooks.urlProtocol': 'The URL must start with https:// or http://.',
+  'webhooks.urlInvalid': 'Enter the full URL of the webhook, e.g. https://hooks.slack.com/services/...',
+  'webhooks.urlPrivate': 'Webhooks can only go to public addresses, not to localhost or a private network.',
+  'webhooks.createFailed': 'Failed to add the webhook. Please try again.',
+  'webhooks.updateFailed': 'Failed to update the webhook. Please try again.',
+  'webhooks.confirmDelete': 'Delete the webhook "{name}" and its delivery log?',
+  'webhooks.deleteFailed': 'Failed to delete the webhook. Please try again.',
+  'webhooks.testFailed': 'Failed to send a test message. Please try again.',
+  'webhooks.retryFailed': 'Failed to retry the delivery. Please try again.',
+  'webhooks.title': 'Webhooks',
+  'webhooks.intro': 'Post a message to Slack (or any URL that takes Slack-style JSON) when something happens on a board you facilitate. Failed deliveries are retried for about an hour and a half.',
+  'webhooks.add': 'Add Webhook',
+  'webhooks.namePlaceholder': 'e.g. #team-retro',
+  'webhooks.url': 'URL',
+  'webhooks.events': 'Events',
+  'webhooks.pickEvent': 'Pick at least one event to send.',
+  'webhooks.yours': 'Your Webhooks',
+  'webhooks.active': 'Active',
+  'webhooks.sendTest': 'Send Test',
+  'webhooks.log': 'Delivery Log',
+  'webhooks.logEmpty': 'Nothing sent yet. Use Send Test to try a webhook out.',
+  'webhooks.time': 'Time',
+  'webhooks.webhook': 'Webhook',
+  'webhooks.event': 'Event',
+  'webhooks.status': 'Status',
+  'webhooks.response': 'Response',
+  'webhooks.deleted': 'Deleted',
+  'webhooks.attempts': { one: '{count} attempt', other: '{count} attempts' },
+  'webhooks.nextTry': 'Next try {time}',
+  'webhooks.retry': 'Retry',
+  'webhooks.loading': 'Loading webhooks...',
+
+  // Dialogs and keyboard shortcuts
+  'confirm.title': 'Are you sure?',
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.button': 'Shortcuts',
+  'shortcuts.buttonTitle': 'Keyboard shortcuts (?)',
+  'shortcuts.intro': 'Tab to a card, then use these keys. Votes, comments and edits follow the same rules as the buttons.',
+  'shortcuts.moveAcross': 'Move to the card beside this one',
+  'shortcuts.moveUpDown': 'Move up or down the column',
+  'shortcuts.firstLast': 'First or last card in the column',
+  'shortcuts.newCard': 'Write a new card in this column',
+  'shortcuts.addCard': 'Add the card you are writing',
+  'shortcuts.stopWriting': 'Stop writing',
+  'shortcuts.vote': 'Vote for the card',
+  'shortcuts.unvote': 'Take your vote back',
+  'shortcuts.comment': 'Comment on the card',
+  'shortcuts.edit': 'Edit your card',
+  'shortcuts.delete': 'Delete the card',
+  'shortcuts.help': 'Show these shortcuts',
+  'cards.label': { one: '{author}: {content}. {count} vote, {comments}', other: '{author}: {content}. {count} votes, {comments}' },
+  'cards.comments': { one: '{count} comment', other: '{count} comments' },
+
+  // Preferences
+  'preferences.saveFailed': "Your language was changed here but couldn't be saved for your other devices.",
+
+  // Board
+  'board.connecting': 'Connecting...',
+  'board.live': 'Live',
+  'board.reconnecting': 'Reconnecting...',
+  'board.connection': 'Realtime connection',
+  'board.syncing': 'Syncing',
+  'board.offline': 'Offline',
+  'board.queued': { one: '{count} change waiting', other: '{count} changes waiting' },
+  'board.notFound': 'This retro board does not exist, was deleted, or you have not been invited to it yet. Ask its facilitator for an invite link.',
+  'board.backToBoards': 'Back to Boards',
+  'board.phases': 'Retro phases',
+  'board.votesLeft': { one: '{remaining} of {count} vote left', other: '{remaining} of {count} votes left' },
+  'board.perCard': 'up to {count} per card',
+  'board.present': 'Present',
+  'board.presentTitle': 'Walk everyone through the cards one topic at a time',
+  'board.members': 'Members',
+  'board.settings': 'Settings',
+  'board.backTo': 'Back to {phase}',
+  'board.start': 'Start {phase}',
+  'board.finish': 'Finish Retro',
+  'board.finishConfirm': 'Finish this retro? The board will become read-only for everyone.',
+  'board.presenting': 'The facilitator is presenting the top-voted cards.',
+  'board.rejoin': 'Rejoin',
+  'board.loading': 'Loading retro items...',
+  'board.newCardIn': 'New card in {column}',
+  'board.anotherColumn': 'another column',
+  'board.cardAdded': 'Card added to {column}.',
+  'board.theBoard': 'the board',
+  'board.addItem': 'Add Item',
+  'board.noMatches': 'No matching items',
+  'board.empty': 'No items yet',
+  'board.outOfVotes': { one: 'You have used your only vote.', other: 'You have used all {count} of your votes.' },
+  'board.voteAdded': 'Vote added. {left}.',
+  'board.voteRemoved': 'Vote removed. {left}.',
+  'board.deleteItemConfirm': 'Are you sure you want to delete this item? This will also delete all votes and comments.',
+  'board.deleteThreadConfirm': 'Are you sure you want to delete this comment? This will also delete its replies.',
+  'board.deleteCommentConfirm': 'Are you sure you want to delete this comment?',
+  'board.removeImageConfirm': 'Remove {file} from this card?',
+  'board.phaseFailed': 'Failed to change the phase. Please try again.',
+  'board.presentationFailed': 'Failed to update the presentation. Please try again.',
+  'board.addFailed': 'Failed to add item. Please try again.',
+  'board.voteFailed': 'Failed to vote. Please try again.',
+  'board.unvoteFailed': 'Failed to remove vote. Please try again.',
+  'board.commentFailed': 'Failed to add comment. Please try again.',
+  'board.editFailed': 'Failed to save your edit. Please try again.',
+  'board.deleteItemFailed': 'Failed to delete item. Please try again.',
+  'board.deleteCommentFailed': 'Failed to delete comment. Please try again.',
+  'board.reactionAddFailed': 'Failed to add reaction. Please try again.',
+  'board.reactionRemoveFailed': 'Failed to remove reaction. Please try again.',
+  'board.attachFailed': 'Failed to attach image. Please try again.',
+  'board.removeImageFailed': 'Failed to remove image. Please try again.',
+  'board.hideFailed': 'Failed to hide item. Please try again.',
+
+  // Cards and comments
+  'cards.hidden': 'Hidden card',
+  'cards.hiddenUntilVote': 'Hidden until the write phase ends',
+  'cards.hiddenBadge': 'Hidden',
+  'cards.hiddenBadgeTitle': 'Only the author and facilitators can see this card',
+  'cards.edit': 'Edit item',
+  'cards.show': 'Show item to everyone',
+  'cards.hide': 'Hide item from participants',
+  'cards.delete': 'Delete item',
+  'cards.ungroup': 'Remove from group',
+  'cards.ungroupTitle': 'Take this card out of its group',
+  'cards.actionItem': 'Action item',
+  'cards.promote': 'Make action item',
+  'cards.promoteTitle': 'Track this card as an action item',
+  'cards.showComments': 'Show Comments ({count})',
+  'cards.hideComments': 'Hide Comments ({count})',
+  'cards.noComments': 'No comments yet',
+  'cards.commentPlaceholder': 'Add a comment...',
+  'cards.commentLabel': 'Add a comment',
+  'cards.addComment': 'Add Comment',
+  'comments.reply': 'Reply',
+  'comments.replyPlaceholder': 'Write a reply...',
+  'comments.edit': 'Edit comment',
+  'comments.delete': 'Delete comment',
+  'comments.showReplies': { one: 'Show {count} reply', other: 'Show {count} replies' },
+  'comments.hideReplies': { one: 'Hide {count} reply', other: 'Hide {count} replies' },
+  'editor.label': 'Edit text',
+  'mentions.label': 'People on this board',
+
+  // Reactions, votes, attachments and groups
+  'reactions.thumbsUp': 'Thumbs up',
+  'reactions.heart': 'Heart',
+  'reactions.laughing': 'Laughing',
+  'reactions.party': 'Party',
+  'reactions.thinking': 'Thinking',
+  'reactions.eyes': 'Eyes',
+  'reactions.people': { one: '{label}: {count} person', other: '{label}: {count} people' },
+  'reactions.names': '{label}: {names}',
+  'reactions.namesAndOthers': { one: '{label}: {names} and {count} other', other: '{label}: {names} and {count} others' },
+  'reactions.react': 'React with {label}',
+  'reactions.add': 'Add reaction',
+  'reactions.close': 'Close reactions',
+  'votes.observers': "Observers can't vote",
+  'votes.closed': 'Voting is open during the vote phase',
+  'votes.noneLeft': 'You have no votes left',
+  'votes.remove': 'Remove one of your votes',
+  'votes.yours': '{count} yours',
+  'votes.by': 'by',
+  'attachments.remove': 'Remove image',
+  'attachments.removeNamed': 'Remove {file}',
+  'attachments.attach': 'Attach image',
+  'attachments.attachTitle': 'Attach an image, or paste one while the card is focused',
+  'attachments.uploading': 'Uploading...',
+  'attachments.wrongType': 'Only PNG, JPEG, GIF and WebP images can be attached.',
+  'attachments.tooLarge': 'Images can be at most {size}.',
+  'attachments.tooMany': 'A card can have at most {count} images.',
+  'groups.name': 'Group name',
+  'groups.untitled': 'Group',
+  'groups.cards': { one: '{count} card', other: '{count} cards' },
+  'groups.rename': 'Rename',
+  'groups.ungroup': 'Ungroup',
+  'groups.ungroupTitle': 'Split this group back into separate cards',
+
+  // Action items, toolbar and board data
+  'actionItems.title': 'Action Items',
+  'actionItems.carriedOver': 'Open From Previous Retros',
+  'actionItems.reviewFirst': 'Review these first',
+  'actionItems.done': '{done} of {count} done',
+  'actionItems.from': 'From {board}',
+  'actionItems.assignee': 'Assignee',
+  'actionItems.unassigned': 'Unassigned',
+  'actionItems.dueDate': 'Due date',
+  'actionItems.delete': 'Delete action item',
+  'actionItems.deleteConfirm': 'Are you sure you want to delete this action item?',
+  'actionItems.createFailed': 'Failed to create action item. Please try again.',
+  'actionItems.updateFailed': 'Failed to update action item. Please try again.',
+  'actionItems.deleteFailed': 'Failed to delete action item. Please try again.',
+  'toolbar.search': 'Search cards and comments',
+  'toolbar.author': 'Author',
+  'toolbar.anyAuthor': 'Any author',
+  'toolbar.mine': 'My items',
+  'toolbar.voted': 'Voted on',
+  'toolbar.hasComments': 'Has comments',
+  'toolbar.sort': 'Sort cards',
+  'toolbar.matches': '{count} of {total} cards',
+  'toolbar.clear': 'Clear filters',
+  'sort.votes': 'Most votes',
+  'sort.newest': 'Newest',
+  'sort.oldest': 'Oldest',
+  'sort.discussed': 'Most discussed',
+  'groups.groupFailed': 'Failed to group cards. Please try again.',
+  'groups.ungroupFailed': 'Failed to ungroup cards. Please try again.',
+  'groups.renameFailed': 'Failed to rename group. Please try again.',
+  'healthCheck.answerFailed': 'Failed to save your answer. Please try again.',
+  'present.voteFailed': 'Failed to send your vote. Please try again.',
+
+  // Members
+  'members.title': 'Members',
+  'members.unknown': 'Unknown',
+  'members.you': '(you)',
+  'members.roleOf': 'Role of {name}',
+  'members.member': 'member',
+  'members.lastFacilitator': 'A board needs at least one facilitator',
+  'members.leave': 'Leave',
+  'members.invites': 'Invite links',
+  'members.inviteRole': 'Role for new invite link',
+  'members.createLink': 'Create Link',
+  'members.inviteLink': '{role} invite link',
+  'members.copy': 'Copy',
+  'members.revoke': 'Revoke',
+  'members.invitesHelp': 'Anyone signed in who opens a link joins with its role. People already on the board keep their role.',
+  'members.copied': '{role} invite link copied.',
+  'members.copyFailed': 'Could not copy the link. Select it and copy it by hand instead.',
+  'members.leaveConfirm': 'Leave this board? You will need a new invite link to come back.',
+  'members.removeConfirm': 'Remove {name} from the board?',
+  'members.thisMember': 'this member',
+  'members.revokeConfirm': 'Revoke this invite link? People who already joined keep their access.',
+  'members.roleFailed': 'Failed to change the role. Please try again.',
+  'members.removeFailed': 'Failed to remove the member. Please try again.',
+  'members.inviteFailed': 'Failed to create the invite link. Please try again.',
+  'members.revokeFailed': 'Failed to revoke the invite link. Please try again.',
+
+  // Board settings
+  'settings.title': 'Board Settings',
+  'settings.votesPerPerson': 'Votes per person',
+  'settings.maxVotesPerCard': 'Max votes per card',
+  'settings.anonymity': 'Anonymity',
+  'settings.votesHelp': 'Set max votes per card above 1 to let people stack several dots on one card. Hidden authors and voters are never sent to other participants; everyone still sees their own cards and votes.',
+  'settings.columns': 'Columns',
+  'settings.columnName': 'Column name',
+  'settings.columnColor': 'Column color',
+  'settings.columnPrompt': 'Column prompt',
+  'settings.columnPromptPlaceholder': 'Prompt shown in the empty input (optional)',
+  'settings.moveLeft': 'Move left',
+  'settings.moveColumnLeft': 'Move column left',
+  'settings.moveRight': 'Move right',
+  'settings.moveColumnRight': 'Move column right',
+  'settings.removeColumn': 'Remove column',
+  'settings.addColumn': 'Add Column',
+  'settings.columnsHelp': 'Removing a column deletes the cards in it.',
+  'settings.healthCheck': 'Health check',
+  'settings.metric': 'Health check metric',
+  'settings.metricPlaceholder': 'Metric, e.g. Pace',
+  'settings.question': 'Health check question',
+  'settings.questionPlaceholder': 'Question to ask (optional)',
+  'settings.removeMetric': 'Remove metric',
+  'settings.removeMetricLabel': 'Remove health check metric',
+  'settings.addMetric': 'Add Metric',
+  'settings.metricsHelp': "Everyone rates each metric from 1 to 5. Keep a metric's name the same from sprint to sprint to see its trend; removing a metric deletes its answers, and a board without metrics has no health check.",
+  'settings.save': 'Save Settings',
+  'settings.invalidBudget': 'Votes per person must be a whole number of at least 1.',
+  'settings.invalidPerCard': 'Votes per card must be at least 1 and no more than the votes per person.',
+  'settings.noColumns': 'A board needs at least one column.',
+  'settings.unnamedColumn': 'Every column needs a name.',
+  'settings.unnamedMetric': 'Every health check metric needs a name.',
+  'settings.removeColumnsConfirm': { one: 'Removing these columns will delete {count} card. Continue?', other: 'Removing these columns will delete {count} cards. Continue?' },
+  'settings.deleteCards': 'Delete Cards',
+  'settings.saveFailed': 'Failed to save settings. Please try again.',
+  'colors.green': 'Green',
+  'colors.red': 'Red',
+  'colors.blue': 'Blue',
+  'colors.yellow': 'Yellow',
+  'colors.purple': 'Purple',
+  'colors.orange': 'Orange',
+  'colors.pink': 'Pink',
+  'colors.gray': 'Gray',
+
+  // Health check
+  'health.title': 'Team Health Check',
+  'health.closed': 'Closed',
+  'health.anonymous': 'Anonymous',
+  'health.progress': 'Anonymous · {answered} of {count} answered',
+  'health.show': 'Show',
+  'health.hide': 'Hide',
+  'health.waiting': { one: '{count} answer so far; results show once {min} people have answered', other: '{count} answers so far; results show once {min} people have answered' },
+  'health.openCount': { one: '{count} answer so far; results show once the retro is done', other: '{count} answers so far; results show once the retro is done' },
+  'health.answers': { one: '{count} answer', other: '{count} answers' },
+  'health.answersLabel': '{metric} answers',
+  'health.historyLabel': '{metric} over the last retros',
+  'health.scoreCount': '{score} ({label}): {count}',
+  'health.lastRetros': 'Last retros: {averages}',
+  'health.vsLast': 'vs last retro',
+  'health.firstTime': 'First time asked',
+
+  // History
+  'history.title': 'History & Trends',
+  'history.loading': 'Loading retro history...',
+  'history.empty': 'No retros yet. Trends appear once you have run a few.',
+  'history.negativeRatio': 'Red : green cards (e.g. Bad per Good)',
+  'history.completion': 'Action items completed',
+  'history.participants': 'Participants',
+  'history.totalVotes': 'Total votes',
+  'history.health': 'Team Health',
+  'history.healthHelp': 'Average health check score per retro, 1 to 5',
+  'history.themes': 'Recurring Themes',
+  'history.themesHelp': 'Words that show up in more than one retro',
+  'history.noThemes': 'Nothing recurring yet',
+  'history.mentions': { one: '{count} card', other: '{count} cards' },
+  'history.inRetros': 'in {count} retros',
+  'history.pastRetros': 'Past Retros',
+  'history.overallDone': '{percent} of all action items done',
+  'history.retro': 'Retro',
+  'history.cards': 'Cards',
+  'history.votes': 'Votes',
+  'history.actionItemsDone': 'Action items done',
+  'history.sentiment': '{negative} red / {positive} green',
+  'history.doneOf': '{done} of {count}',
+  'trends.noData': 'No data yet',
+  'trends.notApplicable': 'n/a',
+
+  // Present mode
+  'present.label': 'Present mode',
+  'present.topic': 'Topic {index} of {count}',
+  'present.noTopic': 'No topic selected',
+  'present.previous': 'Previous',
+  'present.next': 'Next Topic',
+  'present.end': 'End Presentation',
+  'present.backToBoard': 'Back to Board',
+  'present.timeUp': "Time's up",
+  'present.extend': '+{count} min',
+  'present.restart': 'Restart',
+  'present.minutes': 'Minutes per topic',
+  'present.minutesOption': '{count} min per topic',
+  'present.group': 'Group · {name}',
+  'present.votes': { one: '{count} vote', other: '{count} votes' },
+  'present.comments': 'Comments ({count})',
+  'present.pickTopic': 'Pick Next Topic to start.',
+  'present.waiting': 'Waiting for the facilitator...',
+  'present.thisTopic': 'This topic:',
+  'present.keepTalking': 'Keep talking',
+  'present.moveOn': 'Move on',
+
+  // Export, import and invites
+  'export.button': 'Export',
+  'export.lockedWhileWriting': 'Export is available once cards are revealed after the write phase.',
+  'export.invalidJson': 'This file is not valid JSON.',
+  'export.notAnExport': 'This file is not a retro board export.',
+  'export.unsupportedVersion': 'Unsupported export version {version}.',
+  'export.noColumns': 'The export has no board name or columns.',
+  'export.noItems': 'The export is missing its items.',
+  'export.emptyColumn': 'No items',
+  'export.votes': { one: '{count} vote', other: '{count} votes' },
+  'export.groupVotes': { one: 'group, {count} vote', other: 'group, {count} votes' },
+  'export.csv.column': 'Column',
+  'export.csv.item': 'Item',
+  'export.csv.votes': 'Votes',
+  'export.csv.author': 'Author',
+  'export.csv.group': 'Group',
+  'export.csv.comments': 'Comments',
+  'export.csv.createdAt': 'Created At',
+  'invite.joining': 'Joining board...',
+  'invite.joinFailed': 'Failed to join the board. Please try again.',
+
+  // Edit history
+  'revisions.edited': '(edited)',
+  'revisions.editedAt': 'Edited {date}',
+  'revisions.loading': 'Loading history...',
+  'revisions.empty': 'No earlier versions',
+  'revisions.period': '{from} – replaced {to}',
+
+  // Offline changes
+  'board.voteDropped': 'A card you voted on was deleted while you were offline, so your vote was dropped.',
+  'board.commentDropped': 'A card you commented on was deleted while you were offline, so your comment was dropped.',
+  'board.editDropped': 'A card you edited was deleted while you were offline, so your edit was dropped.',
+  'board.commentEditDropped': 'A card you commented on was deleted while you were offline, so your edit was dropped.',
+  'board.reactionDropped': 'A card you reacted to was deleted while you were offline, so your reaction was dropped.',
+};
+
+export default en satisfies Record<string, Message>;
@@ -0,0 +1,510 @@
+import type { Catalog } from '../lib/i18n';
+
+// Japanese has no plural forms, so counted messages are a single string.
+const ja: Catalog = {
+  // Shared
+  'common.loading': '読み込み中...',
+  'common.cancel': 'キャンセル',
+  'common.save': '保存',
+  'common.delete': '削除',
+  'common.remove': '外す',
+  'common.close': '閉じる',
+  'common.dismiss': '閉じる',
+  'common.allBoards': 'ボード一覧',
+  'common.anonymous': '匿名',
+  'common.saving': '保存中...',
+  'common.refresh': '更新',
+  'common.name': '名前',
+
+  // App
+  'app.title': 'レトロボード',
+  'app.signIn': 'ログイン',
+  'app.signInPrompt': 'レトロに参加するにはログインしてください',
+  'app.language': '言語',
+
+  // Board list
+  'boardList.newRetro': '新しいレトロ',
+  'boardList.namePlaceholder': 'チーム Phoenix のレトロ',
+  'boardList.sprint': 'スプリント',
+  'boardList.sprintPlaceholder': 'スプリント 42',
+  'boardList.start': '開始日',
+  'boardList.end': '終了日',
+  'boardList.template': 'テンプレート',
+  'boardList.previousBoard': '前回のレトロ',
+  'boardList.noPreviousBoard': 'なし',
+  'boardList.votesPerPerson': '1人あたりの票数',
+  'boardList.create': 'ボードを作成',
+  'boardList.importing': 'インポート中...',
+  'boardList.import': 'JSON エクスポートからインポート',
+  'boardList.history': '履歴と傾向',
+  'boardList.webhooks': 'Webhook',
+  'boardList.loading': 'ボードを読み込み中...',
+  'boardList.empty': 'レトロボードはまだありません。作成して始めましょう。',
+  'boardList.created': '{date} 作成',
+  'boardList.endBeforeStart': '終了日は開始日以降にしてください。',
+  'boardList.invalidBudget': '1人あたりの票数は 1 以上の整数にしてください。',
+  'boardList.createFailed': 'ボードを作成できませんでした。もう一度お試しください。',
+  'boardList.importFailed': 'ボードをインポートできませんでした。もう一度お試しください。',
+  'boardList.importNote': 'カード・コメント・グループはあなたのものとしてインポートされます。投票・リアクション・添付画像は引き継がれません。',
+
+  // Templates. Boards store the English text; these show it in each reader's language.
+  'templates.goodBadBetter': '良かった / 悪かった / 改善',
+  'templates.startStopContinue': '始める / やめる / 続ける',
+  'templates.4ls': '4L',
+  'templates.madSadGlad': '怒 / 哀 / 喜',
+  'templates.good': '良かったこと',
+  'templates.good.prompt': 'うまくいったことは？',
+  'templates.bad': '悪かったこと',
+  'templates.bad.prompt': 'うまくいかなかったことは？',
+  'templates.better': '改善したいこと',
+  'templates.better.prompt': '改善できることは？',
+  'templates.start': '始めること',
+  'templates.start.prompt': '新しく始めるべきことは？',
+  'templates.stop': 'やめること',
+  'templates.stop.prompt': 'やめるべきことは？',
+  'templates.continue': '続けること',
+  'templates.continue.prompt': '続けるべきことは？',
+  'templates.liked': '好きだったこと',
+  'templates.liked.prompt': '良いと思ったことは？',
+  'templates.learned': '学んだこと',
+  'templates.learned.prompt': '何を学びましたか？',
+  'templates.lacked': '足りなかったこと',
+  'templates.lacked.prompt': '何が足りませんでしたか？',
+  'templates.longedFor': '欲しかったこと',
+  'templates.longedFor.prompt': 'あったら良かったものは？',
+  'templates.mad': '怒',
+  'templates.mad.prompt': '腹が立ったことは？',
+  'templates.sad': '哀',
+  'templates.sad.prompt': '悲しかったことは？',
+  'templates.glad': '喜',
+  'templates.glad.prompt': '嬉しかったことは？',
+  'columns.placeholder': '「{label}」に追加...',
+
+  // Phases, roles and anonymity
+  'phases.write': '記入',
+  'phases.group': 'グループ化',
+  'phases.vote': '投票',
+  'phases.discuss': '議論',
+  'phases.done': '完了',
+  'phases.write.description': 'カードを追加しましょう。ファシリテーターが次に進めるまで、他の人のカードは見えません。',
+  'phases.group.description': 'すべてのカードが公開されました。投票の前に、同じ内容のカードをドラッグして重ね、グループにまとめましょう。',
+  'phases.vote.description': '話し合いたいカードに投票しましょう。',
+  'phases.discuss.description': '票の多いカードから話し合い、コメントを残しましょう。',
+  'phases.done.description': 'このレトロは終了しました。ボードは閲覧のみです。',
+  'roles.facilitator': 'ファシリテーター',
+  'roles.participant': '参加者',
+  'roles.observer': 'オブザーバー',
+  'roles.facilitator.description': 'レトロを進行します。設定やフェーズを変更でき、どのカードでも削除・非表示にできます。',
+  'roles.participant.description': 'カードの追加、投票、コメントができます。',
+  'roles.observer.description': '閲覧はできますが、追加・投票・コメントはできません。',
+  'anonymity.none': '全員を表示',
+  'anonymity.authors': '作成者を隠す',
+  'anonymity.voters': '投票者を隠す',
+  'anonymity.both': '作成者と投票者を隠す',
+  'boards.from': '{date} から',
+  'boards.until': '{date} まで',
+
+  // Health check
+  'health.score.1': '最悪',
+  'health.score.2': '悪い',
+  'health.score.3': '普通',
+  'health.score.4': '良い',
+  'health.score.5': '最高',
+  'health.pace': 'ペース',
+  'health.pace.description': '無理なく続けられるペースで働けていますか？',
+  'health.fun': '楽しさ',
+  'health.fun.description': 'このチームでの仕事を楽しめていますか？',
+  'health.codebaseHealth': 'コードベースの健全性',
+  'health.codebaseHealth.description': 'コードは扱いやすいですか？',
+  'health.teamwork': 'チームワーク',
+  'health.teamwork.description': 'お互いに助け合えていますか？',
+  'health.learning': '学び',
+  'health.learning.description': '新しいことを学べていますか？',
+
+  // Webhooks
+  'webhooks.event.boardCreated': 'ボード作成',
+  'webhooks.event.phaseChanged': 'フェーズ変更',
+  'webhooks.event.retroCompleted': 'レトロ完了（上位のカード付き）',
+  'webhooks.event.actionItemAssigned': 'アクションアイテムの担当者決定',
+  'webhooks.status.pending': '再試行待ち',
+  'webhooks.status.sending': '送信中',
+  'webhooks.status.delivered': '配信済み',
+  'webhooks.status.failed': '失敗',
+  'webhooks.urlProtocol': 'URL は https:// または http:// で始めてください。',
+  'webhooks.urlInvalid': 'Webhook の完全な URL を入力してください（例: https://hooks.slack.com/services/...）',
+  'webhooks.urlPrivate': 'Webhook の送信先には公開アドレスのみ指定できます。localhost やプライベートネットワークは使えません。',
+  'webhooks.createFailed': 'Webhook を追加できませんでした。もう一度お試しください。',
+  'webhooks.updateFailed': 'Webhook を更新できませんでした。もう一度お試しください。',
+  'webhooks.confirmDelete': 'Webhook「{name}」と配信ログを削除しますか？',
+  'webhooks.deleteFailed': 'Webhook を削除できませんでした。もう一度お試しください。',
+  'webhooks.testFailed': 'テストメッセージを送信できませんでした。もう一度お試しください。',
+  'webhooks.retryFailed': '配信を再試行できませんでした。もう一度お試しください。',
+  'webhooks.title': 'Webhook',
+  'webhooks.intro': 'ファシリテートしているボードで何か起きたときに、Slack（または Slack 形式の JSON を受け付ける任意の URL）へメッセージを送ります。失敗した配信は約1時間半のあいだ再試行されます。',
+  'webhooks.add': 'Webhook を追加',
+  'webhooks.namePlaceholder': '例: #team-retro',
+  'webhooks.url': 'URL',
+  'webhooks.events': 'イベント',
+  'webhooks.pickEvent': '送信するイベントを1つ以上選んでください。',
+  'webhooks.yours': 'あなたの Webhook',
+  'webhooks.active': '有効',
+  'webhooks.sendTest': 'テスト送信',
+  'webhooks.log': '配信ログ',
+  'webhooks.logEmpty': 'まだ何も送信されていません。「テスト送信」で Webhook を試せます。',
+  'webhooks.time': '日時',
+  'webhooks.webhook': 'Webhook',
+  'webhooks.event': 'イベント',
+  'webhooks.status': '状態',
+  'webhooks.response': '応答',
+  'webhooks.deleted': '削除済み',
+  'webhooks.attempts': '{count} 回試行',
+  'webhooks.nextTry': '次回 {time}',
+  'webhooks.retry': '再試行',
+  'webhooks.loading': 'Webhook を読み込み中...',
+
+  // Dialogs and keyboard shortcuts
+  'confirm.title': 'よろしいですか？',
+  'shortcuts.title': 'キーボードショートカット',
+  'shortcuts.button': 'ショートカット',
+  'shortcuts.buttonTitle': 'キーボードショートカット (?)',
+  'shortcuts.intro': 'Tab キーでカードに移動してから、次のキーを使います。投票・コメント・編集はボタンと同じルールに従います。',
+  'shortcuts.moveAcross': '隣の列のカードへ移動',
+  'shortcuts.moveUpDown': '列の中を上下に移動',
+  'shortcuts.firstLast': '列の最初・最後のカードへ移動',
+  'shortcuts.newCard': 'この列に新しいカードを書く',
+  'shortcuts.addCard': '書いているカードを追加',
+  'shortcuts.stopWriting': '入力をやめる',
+  'shortcuts.vote': 'カードに投票',
+  'shortcuts.unvote': '投票を取り消す',
+  'shortcuts.comment': 'カードにコメント',
+  'shortcuts.edit': '自分のカードを編集',
+  'shortcuts.delete': 'カードを削除',
+  'shortcuts.help': 'このショートカット一覧を表示',
+  'cards.label': '{author}: {content}。{count} 票、{comments}',
+  'cards.comments': 'コメント {count} 件',
+
+  // Preferences
+  'preferences.saveFailed': 'この画面の言語は変更されましたが、他の端末用に保存できませんでした。',
+
+  // Board
+  'board.connecting': '接続中...',
+  'board.live': 'ライブ',
+  'board.reconnecting': '再接続中...',
+  'board.connection': 'リアルタイム接続',
+  'board.syncing': '同期中',
+  'board.offline': 'オフライン',
+  'board.queued': '{count}件の変更が送信待ち',
+  'board.notFound': 'このレトロボードは存在しないか、削除されたか、まだ招待されていません。ファシリテーターに招待リンクを依頼してください。',
+  'board.backToBoards': 'ボード一覧に戻る',
+  'board.phases': 'レトロのフェーズ',
+  'board.votesLeft': '残り{remaining}票（全{count}票）',
+  'board.perCard': '1枚につき最大{count}票',
+  'board.present': '発表',
+  'board.presentTitle': 'トピックごとにカードを全員で順番に見ていきます',
+  'board.members': 'メンバー',
+  'board.settings': '設定',
+  'board.backTo': '{phase}に戻る',
+  'board.start': '{phase}を開始',
+  'board.finish': 'レトロを終了',
+  'board.finishConfirm': 'このレトロを終了しますか？ボードは全員に対して読み取り専用になります。',
+  'board.presenting': 'ファシリテーターが投票の多いカードを発表しています。',
+  'board.rejoin': '戻る',
+  'board.loading': 'カードを読み込み中...',
+  'board.newCardIn': '{column}に新しいカード',
+  'board.anotherColumn': '別の列',
+  'board.cardAdded': '{column}にカードを追加しました。',
+  'board.theBoard': 'ボード',
+  'board.addItem': 'カードを追加',
+  'board.noMatches': '一致するカードはありません',
+  'board.empty': 'まだカードはありません',
+  'board.outOfVotes': '{count}票をすべて使いました。',
+  'board.voteAdded': '投票しました。{left}。',
+  'board.voteRemoved': '投票を取り消しました。{left}。',
+  'board.deleteItemConfirm': 'このカードを削除しますか？投票とコメントもすべて削除されます。',
+  'board.deleteThreadConfirm': 'このコメントを削除しますか？返信も削除されます。',
+  'board.deleteCommentConfirm': 'このコメントを削除しますか？',
+  'board.removeImageConfirm': 'このカードから{file}を削除しますか？',
+  'board.phaseFailed': 'フェーズを変更できませんでした。もう一度お試しください。',
+  'board.presentationFailed': '発表を更新できませんでした。もう一度お試しください。',
+  'board.addFailed': 'カードを追加できませんでした。もう一度お試しください。',
+  'board.voteFailed': '投票できませんでした。もう一度お試しください。',
+  'board.unvoteFailed': '投票を取り消せませんでした。もう一度お試しください。',
+  'board.commentFailed': 'コメントを追加できませんでした。もう一度お試しください。',
+  'board.editFailed': '編集を保存できませんでした。もう一度お試しください。',
+  'board.deleteItemFailed': 'カードを削除できませんでした。もう一度お試しください。',
+  'board.deleteCommentFailed': 'コメントを削除できませんでした。もう一度お試しください。',
+  'board.reactionAddFailed': 'リアクションを追加できませんでした。もう一度お試しください。',
+  'board.reactionRemoveFailed': 'リアクションを取り消せませんでした。もう一度お試しください。',
+  'board.attachFailed': '画像を添付できませんでした。もう一度お試しください。',
+  'board.removeImageFailed': '画像を削除できませんでした。もう一度お試しください。',
+  'board.hideFailed': 'カードを非表示にできませんでした。もう一度お試しください。',
+
+  // Cards and comments
+  'cards.hidden': '非表示のカード',
+  'cards.hiddenUntilVote': '記入フェーズが終わるまで非表示',
+  'cards.hiddenBadge': '非表示',
+  'cards.hiddenBadgeTitle': '作成者とファシリテーターだけがこのカードを見られます',
+  'cards.edit': 'カードを編集',
+  'cards.show': 'カードを全員に表示',
+  'cards.hide': '参加者からカードを隠す',
+  'cards.delete': 'カードを削除',
+  'cards.ungroup': 'グループから外す',
+  'cards.ungroupTitle': 'このカードをグループから外します',
+  'cards.actionItem': 'アクションアイテム',
+  'cards.promote': 'アクションアイテムにする',
+  'cards.promoteTitle': 'このカードをアクションアイテムとして追跡します',
+  'cards.showComments': 'コメントを表示（{count}）',
+  'cards.hideComments': 'コメントを隠す（{count}）',
+  'cards.noComments': 'まだコメントはありません',
+  'cards.commentPlaceholder': 'コメントを追加...',
+  'cards.commentLabel': 'コメントを追加',
+  'cards.addComment': 'コメントを追加',
+  'comments.reply': '返信',
+  'comments.replyPlaceholder': '返信を書く...',
+  'comments.edit': 'コメントを編集',
+  'comments.delete': 'コメントを削除',
+  'comments.showReplies': '{count}件の返信を表示',
+  'comments.hideReplies': '{count}件の返信を隠す',
+  'editor.label': 'テキストを編集',
+  'mentions.label': 'このボードのメンバー',
+
+  // Reactions, votes, attachments and groups
+  'reactions.thumbsUp': 'いいね',
+  'reactions.heart': 'ハート',
+  'reactions.laughing': '笑い',
+  'reactions.party': 'お祝い',
+  'reactions.thinking': '考え中',
+  'reactions.eyes': '注目',
+  'reactions.people': '{label}: {count}人',
+  'reactions.names': '{label}: {names}',
+  'reactions.namesAndOthers': '{label}: {names}、ほか{count}人',
+  'reactions.react': '{label}でリアクション',
+  'reactions.add': 'リアクションを追加',
+  'reactions.close': 'リアクションを閉じる',
+  'votes.observers': 'オブザーバーは投票できません',
+  'votes.closed': '投票は投票フェーズで行えます',
+  'votes.noneLeft': '持ち票が残っていません',
+  'votes.remove': '自分の票を1つ取り消す',
+  'votes.yours': 'うち自分{count}票',
+  'votes.by': '投票者',
+  'attachments.remove': '画像を削除',
+  'attachments.removeNamed': '{file}を削除',
+  'attachments.attach': '画像を添付',
+  'attachments.attachTitle': '画像を添付するか、カードを選択した状態で貼り付けます',
+  'attachments.uploading': 'アップロード中...',
+  'attachments.wrongType': '添付できるのはPNG、JPEG、GIF、WebP画像のみです。',
+  'attachments.tooLarge': '画像は{size}までです。',
+  'attachments.tooMany': '1枚のカードに添付できる画像は{count}枚までです。',
+  'groups.name': 'グループ名',
+  'groups.untitled': 'グループ',
+  'groups.cards': '{count}枚',
+  'groups.rename': '名前を変更',
+  'groups.ungroup': 'グループ解除',
+  'groups.ungroupTitle': 'グループを解除して個別のカードに戻します',
+
+  // Action items, toolbar and board data
+  'actionItems.title': 'アクションアイテム',
+  'actionItems.carriedOver': '前回までのレトロから未完了',
+  'actionItems.reviewFirst': 'まずこちらを確認しましょう',
+  'actionItems.done': '{count}件中{done}件完了',
+  'actionItems.from': '{board}から',
+  'actionItems.assignee': '担当者',
+  'actionItems.unassigned': '未割り当て',
+  'actionItems.dueDate': '期限',
+  'actionItems.delete': 'アクションアイテムを削除',
+  'actionItems.deleteConfirm': 'このアクションアイテムを削除しますか？',
+  'actionItems.createFailed': 'アクションアイテムを作成できませんでした。もう一度お試しください。',
+  'actionItems.updateFailed': 'アクションアイテムを更新できませんでした。もう一度お試しください。',
+  'actionItems.deleteFailed': 'アクションアイテムを削除できませんでした。もう一度お試しください。',
+  'toolbar.search': 'カードとコメントを検索',
+  'toolbar.author': '作成者',
+  'toolbar.anyAuthor': 'すべての作成者',
+  'toolbar.mine': '自分のカード',
+  'toolbar.voted': '投票済み',
+  'toolbar.hasComments': 'コメントあり',
+  'toolbar.sort': 'カードの並び順',
+  'toolbar.matches': '{total}枚中{count}枚',
+  'toolbar.clear': '絞り込みを解除',
+  'sort.votes': '投票が多い順',
+  'sort.newest': '新しい順',
+  'sort.oldest': '古い順',
+  'sort.discussed': 'コメントが多い順',
+  'groups.groupFailed': 'カードをグループにできませんでした。もう一度お試しください。',
+  'groups.ungroupFailed': 'グループを解除できませんでした。もう一度お試しください。',
+  'groups.renameFailed': 'グループ名を変更できませんでした。もう一度お試しください。',
+  'healthCheck.answerFailed': '回答を保存できませんでした。もう一度お試しください。',
+  'present.voteFailed': '投票を送信できませんでした。もう一度お試しください。',
+
+  // Members
+  'members.title': 'メンバー',
+  'members.unknown': '不明',
+  'members.you': '（自分）',
+  'members.roleOf': '{name}の役割',
+  'members.member': 'メンバー',
+  'members.lastFacilitator': 'ボードにはファシリテーターが1人以上必要です',
+  'members.leave': '退出',
+  'members.invites': '招待リンク',
+  'members.inviteRole': '新しい招待リンクの役割',
+  'members.createLink': 'リンクを作成',
+  'members.inviteLink': '{role}の招待リンク',
+  'members.copy': 'コピー',
+  'members.revoke': '無効にする',
+  'members.invitesHelp': 'サインインした人がリンクを開くと、その役割で参加します。すでに参加している人の役割は変わりません。',
+  'members.copied': '{role}の招待リンクをコピーしました。',
+  'members.copyFailed': 'リンクをコピーできませんでした。選択して手動でコピーしてください。',
+  'members.leaveConfirm': 'このボードから退出しますか？戻るには新しい招待リンクが必要です。',
+  'members.removeConfirm': '{name}をボードから削除しますか？',
+  'members.thisMember': 'このメンバー',
+  'members.revokeConfirm': 'この招待リンクを無効にしますか？すでに参加した人はアクセスを維持します。',
+  'members.roleFailed': '役割を変更できませんでした。もう一度お試しください。',
+  'members.removeFailed': 'メンバーを削除できませんでした。もう一度お試しください。',
+  'members.inviteFailed': '招待リンクを作成できませんでした。もう一度お試しください。',
+  'members.revokeFailed': '招待リンクを無効にできませんでした。もう一度お試しください。',
+
+  // Board settings
+  'settings.title': 'ボード設定',
+  'settings.votesPerPerson': '1人あたりの票数',
+  'settings.maxVotesPerCard': '1枚あたりの最大票数',
+  'settings.anonymity': '匿名性',
+  'settings.votesHelp': '1枚あたりの最大票数を2以上にすると、1枚のカードに複数票を入れられます。非表示の作成者と投票者は他の参加者に送信されません。自分のカードと票は常に見えます。',
+  'settings.columns': '列',
+  'settings.columnName': '列の名前',
+  'settings.columnColor': '列の色',
+  'settings.columnPrompt': '列の入力ヒント',
+  'settings.columnPromptPlaceholder': '空の入力欄に表示するヒント（任意）',
+  'settings.moveLeft': '左へ移動',
+  'settings.moveColumnLeft': '列を左へ移動',
+  'settings.moveRight': '右へ移動',
+  'settings.moveColumnRight': '列を右へ移動',
+  'settings.removeColumn': '列を削除',
+  'settings.addColumn': '列を追加',
+  'settings.columnsHelp': '列を削除すると、その列のカードも削除されます。',
+  'settings.healthCheck': 'ヘルスチェック',
+  'settings.metric': 'ヘルスチェックの項目',
+  'settings.metricPlaceholder': '項目（例：ペース）',
+  'settings.question': 'ヘルスチェックの質問',
+  'settings.questionPlaceholder': '質問（任意）',
+  'settings.removeMetric': '項目を削除',
+  'settings.removeMetricLabel': 'ヘルスチェックの項目を削除',
+  'settings.addMetric': '項目を追加',
+  'settings.metricsHelp': '各項目を全員が1〜5で評価します。推移を見るには項目名をスプリント間で変えないでください。項目を削除すると回答も削除され、項目のないボードにはヘルスチェックがありません。',
+  'settings.save': '設定を保存',
+  'settings.invalidBudget': '1人あたりの票数は1以上の整数にしてください。',
+  'settings.invalidPerCard': '1枚あたりの票数は1以上、1人あたりの票数以下にしてください。',
+  'settings.noColumns': 'ボードには列が1つ以上必要です。',
+  'settings.unnamedColumn': 'すべての列に名前が必要です。',
+  'settings.unnamedMetric': 'ヘルスチェックのすべての項目に名前が必要です。',
+  'settings.removeColumnsConfirm': 'これらの列を削除すると{count}枚のカードが削除されます。続けますか？',
+  'settings.deleteCards': 'カードを削除',
+  'settings.saveFailed': '設定を保存できませんでした。もう一度お試しください。',
+  'colors.green': '緑',
+  'colors.red': '赤',
+  'colors.blue': '青',
+  'colors.yellow': '黄',
+  'colors.purple': '紫',
+  'colors.orange': 'オレンジ',
+  'colors.pink': 'ピンク',
+  'colors.gray': 'グレー',
+
+  // Health check
+  'health.title': 'チームヘルスチェック',
+  'health.closed': '締め切り',
+  'health.anonymous': '匿名',
+  'health.progress': '匿名 · {count}件中{answered}件回答済み',
+  'health.show': '表示',
+  'health.hide': '隠す',
+  'health.waiting': '現在{count}件の回答。{min}人が回答すると結果が表示されます',
+  'health.openCount': '現在{count}件の回答。レトロが完了すると結果が表示されます',
+  'health.answers': '{count}件の回答',
+  'health.answersLabel': '{metric}の回答',
+  'health.historyLabel': '直近のレトロでの{metric}',
+  'health.scoreCount': '{score}（{label}）: {count}',
+  'health.lastRetros': '直近のレトロ: {averages}',
+  'health.vsLast': '前回のレトロ比',
+  'health.firstTime': '初めての質問',
+
+  // History
+  'history.title': '履歴と推移',
+  'history.loading': 'レトロの履歴を読み込み中...',
+  'history.empty': 'まだレトロはありません。何回か実施すると推移が表示されます。',
+  'history.negativeRatio': '赤 : 緑のカード（例：Good に対する Bad）',
+  'history.completion': '完了したアクションアイテム',
+  'history.participants': '参加者',
+  'history.totalVotes': '総票数',
+  'history.health': 'チームの健康度',
+  'history.healthHelp': 'レトロごとのヘルスチェック平均スコア（1〜5）',
+  'history.themes': '繰り返し出るテーマ',
+  'history.themesHelp': '複数のレトロに出てくる言葉',
+  'history.noThemes': '繰り返し出るテーマはまだありません',
+  'history.mentions': '{count}枚のカード',
+  'history.inRetros': '{count}回のレトロ',
+  'history.pastRetros': '過去のレトロ',
+  'history.overallDone': '全アクションアイテムの{percent}が完了',
+  'history.retro': 'レトロ',
+  'history.cards': 'カード',
+  'history.votes': '票',
+  'history.actionItemsDone': '完了したアクションアイテム',
+  'history.sentiment': '赤 {negative} / 緑 {positive}',
+  'history.doneOf': '{count}件中{done}件',
+  'trends.noData': 'まだデータはありません',
+  'trends.notApplicable': '該当なし',
+
+  // Present mode
+  'present.label': '発表モード',
+  'present.topic': 'トピック {index} / {count}',
+  'present.noTopic': 'トピックが選ばれていません',
+  'present.previous': '前へ',
+  'present.next': '次のトピック',
+  'present.end': '発表を終了',
+  'present.backToBoard': 'ボードに戻る',
+  'present.timeUp': '時間切れ',
+  'present.extend': '+{count}分',
+  'present.restart': 'やり直す',
+  'present.minutes': 'トピックごとの時間',
+  'present.minutesOption': 'トピックごとに{count}分',
+  'present.group': 'グループ · {name}',
+  'present.votes': '{count}票',
+  'present.comments': 'コメント（{count}）',
+  'present.pickTopic': '「次のトピック」を押して始めましょう。',
+  'present.waiting': 'ファシリテーターを待っています...',
+  'present.thisTopic': 'このトピック:',
+  'present.keepTalking': '話を続ける',
+  'present.moveOn': '次に進む',
+
+  // Export, import and invites
+  'export.button': 'エクスポート',
+  'export.lockedWhileWriting': 'エクスポートは記入フェーズが終わりカードが公開されてから使えます。',
+  'export.invalidJson': 'このファイルは有効なJSONではありません。',
+  'export.notAnExport': 'このファイルはレトロボードのエクスポートではありません。',
+  'export.unsupportedVersion': 'エクスポートのバージョン{version}には対応していません。',
+  'export.noColumns': 'エクスポートにボード名または列がありません。',
+  'export.noItems': 'エクスポートにカードがありません。',
+  'export.emptyColumn': 'カードはありません',
+  'export.votes': '{count}票',
+  'export.groupVotes': 'グループ・{count}票',
+  'export.csv.column': '列',
+  'export.csv.item': 'カード',
+  'export.csv.votes': '投票数',
+  'export.csv.author': '作成者',
+  'export.csv.group': 'グループ',
+  'export.csv.comments': 'コメント数',
+  'export.csv.createdAt': '作成日時',
+  'invite.joining': 'ボードに参加中...',
+  'invite.joinFailed': 'ボードに参加できませんでした。もう一度お試しください。',
+
+  // Edit history
+  'revisions.edited': '（編集済み）',
+  'revisions.editedAt': '{date}に編集',
+  'revisions.loading': '履歴を読み込み中...',
+  'revisions.empty': '以前のバージョンはありません',
+  'revisions.period': '{from} – {to}に置き換え',
+
+  // Offline changes
+  'board.voteDropped': 'オフライン中に投票したカードが削除されたため、投票は取り消されました。',
+  'board.commentDropped': 'オフライン中にコメントしたカードが削除されたため、コメントは破棄されました。',
+  'board.editDropped': 'オフライン中に編集したカードが削除されたため、編集は破棄されました。',
+  'board.commentEditDropped': 'オフライン中にコメントしたカードが削除されたため、編集は破棄されました。',
+  'board.reactionDropped': 'オフライン中にリアクションしたカードが削除されたため、リアクションは取り消されました。',
+};
+
+export default ja;
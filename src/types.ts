@@ -0,0 +1,273 @@
+export type ColumnColor = 'green' | 'red' | 'blue' | 'yellow' | 'purple' | 'orange' | 'pink' | 'gray';
+
+export type RetroPhase = 'write' | 'group' | 'vote' | 'discuss' | 'done';
+
+export type Anonymity = 'none' | 'authors' | 'voters' | 'both';
+
+export type ActionItemStatus = 'open' | 'done';
+
+export type TopicVoteChoice = 'extend' | 'move_on';
+
+export type BoardRole = 'facilitator' | 'participant' | 'observer';
+
+export type WebhookEvent = 'board.created' | 'board.phase_changed' | 'retro.completed' | 'action_item.assigned';
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'delivered' | 'failed';
+
+export interface RetroBoard {
+  id: string;
+  name: string;
+  sprint_label: string | null;
+  starts_on: string | null;
+  ends_on: string | null;
+  phase: RetroPhase;
+  vote_budget: number;
+  max_votes_per_item: number;
+  anonymity: Anonymity;
+  // Present mode: the topic on screen (null when not presenting) and when its timer runs out
+  present_item_id: string | null;
+  present_ends_at: string | null;
+  topic_minutes: number;
+  // The retro this one follows on from, whose open action items get carried over
+  previous_board_id: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface BoardColumn {
+  id: string;
+  board_id: string;
+  label: string;
+  color: ColumnColor;
+  placeholder: string | null;
+  position: number;
+}
+
+export interface RetroItem {
+  id: string;
+  board_id: string;
+  column_id: string;
+  content: string;
+  // null when the board hides authors and the card is someone else's
+  created_by: string | null;
+  created_at: string;
+  // Set once the author has changed the text, see `Revision`
+  edited_at: string | null;
+  // Set while a facilitator has hidden the card; only its author and facilitators still see it
+  hidden_at: string | null;
+  group_id: string | null;
+  votes?: Vote[];
+  comments?: Comment[];
+  // Reactions to the card and to its comments, see `Reaction.comment_id`
+  reactions?: Reaction[];
+  attachments?: Attachment[];
+  users?: {
+    nickname: string;
+  } | null;
+}
+
+export interface ItemGroup {
+  id: string;
+  board_id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface Vote {
+  id: string;
+  board_id: string;
+  retro_item_id: string;
+  // null when the board hides voters and the vote is someone else's
+  user_id: string | null;
+  users?: {
+    nickname: string;
+  } | null;
+}
+
+export interface Comment {
+  id: string;
+  board_id: string;
+  retro_item_id: string;
+  // null when the board hides authors and the comment is someone else's
+  user_id: string | null;
+  content: string;
+  created_at: string;
+  edited_at: string | null;
+  // The comment this one replies to; replies are never more than one level deep
+  parent_id: string | null;
+  users?: {
+    nickname: string;
+  } | null;
+}
+
+// An emoji on a card, or on one of its comments when `comment_id` is set. Separate from votes.
+export interface Reaction {
+  id: string;
+  board_id: string;
+  retro_item_id: string;
+  comment_id: string | null;
+  // null when the board hides voters and the reaction is someone else's
+  user_id: string | null;
+  emoji: string;
+  created_at: string;
+  users?: {
+    nickname: string;
+  } | null;
+}
+
+// An image on a card. The file is in the `retro-attachments` storage bucket under `storage_key`.
+export interface Attachment {
+  id: string;
+  board_id: string;
+  retro_item_id: string;
+  // null when the board hides authors and someone else attached the image
+  user_id: string | null;
+  storage_key: string;
+  url: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
+  users?: {
+    nickname: string;
+  } | null;
+}
+
+export interface TopicVote {
+  board_id: string;
+  retro_item_id: string;
+  user_id: string;
+  choice: TopicVoteChoice;
+}
+
+// A previous text of an edited item or comment.
+export interface Revision {
+  id: string;
+  content: string;
+  written_at: string;
+  replaced_at: string;
+}
+
+export interface ActionItem {
+  id: string;
+  board_id: string;
+  retro_item_id: string | null;
+  title: string;
+  assignee_id: string | null;
+  due_on: string | null;
+  status: ActionItemStatus;
+  completed_at: string | null;
+  created_by: string;
+  created_at: string;
+  assignee?: {
+    nickname: string;
+  } | null;
+  // Only loaded for action items carried over from earlier boards
+  retro_boards?: Pick<RetroBoard, 'name' | 'sprint_label'>;
+}
+
+// Per-board totals from the `board_stats` view.
+export interface BoardStats {
+  board_id: string;
+  item_count: number;
+  vote_count: number;
+  comment_count: number;
+  participant_count: number;
+}
+
+// Per-column card counts from the `board_column_stats` view.
+export interface ColumnStats {
+  board_id: string;
+  column_id: string;
+  label: string;
+  color: ColumnColor;
+  position: number;
+  item_count: number;
+}
+
+// A question in a board's health check, rated from 1 to 5.
+export interface HealthMetric {
+  id: string;
+  board_id: string;
+  label: string;
+  description: string | null;
+  position: number;
+}
+
+// The signed-in user's own answer; nobody else's answers are ever loaded.
+export interface HealthResponse {
+  id: string;
+  board_id: string;
+  metric_id: string;
+  user_id: string;
+  score: number;
+}
+
+// Per-metric totals from the `board_health_results` view. `average` and `counts` (the number
+// of 1s to 5s) are null until enough people have answered to keep the answers anonymous.
+export interface HealthResult {
+  board_id: string;
+  board_created_at: string;
+  metric_id: string;
+  label: string;
+  position: number;
+  response_count: number;
+  average: number | null;
+  counts: number[] | null;
+}
+
+export interface BoardMember {
+  board_id: string;
+  user_id: string;
+  role: BoardRole;
+  created_at: string;
+  users?: {
+    nickname: string;
+  } | null;
+}
+
+// An invite link; whoever opens `/invite/<token>` joins the board with `role`.
+export interface BoardInvite {
+  id: string;
+  board_id: string;
+  role: BoardRole;
+  token: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface UserSummary {
+  id: string;
+  nickname: string;
+}
+
+// An outgoing webhook. It fires for every board its owner facilitates.
+export interface Webhook {
+  id: string;
+  created_by: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  // Where the app runs, for links back to the board in the messages
+  app_url: string;
+  active: boolean;
+  created_at: string;
+}
+
+// One event sent (or still to be sent) to a webhook, with the outcome of its latest attempt.
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  // A WebhookEvent, or 'webhook.test' for a test message
+  event: string;
+  payload: { text: string } & Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}